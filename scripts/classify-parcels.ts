@@ -0,0 +1,274 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+import { summarizeAnalysis, type AnalysisSummaryFile } from '../src/lib/data/analysisSummaries'
+import { sanitizeParcelFeature, sanitizeRoadFeature } from '../src/lib/data/sanitize'
+import {
+  ANALYSIS_PRESETS,
+  DEFAULT_ANALYSIS_CONFIG,
+  isAnalysisPresetName,
+  type AnalysisConfig,
+} from '../src/lib/geo/analysisConfig'
+import { analyzeParcel } from '../src/lib/geo/parcelAnalysis'
+import { createParcelSpatialIndex } from '../src/lib/geo/parcelSpatialIndex'
+import { createLocalRoadNetwork } from '../src/lib/geo/roadNetwork'
+import { parseAnalysisConfigExport } from '../src/lib/storage/analysisConfig'
+import type {
+  LotType,
+  ParcelAnalysis,
+  ParcelFeature,
+  RoadFeature,
+} from '../src/types/parcel'
+
+const DATA_DIR = resolve(process.cwd(), 'public', 'data')
+const OUTPUT_DIR = resolve(DATA_DIR, 'classification')
+const PROGRESS_STEP = 2000
+const LOW_CONFIDENCE_PREVIEW_COUNT = 20
+// How far `--at` looks for the closest parcel when the point falls on a street or between lots.
+const NEAREST_FALLBACK_METERS = 30
+
+const CSV_COLUMNS = [
+  'id',
+  'siteId',
+  'address',
+  'lotType',
+  'confidence',
+  'confidenceScore',
+  'areaM2',
+  'frontageWidthM',
+  'averageDepthM',
+  'rectangularity',
+  'primaryStreet',
+  'edgeCount',
+  'edgeTypes',
+] as const
+
+interface ClassifiedParcel {
+  parcel: ParcelFeature
+  analysis: ParcelAnalysis
+}
+
+function readFlag(name: string): string | null {
+  const index = process.argv.indexOf(`--${name}`)
+  if (index < 0) return null
+  const value = process.argv[index + 1]
+  if (!value || value.startsWith('--')) {
+    throw new Error(`--${name} needs a value.`)
+  }
+  return value
+}
+
+// `--config <file>` takes a calibration exported from the debug panel; `--preset <name>` picks a named preset.
+async function resolveAnalysisConfig(): Promise<{ config: AnalysisConfig; label: string }> {
+  const configPath = readFlag('config')
+  if (configPath) {
+    const text = await readFile(resolve(process.cwd(), configPath), 'utf8')
+    return { config: parseAnalysisConfigExport(text), label: configPath }
+  }
+
+  const presetName = readFlag('preset')
+  if (presetName) {
+    if (!isAnalysisPresetName(presetName)) {
+      throw new Error(`Unknown preset "${presetName}". Use strict, default or permissive.`)
+    }
+    return { config: ANALYSIS_PRESETS[presetName], label: `${presetName} preset` }
+  }
+
+  return { config: DEFAULT_ANALYSIS_CONFIG, label: 'default preset' }
+}
+
+// `--at <lon>,<lat>` classifies only the parcel at that coordinate.
+function readCoordinateFlag(): [number, number] | null {
+  const value = readFlag('at')
+  if (!value) return null
+  const [lon, lat] = value.split(',').map((part) => Number(part.trim()))
+  if (lon === undefined || lat === undefined || !Number.isFinite(lon) || !Number.isFinite(lat)) {
+    throw new Error(`--at expects "<lon>,<lat>", got "${value}".`)
+  }
+  return [lon, lat]
+}
+
+async function readJson(fileName: string): Promise<unknown> {
+  const text = await readFile(resolve(DATA_DIR, fileName), 'utf8')
+  return JSON.parse(text)
+}
+
+function readFeatures(payload: unknown): unknown[] {
+  if (!payload || typeof payload !== 'object') return []
+  const features = (payload as { features?: unknown }).features
+  return Array.isArray(features) ? features : []
+}
+
+function escapeCsv(value: string | number): string {
+  const text = String(value)
+  if (!/[",\n]/.test(text)) return text
+  return `"${text.replace(/"/g, '""')}"`
+}
+
+function formatOptional(value: number | null, digits: number): string {
+  return value === null ? '' : value.toFixed(digits)
+}
+
+function toCsvRow({ parcel, analysis }: ClassifiedParcel): string {
+  const row: Record<(typeof CSV_COLUMNS)[number], string | number> = {
+    id: parcel.properties.id,
+    siteId: parcel.properties.siteId,
+    address: parcel.properties.fullAddress,
+    lotType: analysis.lotType,
+    confidence: analysis.confidence,
+    confidenceScore: analysis.confidenceScore.toFixed(2),
+    areaM2: analysis.areaM2.toFixed(1),
+    frontageWidthM: formatOptional(analysis.dimensions.frontageWidthMeters, 1),
+    averageDepthM: formatOptional(analysis.dimensions.averageDepthMeters, 1),
+    rectangularity: formatOptional(analysis.dimensions.rectangularity, 3),
+    primaryStreet: analysis.primaryStreet,
+    edgeCount: analysis.edges.length,
+    // Edge order follows the parcel ring, so position N is edge N+1 in the app's debug labels.
+    edgeTypes: analysis.edges.map((edge) => edge.type).join(';'),
+  }
+  return CSV_COLUMNS.map((column) => escapeCsv(row[column])).join(',')
+}
+
+function toOutputFeature({ parcel, analysis }: ClassifiedParcel) {
+  return {
+    type: 'Feature',
+    geometry: parcel.geometry,
+    properties: {
+      id: parcel.properties.id,
+      address: parcel.properties.fullAddress,
+      lotType: analysis.lotType,
+      confidence: analysis.confidence,
+      confidenceScore: Number(analysis.confidenceScore.toFixed(2)),
+      areaM2: Number(analysis.areaM2.toFixed(1)),
+      frontageWidthM: analysis.dimensions.frontageWidthMeters,
+      averageDepthM: analysis.dimensions.averageDepthMeters,
+      rectangularity: analysis.dimensions.rectangularity,
+      primaryStreet: analysis.primaryStreet,
+      edgeTypes: analysis.edges.map((edge) => edge.type),
+    },
+  }
+}
+
+async function main() {
+  const { config, label: configLabel } = await resolveAnalysisConfig()
+  console.log(`Using analysis config: ${configLabel}`)
+  console.log('Loading parcels and road centrelines...')
+  const parcels = readFeatures(await readJson('parcels.geojson'))
+    .map(sanitizeParcelFeature)
+    .filter((f): f is ParcelFeature => f !== null)
+
+  let roadFeatures: RoadFeature[]
+  try {
+    roadFeatures = readFeatures(await readJson('roads.geojson'))
+      .map(sanitizeRoadFeature)
+      .filter((f): f is RoadFeature => f !== null)
+  } catch (error) {
+    throw new Error(
+      `Could not read public/data/roads.geojson (${String(error)}). Run \`npm run data:fetch\` first.`,
+    )
+  }
+  if (roadFeatures.length === 0) {
+    throw new Error('public/data/roads.geojson has no road features; classification would be all Side edges.')
+  }
+
+  const roads = createLocalRoadNetwork({ type: 'FeatureCollection', features: roadFeatures })
+
+  const coordinate = readCoordinateFlag()
+  if (coordinate) {
+    const [lon, lat] = coordinate
+    const index = createParcelSpatialIndex(parcels)
+    const contained = index.findParcelAt(lon, lat)
+    const nearest = contained
+      ? null
+      : (index.nearest(coordinate, { maxDistanceMeters: NEAREST_FALLBACK_METERS })[0] ?? null)
+    const parcel = contained ?? nearest?.parcel
+    if (!parcel) {
+      throw new Error(`No parcel within ${NEAREST_FALLBACK_METERS} m of ${lon},${lat}.`)
+    }
+    if (nearest) {
+      console.log(
+        `No parcel contains ${lon},${lat}; using the closest one (${nearest.distanceMeters.toFixed(1)} m away).`,
+      )
+    }
+    const analysis = analyzeParcel(parcel, roads, config)
+    console.log([CSV_COLUMNS.join(','), toCsvRow({ parcel, analysis })].join('\n'))
+    return
+  }
+
+  console.log(`Classifying ${parcels.length} parcels against ${roadFeatures.length} road features...`)
+
+  const classified: ClassifiedParcel[] = []
+  let failedCount = 0
+  for (let index = 0; index < parcels.length; index += 1) {
+    const parcel = parcels[index]
+    if (!parcel) continue
+    try {
+      classified.push({ parcel, analysis: analyzeParcel(parcel, roads, config) })
+    } catch (error) {
+      failedCount += 1
+      console.warn(`[classification] ${parcel.properties.id} failed: ${String(error)}`)
+    }
+
+    const processed = index + 1
+    if (processed % PROGRESS_STEP === 0 || processed === parcels.length) {
+      const percent = Math.floor((processed / Math.max(parcels.length, 1)) * 100)
+      console.log(`[classification] ${percent}% (${processed}/${parcels.length})`)
+    }
+  }
+
+  await mkdir(OUTPUT_DIR, { recursive: true })
+  const csv = [CSV_COLUMNS.join(','), ...classified.map(toCsvRow)].join('\n')
+  await writeFile(resolve(OUTPUT_DIR, 'parcels-classified.csv'), `${csv}\n`, 'utf8')
+  const collection = {
+    type: 'FeatureCollection',
+    features: classified.map(toOutputFeature),
+  }
+  await writeFile(
+    resolve(OUTPUT_DIR, 'parcels-classified.geojson'),
+    `${JSON.stringify(collection)}\n`,
+    'utf8',
+  )
+
+  // Read by the app's search filters (`lot:corner area>600`).
+  const summaries: AnalysisSummaryFile = {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    config: configLabel,
+    parcels: Object.fromEntries(
+      classified.map(({ parcel, analysis }) => [parcel.properties.id, summarizeAnalysis(analysis)]),
+    ),
+  }
+  await writeFile(
+    resolve(OUTPUT_DIR, 'parcel-summaries.json'),
+    `${JSON.stringify(summaries)}\n`,
+    'utf8',
+  )
+
+  const lotTypeCounts = new Map<LotType, number>()
+  for (const { analysis } of classified) {
+    lotTypeCounts.set(analysis.lotType, (lotTypeCounts.get(analysis.lotType) ?? 0) + 1)
+  }
+  const lowConfidence = classified.filter(({ analysis }) => analysis.confidence === 'low')
+
+  console.log('')
+  console.log(`Done. Classified ${classified.length} parcels (${failedCount} failed).`)
+  console.log(`Wrote ${resolve(OUTPUT_DIR, 'parcels-classified.csv')}`)
+  console.log(`Wrote ${resolve(OUTPUT_DIR, 'parcels-classified.geojson')}`)
+  console.log(`Wrote ${resolve(OUTPUT_DIR, 'parcel-summaries.json')}`)
+  console.log('Lot types:')
+  for (const [lotType, count] of [...lotTypeCounts].sort((a, b) => b[1] - a[1])) {
+    const percent = ((count / Math.max(classified.length, 1)) * 100).toFixed(1)
+    console.log(`  ${lotType.padEnd(22)} ${String(count).padStart(7)}  (${percent}%)`)
+  }
+  console.log(`Low-confidence parcels: ${lowConfidence.length}`)
+  for (const { parcel } of lowConfidence.slice(0, LOW_CONFIDENCE_PREVIEW_COUNT)) {
+    console.log(`  ${parcel.properties.id}  ${parcel.properties.fullAddress}`)
+  }
+  if (lowConfidence.length > LOW_CONFIDENCE_PREVIEW_COUNT) {
+    console.log(`  ...and ${lowConfidence.length - LOW_CONFIDENCE_PREVIEW_COUNT} more (see CSV).`)
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exitCode = 1
+})
@@ -1,13 +1,37 @@
-import { mkdir, writeFile } from 'node:fs/promises'
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
 import { resolve } from 'node:path'
+import {
+  EMPTY_FETCH_STATE,
+  diffParcels,
+  fetchIfModified,
+  sanitizeFetchState,
+} from '../src/lib/data/datasetRefresh.ts'
+import { fromParcelExportFeature } from '../src/lib/data/parcelExport.ts'
+import { buildParcelTiles } from '../src/lib/data/parcelTiles.ts'
+import {
+  carryParcelZoning,
+  createZoningIndex,
+  fromZoningExportFeature,
+  joinParcelZoning,
+} from '../src/lib/geo/zoning.ts'
+import { buildSearchIndex } from '../src/lib/search/addressSearch.ts'
 
 const EXPORT_URL =
   'https://opendata.vancouver.ca/api/explore/v2.1/catalog/datasets/property-parcel-polygons/exports/geojson'
+const STREETS_EXPORT_URL =
+  'https://opendata.vancouver.ca/api/explore/v2.1/catalog/datasets/public-streets/exports/geojson'
+const LANES_EXPORT_URL =
+  'https://opendata.vancouver.ca/api/explore/v2.1/catalog/datasets/lanes/exports/geojson'
+const ZONING_EXPORT_URL =
+  'https://opendata.vancouver.ca/api/explore/v2.1/catalog/datasets/zoning-districts-and-labels/exports/geojson'
 const MAX_RETRIES = 4
 const RETRY_BASE_DELAY_MS = 600
 const DOWNLOAD_PROGRESS_STEP_PERCENT = 5
 const DOWNLOAD_PROGRESS_STEP_BYTES = 5 * 1024 * 1024
 const NORMALIZE_PROGRESS_STEP = 10000
+const FETCH_STATE_FILE = 'fetch-state.json'
+const CHANGE_REPORT_FILE = 'parcel-changes.json'
+const CHANGE_REPORT_PREVIEW = 10
 
 function sleep(ms) {
   return new Promise((resolvePromise) => {
@@ -74,76 +98,60 @@ async function readResponseTextWithProgress(response, label) {
   return chunks.join('')
 }
 
-async function fetchJsonWithRetry(url, label) {
+// Returns null when the server reports that the copy from the previous run is still current.
+async function fetchSourceWithRetry(source, validators) {
   let attempt = 0
   while (attempt <= MAX_RETRIES) {
     try {
-      const response = await fetch(url)
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status} ${response.statusText}`)
+      const result = await fetchIfModified(source.url, validators)
+      if (result.status === 'unchanged') {
+        console.log(`[${source.label}] not modified since the last download.`)
+        return null
       }
-      const text = await readResponseTextWithProgress(response, label)
-      console.log(`[${label}] parsing JSON...`)
-      return JSON.parse(text)
+      const text = await readResponseTextWithProgress(result.response, source.label)
+      console.log(`[${source.label}] parsing JSON...`)
+      return { payload: JSON.parse(text), validators: result.validators }
     } catch (error) {
       attempt += 1
       if (attempt > MAX_RETRIES) {
-        throw new Error(`${label} failed after ${MAX_RETRIES + 1} attempts: ${String(error)}`)
+        throw new Error(`${source.label} failed after ${MAX_RETRIES + 1} attempts: ${String(error)}`)
       }
       const delayMs = RETRY_BASE_DELAY_MS * attempt
-      console.warn(`${label} failed (attempt ${attempt}/${MAX_RETRIES + 1}). Retrying in ${delayMs}ms...`)
+      console.warn(`${source.label} failed (attempt ${attempt}/${MAX_RETRIES + 1}). Retrying in ${delayMs}ms...`)
       await sleep(delayMs)
     }
   }
 
-  throw new Error(`Unexpected retry failure for ${label}.`)
+  throw new Error(`Unexpected retry failure for ${source.label}.`)
 }
 
-function toFeature(rawFeature) {
-  const geometry = rawFeature?.geometry
-  const properties = rawFeature?.properties ?? {}
-
-  if (!geometry || geometry.type !== 'Polygon') {
+async function readJsonFile(path) {
+  try {
+    return JSON.parse(await readFile(path, 'utf8'))
+  } catch {
     return null
   }
+}
 
-  const lon = Number(properties?.geo_point_2d?.lon)
-  const lat = Number(properties?.geo_point_2d?.lat)
-  if (Number.isNaN(lon) || Number.isNaN(lat)) {
-    return null
-  }
+function readCollection(json) {
+  return Array.isArray(json?.features) ? json.features : null
+}
 
-  return {
-    type: 'Feature',
-    geometry,
-    properties: {
-      id: String(properties.site_id ?? `${properties.tax_coord ?? ''}-${properties.civic_number ?? ''}`),
-      siteId: String(properties.site_id ?? ''),
-      taxCoord: String(properties.tax_coord ?? ''),
-      civicNumber: String(properties.civic_number ?? ''),
-      streetName: String(properties.streetname ?? ''),
-      fullAddress: `${String(properties.civic_number ?? '').trim()} ${String(properties.streetname ?? '').trim()}`.trim(),
-      lon,
-      lat,
-    },
-  }
+async function writeJson(path, value) {
+  await writeFile(path, `${JSON.stringify(value)}\n`, 'utf8')
 }
 
-async function main() {
-  const payload = await fetchJsonWithRetry(EXPORT_URL, 'full geojson export')
-  const rawFeatures = Array.isArray(payload?.features) ? payload.features : []
+function normalizeParcels(rawFeatures) {
   console.log(`Normalizing ${rawFeatures.length} records...`)
-
   const features = []
   let skippedCount = 0
 
   for (let index = 0; index < rawFeatures.length; index += 1) {
-    const rawFeature = rawFeatures[index]
-    const feature = toFeature(rawFeature)
-    if (!feature || !feature.properties.id) {
-      skippedCount += 1
-    } else {
+    const feature = fromParcelExportFeature(rawFeatures[index])
+    if (feature) {
       features.push(feature)
+    } else {
+      skippedCount += 1
     }
 
     const processed = index + 1
@@ -154,28 +162,218 @@ async function main() {
   }
 
   features.sort((a, b) => a.properties.fullAddress.localeCompare(b.properties.fullAddress))
+  console.log(`Kept ${features.length} normalized parcel polygons.`)
+  console.log(`Skipped ${skippedCount} records due to missing/unsupported geometry or invalid coordinates.`)
+  return features
+}
+
+function toRoadName(properties) {
+  // Street centrelines are keyed by hundred block ("1000 W GEORGIA ST"); parcels only carry the street.
+  const raw = String(properties.hblock ?? properties.std_street ?? properties.streetname ?? '').trim()
+  return raw.replace(/^\d+\s+/, '')
+}
+
+function toRoadFeature(rawFeature, kind) {
+  const geometry = rawFeature?.geometry
+  const properties = rawFeature?.properties ?? {}
+
+  if (!geometry || (geometry.type !== 'LineString' && geometry.type !== 'MultiLineString')) {
+    return null
+  }
+
+  return {
+    type: 'Feature',
+    geometry,
+    properties: {
+      name: toRoadName(properties),
+      roadClass: String(properties.streetuse ?? kind).trim().toLowerCase(),
+      kind,
+    },
+  }
+}
+
+function logChangeList(label, changes) {
+  if (changes.length === 0) return
+  console.log(`  ${label}: ${changes.length}`)
+  for (const change of changes.slice(0, CHANGE_REPORT_PREVIEW)) {
+    console.log(`    ${change.id} ${change.address}`)
+  }
+  if (changes.length > CHANGE_REPORT_PREVIEW) {
+    console.log(`    ...and ${changes.length - CHANGE_REPORT_PREVIEW} more`)
+  }
+}
+
+// Parcels, search index and tiles are rebuilt together whenever the parcels or zoning change.
+async function refreshParcels(outputDir, state, nextState) {
+  const parcelsPath = resolve(outputDir, 'parcels.geojson')
+  const zoningPath = resolve(outputDir, 'zoning.geojson')
+  const previousParcels = readCollection(await readJsonFile(parcelsPath))
+  const hasTiles = (await readJsonFile(resolve(outputDir, 'parcel-tiles', 'manifest.json'))) !== null
+  const previousZoning = readCollection(await readJsonFile(zoningPath))
+
+  // Validators are only sent when the files they describe are still on disk.
+  const parcelSource = { key: 'parcels', url: EXPORT_URL, label: 'full geojson export' }
+  const parcelDownload = await fetchSourceWithRetry(
+    parcelSource,
+    previousParcels && hasTiles ? state.sources.parcels : undefined,
+  )
+  nextState.sources.parcels = parcelDownload?.validators ?? state.sources.parcels
+
+  let zoningFeatures = previousZoning ?? []
+  let zoningChanged = false
+  try {
+    const zoningSource = { key: 'zoning', url: ZONING_EXPORT_URL, label: 'zoning districts' }
+    const zoningDownload = await fetchSourceWithRetry(
+      zoningSource,
+      previousZoning ? state.sources.zoning : undefined,
+    )
+    if (zoningDownload) {
+      const rawFeatures = readCollection(zoningDownload.payload) ?? []
+      zoningFeatures = rawFeatures.map(fromZoningExportFeature).filter((feature) => feature !== null)
+      zoningChanged = true
+      nextState.sources.zoning = zoningDownload.validators
+      console.log(`[zoning districts] kept ${zoningFeatures.length} of ${rawFeatures.length} districts.`)
+    } else {
+      nextState.sources.zoning = state.sources.zoning
+    }
+  } catch (error) {
+    console.warn(`Skipping zoning district update: ${String(error)}`)
+  }
+
+  if (!parcelDownload && !zoningChanged) return false
 
-  const featureCollection = {
-    type: 'FeatureCollection',
-    features,
+  const features = parcelDownload
+    ? normalizeParcels(readCollection(parcelDownload.payload) ?? [])
+    : (previousParcels ?? [])
+
+  // Zoning is joined before writing so both the parcels and the search index carry the code.
+  // Joining against no districts would clear every code, so the previous codes are kept instead.
+  const zonedParcels =
+    zoningFeatures.length > 0
+      ? joinParcelZoning(features, createZoningIndex(zoningFeatures))
+      : carryParcelZoning(features, previousParcels ?? [])
+  if (zoningFeatures.length === 0) {
+    console.warn('[zoning districts] no district data; kept the zoning codes from the previous build.')
+  } else {
+    const matchedCount = zonedParcels.filter((feature) => feature.properties.zoningCode).length
+    console.log(`[zoning districts] matched ${matchedCount}/${zonedParcels.length} parcels.`)
   }
 
-  const searchIndex = features.map((feature) => ({
+  const searchIndex = zonedParcels.map((feature) => ({
     id: feature.properties.id,
     address: feature.properties.fullAddress,
     lon: feature.properties.lon,
     lat: feature.properties.lat,
     streetName: feature.properties.streetName,
+    zoningCode: feature.properties.zoningCode,
+    siteId: feature.properties.siteId,
+    taxCoord: feature.properties.taxCoord,
   }))
 
+  await writeJson(parcelsPath, { type: 'FeatureCollection', features: zonedParcels })
+  await writeJson(resolve(outputDir, 'search-index.json'), buildSearchIndex(searchIndex))
+
+  // The app streams parcels by tile; parcels.geojson stays for the batch classification script.
+  const { manifest, tiles } = buildParcelTiles(zonedParcels)
+  const tilesDir = resolve(outputDir, 'parcel-tiles')
+  await rm(tilesDir, { recursive: true, force: true })
+  await mkdir(tilesDir, { recursive: true })
+  for (const [quadkey, tileParcels] of tiles) {
+    await writeJson(resolve(tilesDir, `${quadkey}.json`), { type: 'FeatureCollection', features: tileParcels })
+  }
+  await writeJson(resolve(tilesDir, 'manifest.json'), manifest)
+  console.log(`Wrote ${zonedParcels.length} parcels in ${manifest.tiles.length} tiles at zoom ${manifest.zoom}.`)
+
+  if (zoningChanged && zoningFeatures.length > 0) {
+    await writeJson(zoningPath, { type: 'FeatureCollection', features: zoningFeatures })
+    console.log(`Wrote ${zoningFeatures.length} zoning districts.`)
+  }
+
+  // The change report describes the latest export against the one it replaced.
+  if (parcelDownload && previousParcels) {
+    const report = diffParcels(previousParcels, features)
+    await writeJson(resolve(outputDir, CHANGE_REPORT_FILE), report)
+    console.log(`Parcel changes since the previous export (${CHANGE_REPORT_FILE}):`)
+    logChangeList('added', report.added)
+    logChangeList('removed', report.removed)
+    logChangeList('geometry changed', report.geometryChanged)
+    if (report.added.length + report.removed.length + report.geometryChanged.length === 0) {
+      console.log('  none')
+    }
+  }
+  return true
+}
+
+// Road centrelines make classification independent of the rendered map, but the app can run without them.
+async function refreshRoads(outputDir, state, nextState) {
+  const roadsPath = resolve(outputDir, 'roads.geojson')
+  const previousRoads = readCollection(await readJsonFile(roadsPath))
+  const sources = [
+    { key: 'streets', url: STREETS_EXPORT_URL, label: 'street centrelines', kind: 'street' },
+    { key: 'lanes', url: LANES_EXPORT_URL, label: 'lane centrelines', kind: 'lane' },
+  ]
+
+  // Until the new file is written, the previous validators still describe what is on disk.
+  for (const source of sources) nextState.sources[source.key] = state.sources[source.key]
+
+  try {
+    const features = []
+    const downloaded = {}
+    for (const source of sources) {
+      const download = await fetchSourceWithRetry(
+        source,
+        previousRoads ? state.sources[source.key] : undefined,
+      )
+      if (download) {
+        downloaded[source.key] = download.validators
+        for (const rawFeature of readCollection(download.payload) ?? []) {
+          const feature = toRoadFeature(rawFeature, source.kind)
+          if (feature) features.push(feature)
+        }
+      } else {
+        // Unchanged: reuse this kind of road from the previous file.
+        for (const feature of previousRoads ?? []) {
+          if (feature.properties?.kind === source.kind) features.push(feature)
+        }
+      }
+      console.log(`[${source.label}] kept ${features.length} road features so far.`)
+    }
+
+    if (Object.keys(downloaded).length === 0) return false
+    await writeJson(roadsPath, { type: 'FeatureCollection', features })
+    Object.assign(nextState.sources, downloaded)
+    console.log(`Wrote ${features.length} road centreline features.`)
+    return true
+  } catch (error) {
+    console.warn(`Skipping road centrelines: ${String(error)}`)
+    return false
+  }
+}
+
+async function main() {
+  // `--force` ignores the saved validators and downloads everything again.
+  const force = process.argv.includes('--force')
   const outputDir = resolve(process.cwd(), 'public', 'data')
   await mkdir(outputDir, { recursive: true })
-  await writeFile(resolve(outputDir, 'parcels.geojson'), `${JSON.stringify(featureCollection)}\n`, 'utf8')
-  await writeFile(resolve(outputDir, 'search-index.json'), `${JSON.stringify(searchIndex)}\n`, 'utf8')
 
-  console.log(`Done. Downloaded ${rawFeatures.length} raw records.`)
-  console.log(`Wrote ${features.length} normalized parcel polygons.`)
-  console.log(`Skipped ${skippedCount} records due to missing/unsupported geometry or invalid coordinates.`)
+  const statePath = resolve(outputDir, FETCH_STATE_FILE)
+  const state = force ? EMPTY_FETCH_STATE : sanitizeFetchState(await readJsonFile(statePath))
+  const nextState = { version: 1, sources: {} }
+
+  const parcelsChanged = await refreshParcels(outputDir, state, nextState)
+  const roadsChanged = await refreshRoads(outputDir, state, nextState)
+
+  // Written last, so an interrupted run downloads again instead of trusting half-written files.
+  for (const [key, validators] of Object.entries(nextState.sources)) {
+    if (!validators) delete nextState.sources[key]
+  }
+  await writeJson(statePath, nextState)
+
+  if (!parcelsChanged && !roadsChanged) {
+    console.log('Dataset unchanged since the last download; kept the existing files.')
+  } else {
+    console.log('Done.')
+  }
 }
 
 main().catch((error) => {
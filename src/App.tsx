@@ -1,23 +1,75 @@
 import clsx from 'clsx'
-import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import type { Map as MapboxMap } from 'mapbox-gl'
+import { DataLoadStatus, type DataFile } from './features/data/DataLoadStatus'
 import { DebugPanel } from './features/debug/DebugPanel'
 import { ParcelMap } from './features/map/ParcelMap'
+import { AssemblyPanel } from './features/parcels/AssemblyPanel'
+import { CorrectionPanel } from './features/parcels/CorrectionPanel'
 import { InfoCard } from './features/parcels/InfoCard'
+import { SavedParcelsPanel } from './features/parcels/SavedParcelsPanel'
+import { SetbackPanel } from './features/parcels/SetbackPanel'
 import { SearchBar } from './features/search/SearchBar'
+import { SearchMatchSummary } from './features/search/SearchMatchSummary'
+import { useAnalysisConfig } from './hooks/useAnalysisConfig'
+import { useAnalysisSummaries } from './hooks/useAnalysisSummaries'
+import { useAnalysisWorker } from './hooks/useAnalysisWorker'
+import { useBuildableEnvelope } from './hooks/useBuildableEnvelope'
 import { useDebounce } from './hooks/useDebounce'
+import { readDeepLink, useDeepLink } from './hooks/useDeepLink'
+import { useIntersectionSearch, type IntersectionSearch } from './hooks/useIntersectionSearch'
 import { useParcelData } from './hooks/useParcelData'
+import { useParcelOverrides } from './hooks/useParcelOverrides'
 import { useParcelSelection } from './hooks/useParcelSelection'
 import { useRenderedParcels } from './hooks/useRenderedParcels'
+import { useSavedParcels } from './hooks/useSavedParcels'
 import { useSearchHistory } from './hooks/useSearchHistory'
+import { useSetbacks } from './hooks/useSetbacks'
 import { useTheme } from './hooks/useTheme'
-import type { SearchRecord } from './types/parcel'
+import { useZoningData } from './hooks/useZoningData'
+import type { DeepLink } from './lib/browser/deepLink'
+import { formatCoordinate, parseCoordinateInput, type ParsedCoordinate } from './lib/geo/coordinateInput'
+import {
+  isFilterQuery,
+  parseFilterQuery,
+  runFilterQuery,
+  suggestFilterCompletions,
+  type FilterResult,
+} from './lib/search/filterQuery'
+import { parseIntersectionQuery, type IntersectionQuery } from './lib/search/intersectionQuery'
+import type { AnalysisClient } from './lib/worker/analysisClient'
+import type { EdgeType, LotType, ParcelRef, Position, SavedParcel, SearchRecord } from './types/parcel'
 
-function scoreResult(address: string, term: string): number {
-  const lower = address.toLowerCase()
-  if (lower.startsWith(term)) return 0
-  if (lower.includes(term)) return 1
-  return 2
+const NO_RESULT_DETAILS = new Map<string, string>()
+
+function filterNotice({ records, matches, unanalyzed }: FilterResult): string {
+  const total = matches.length
+  const matched =
+    total === 0
+      ? 'No parcels match.'
+      : total > records.length
+        ? `Showing ${records.length} of ${total.toLocaleString()} matching parcels.`
+        : `${total.toLocaleString()} matching ${total === 1 ? 'parcel' : 'parcels'}.`
+  if (unanalyzed === 0) return matched
+  return `${matched} ${unanalyzed.toLocaleString()} not analyzed yet were left out; \`npm run data:classify\` covers them all.`
+}
+
+function intersectionNotice(
+  { first, second }: IntersectionQuery,
+  search: IntersectionSearch,
+  parcelCount: number,
+): string {
+  if (search.status === 'searching') return 'Finding the intersection…'
+  if (search.status === 'unavailable') return 'Intersection search needs public/data/roads.geojson.'
+  if (search.status === 'failed') return 'The intersection search failed. Try again.'
+  if (search.status === 'too-broad') return `"${search.name}" matches too many streets; be more specific.`
+
+  const [match] = search.matches
+  if (!match) return `${first} and ${second} do not meet.`
+  const parcels = `${parcelCount.toLocaleString()} ${parcelCount === 1 ? 'parcel' : 'parcels'}`
+  return search.matches.length > 1
+    ? `${parcels} where they meet in ${search.matches.length} places.`
+    : `${parcels} at ${match.streets[0]} & ${match.streets[1]}.`
 }
 
 function SunIcon() {
@@ -66,87 +118,437 @@ function MoonIcon() {
 
 function App() {
   const mapboxToken = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN ?? ''
-  const { isDark, toggle: toggleTheme } = useTheme()
-  const { parcels, searchIndex, loadingState } = useParcelData()
+  // Read once: later URL changes come through the deep-link hook.
+  const [initialLink] = useState(readDeepLink)
+  const { theme, isDark, toggle: toggleTheme, setLinkedTheme } = useTheme(initialLink.theme)
+  const { searchIndex, addressSearch, searchFile, retrySearchIndex } = useParcelData()
+  const { worker, hasLocalRoads, parcelFile, roadsFile, retryParcels, retryRoads } =
+    useAnalysisWorker()
+  const {
+    config: analysisConfig,
+    presetName,
+    applyPreset,
+    updateField,
+    exportConfig,
+    importConfig,
+  } = useAnalysisConfig()
   const { searchHistory, push: pushHistory, clear: clearHistory } = useSearchHistory()
+  const {
+    savedParcels,
+    storageError: savedStorageError,
+    save: saveParcel,
+    update: updateSavedParcel,
+    remove: removeSavedParcel,
+    exportJson: exportSavedJson,
+    exportCsv: exportSavedCsv,
+    importFile: importSavedParcels,
+  } = useSavedParcels()
   const [map, setMap] = useState<MapboxMap | null>(null)
-  const [debugMode, setDebugMode] = useState(false)
+  const [debugMode, setDebugMode] = useState(initialLink.debug)
+  // Set when a link restores its own view, so selecting its parcel leaves the view alone.
+  const [holdLinkView, setHoldLinkView] = useState(initialLink.view !== null)
+  const [linkNotice, setLinkNotice] = useState<string | null>(null)
+  const [showZoning, setShowZoning] = useState(false)
+  const zoning = useZoningData(showZoning)
   const [searchValue, setSearchValue] = useState('')
   const [searchFocused, setSearchFocused] = useState(false)
+  const [hoveredResult, setHoveredResult] = useState<SearchRecord | null>(null)
   const debouncedSearchValue = useDebounce(searchValue.trim(), 250)
+  // A pasted coordinate: its marker, and whether a parcel was found there.
+  const [pinnedLocation, setPinnedLocation] = useState<{
+    position: Position
+    status: 'resolving' | 'found' | 'missing'
+    // Shift-selected, so a found parcel joins the assembly.
+    additive: boolean
+  } | null>(null)
+  // The pin whose lookup has been sent, so a pin waiting for the worker is sent exactly once.
+  const requestedPinRef = useRef<Position | null>(null)
+
+  const {
+    overrides,
+    storageError: overrideStorageError,
+    setEdgeType,
+    setLotType,
+    clearOverride,
+    exportLabels,
+  } = useParcelOverrides()
+  const [selectedEdgeIndex, setSelectedEdgeIndex] = useState<number | null>(null)
+  const { summaryFor, remember, summariesFile, retrySummaries } = useAnalysisSummaries(overrides)
 
-  const { selectedParcelId, selectedParcel, analysis, select, parcelsById, refreshAnalysis } =
-    useParcelSelection(parcels, map)
-  const renderedParcels = useRenderedParcels(parcels, map)
+  const {
+    selectedParcelId,
+    selectedParcel,
+    site,
+    assembly,
+    assemblyIds,
+    assemblyBreakdown,
+    analysis,
+    classifiedAnalysis,
+    isAnalyzing,
+    select,
+    toggleAssembly,
+    clearAssembly,
+    clearSelection,
+    refreshAnalysis,
+  } = useParcelSelection(map, worker, hasLocalRoads, analysisConfig, overrides, remember)
+  const renderedParcels = useRenderedParcels(map, worker)
+  const { setbacks, updateSetback, resetSetbacks } = useSetbacks()
+  const envelope = useBuildableEnvelope(worker, site, analysis, setbacks)
 
-  // Viewport rendering keeps the map fast, but the selected parcel should always stay visible.
+  // Viewport rendering keeps the map fast, but selected and assembled parcels should always stay visible.
   const mapParcels = useMemo(() => {
-    if (!selectedParcel) return renderedParcels
-    const exists = renderedParcels.some((p) => p.properties.id === selectedParcel.properties.id)
-    if (exists) return renderedParcels
-    return [selectedParcel, ...renderedParcels]
-  }, [renderedParcels, selectedParcel])
+    const pinned = assembly ? assembly.parcels : selectedParcel ? [selectedParcel] : []
+    const renderedIds = new Set(renderedParcels.map((p) => p.properties.id))
+    const missing = pinned.filter((p) => !renderedIds.has(p.properties.id))
+    if (missing.length === 0) return renderedParcels
+    return [...missing, ...renderedParcels]
+  }, [renderedParcels, selectedParcel, assembly])
+
+  // Each file shows its own progress and retry; whatever has loaded is usable meanwhile.
+  const dataFiles = useMemo<DataFile[]>(
+    () => [
+      {
+        label: 'Search index',
+        path: 'public/data/search-index.json',
+        file: searchFile,
+        onRetry: retrySearchIndex,
+      },
+      {
+        label: 'Parcel tiles',
+        path: 'public/data/parcel-tiles/manifest.json',
+        file: parcelFile,
+        onRetry: retryParcels,
+      },
+      {
+        label: 'Road centrelines',
+        path: 'public/data/roads.geojson',
+        file: roadsFile,
+        onRetry: retryRoads,
+      },
+      {
+        label: 'Lot classification',
+        path: 'public/data/classification/parcel-summaries.json',
+        file: summariesFile,
+        onRetry: retrySummaries,
+      },
+    ],
+    [
+      searchFile,
+      retrySearchIndex,
+      parcelFile,
+      retryParcels,
+      roadsFile,
+      retryRoads,
+      summariesFile,
+      retrySummaries,
+    ],
+  )
 
   const showHistory = searchFocused && searchValue.trim().length === 0
+  const searchLocation = useMemo(() => parseCoordinateInput(searchValue), [searchValue])
+  const locationNotice =
+    pinnedLocation?.status === 'missing'
+      ? `No parcel contains ${formatCoordinate({ lon: pinnedLocation.position[0], lat: pinnedLocation.position[1] })}.`
+      : null
+
+  // `street:"Main St" lot:corner area>600`: errors and completions follow every keystroke, the
+  // results the debounced query.
+  const filterErrors = useMemo(
+    () =>
+      isFilterQuery(searchValue)
+        ? parseFilterQuery(searchValue).errors.filter((error) => !error.partial)
+        : [],
+    [searchValue],
+  )
+  const recordsById = useMemo(
+    () => new Map(searchIndex.map((record) => [record.id, record])),
+    [searchIndex],
+  )
+
+  const filterSearch = useMemo(() => {
+    if (!addressSearch || !isFilterQuery(debouncedSearchValue)) return null
+    const filter = parseFilterQuery(debouncedSearchValue)
+    const result = runFilterQuery(filter, { search: addressSearch, summaryFor })
+    return {
+      records: result.records,
+      matches: result.matches,
+      notice: filter.errors.length > 0 ? null : filterNotice(result),
+    }
+  }, [addressSearch, debouncedSearchValue, summaryFor])
+
+  // `Main St & E 2nd Ave`: the parcels around each place the streets meet, corner lots first.
+  const intersectionQuery = useMemo(
+    () =>
+      isFilterQuery(debouncedSearchValue) ? null : parseIntersectionQuery(debouncedSearchValue),
+    [debouncedSearchValue],
+  )
+  const intersection = useIntersectionSearch(
+    hasLocalRoads ? worker : null,
+    intersectionQuery,
+    analysisConfig,
+  )
+  const intersectionSearch = useMemo(() => {
+    if (!intersectionQuery || !intersection) return null
+    const search: IntersectionSearch =
+      !hasLocalRoads && roadsFile.status !== 'loading' ? { status: 'unavailable' } : intersection
+    const records: SearchRecord[] = []
+    const details = new Map<string, string>()
+    for (const match of search.status === 'done' ? search.matches : []) {
+      // A corrected lot type moves the parcel in or out of the corner lots.
+      const parcels = match.parcels.map(({ ref, lotType }) => ({
+        ref,
+        lotType: overrides.get(ref.id)?.lotType ?? lotType,
+      }))
+      parcels.sort((a, b) => Number(b.lotType === 'Corner Lot') - Number(a.lotType === 'Corner Lot'))
+      for (const { ref, lotType } of parcels) {
+        const record = recordsById.get(ref.id)
+        if (!record || details.has(ref.id)) continue
+        records.push(record)
+        details.set(ref.id, lotType)
+      }
+    }
+    return { records, details, notice: intersectionNotice(intersectionQuery, search, records.length) }
+  }, [intersectionQuery, intersection, hasLocalRoads, roadsFile.status, overrides, recordsById])
+
+  const searchResults = useMemo(
+    () =>
+      filterSearch?.records ??
+      intersectionSearch?.records ??
+      addressSearch?.search(debouncedSearchValue) ??
+      [],
+    [filterSearch, intersectionSearch, addressSearch, debouncedSearchValue],
+  )
+  // Everything the query matches, for the map; the dropdown only has room for the best few.
+  const searchMatches = useMemo(
+    () =>
+      filterSearch?.matches ??
+      intersectionSearch?.records ??
+      addressSearch?.allMatches(debouncedSearchValue) ??
+      [],
+    [filterSearch, intersectionSearch, addressSearch, debouncedSearchValue],
+  )
+  const zoomToSearchMatches = useCallback(() => {
+    if (!map || searchMatches.length === 0) return
+    let west = Number.POSITIVE_INFINITY
+    let south = Number.POSITIVE_INFINITY
+    let east = Number.NEGATIVE_INFINITY
+    let north = Number.NEGATIVE_INFINITY
+    for (const { lon, lat } of searchMatches) {
+      west = Math.min(west, lon)
+      south = Math.min(south, lat)
+      east = Math.max(east, lon)
+      north = Math.max(north, lat)
+    }
+    map.fitBounds(
+      [
+        [west, south],
+        [east, north],
+      ],
+      { padding: 60, duration: 700, maxZoom: 17 },
+    )
+  }, [map, searchMatches])
 
-  const searchResults = useMemo(() => {
-    const term = debouncedSearchValue.toLowerCase()
-    if (!term) return []
-    // Keep ranking deterministic and easy to reason about.
-    return [...searchIndex]
-      .filter((record) => record.address.toLowerCase().includes(term))
-      .sort((a, b) => {
-        const scoreA = scoreResult(a.address, term)
-        const scoreB = scoreResult(b.address, term)
-        if (scoreA !== scoreB) return scoreA - scoreB
-        return a.address.localeCompare(b.address)
-      })
-      .slice(0, 8)
-  }, [debouncedSearchValue, searchIndex])
+  // Outside a filter query, field names are only offered when no address matches the word.
+  const filterSuggestions = useMemo(
+    () =>
+      isFilterQuery(searchValue) || (searchResults.length === 0 && !intersectionSearch)
+        ? suggestFilterCompletions(searchValue)
+        : [],
+    [searchValue, searchResults, intersectionSearch],
+  )
+
+  const locateParcel = useCallback(
+    (parcelId: string): ParcelRef | null => recordsById.get(parcelId) ?? null,
+    [recordsById],
+  )
 
   const selectParcel = useCallback(
-    (parcelId: string, source: 'map' | 'search' | 'history') => {
-      // Single selection entrypoint so map click/search/history all follow identical behavior.
-      select(parcelId)
-      if (source !== 'map') {
-        const parcel = parcelsById.get(parcelId)
-        if (parcel) {
-          pushHistory({
-            id: parcel.properties.id,
-            address: parcel.properties.fullAddress,
-            lon: parcel.properties.lon,
-            lat: parcel.properties.lat,
-            streetName: parcel.properties.streetName,
-          })
-        }
+    (parcel: ParcelRef, source: 'map' | 'search' | 'history' | 'saved', additive = false) => {
+      // Single selection entrypoint so map click/search/history/saved all follow identical behavior.
+      if (additive) {
+        toggleAssembly(parcel)
+      } else {
+        select(parcel)
+      }
+      setSelectedEdgeIndex(null)
+      setHoldLinkView(false)
+      setLinkNotice(null)
+      // Only searches feed the history; map clicks and the saved list have their own trail.
+      if (source === 'search' || source === 'history') {
+        const record = recordsById.get(parcel.id)
+        if (record) pushHistory(record)
       }
     },
-    [select, parcelsById, pushHistory],
+    [select, toggleAssembly, recordsById, pushHistory],
   )
 
   const handleSearchSelect = useCallback(
-    (item: SearchRecord, source: 'search' | 'history') => {
+    (item: SearchRecord, source: 'search' | 'history', additive: boolean) => {
       setSearchValue(item.address)
       setSearchFocused(false)
-      selectParcel(item.id, source)
+      setPinnedLocation(null)
+      selectParcel(item, source, additive)
+    },
+    [selectParcel],
+  )
+
+  const lookUpLocation = useCallback(
+    (client: AnalysisClient, position: Position, additive: boolean) => {
+      requestedPinRef.current = position
+      const settle = (status: 'found' | 'missing') =>
+        setPinnedLocation((current) =>
+          current?.position === position ? { ...current, status } : current,
+        )
+      client.request('find-parcel-at', { lon: position[0], lat: position[1] }).then(
+        (parcel) => {
+          if (parcel) {
+            selectParcel(parcel, 'search', additive)
+          } else if (!additive) {
+            clearSelection()
+          }
+          settle(parcel ? 'found' : 'missing')
+        },
+        () => settle('missing'),
+      )
+    },
+    [selectParcel, clearSelection],
+  )
+
+  const handleLocationSelect = useCallback(
+    (location: ParsedCoordinate, additive: boolean) => {
+      const position: Position = [location.lon, location.lat]
+      setSearchValue(formatCoordinate(location))
+      setSearchFocused(false)
+      setPinnedLocation({ position, status: 'resolving', additive })
+      if (worker) lookUpLocation(worker, position, additive)
+    },
+    [worker, lookUpLocation],
+  )
+
+  // A coordinate entered before the worker was ready is looked up once it is.
+  useEffect(() => {
+    if (!worker || pinnedLocation?.status !== 'resolving') return
+    if (requestedPinRef.current === pinnedLocation.position) return
+    lookUpLocation(worker, pinnedLocation.position, pinnedLocation.additive)
+  }, [worker, pinnedLocation, lookUpLocation])
+
+  const handleSavedParcelSelect = useCallback(
+    (parcel: SavedParcel) => {
+      setPinnedLocation(null)
+      selectParcel(parcel, 'saved')
     },
     [selectParcel],
   )
 
+  // Lot type and area are taken from the finished analysis, so a stale one is never saved.
+  const canSaveSelected = Boolean(selectedParcel && analysis && !assembly && !isAnalyzing)
+  const handleSaveSelected = useCallback(() => {
+    if (!selectedParcel || !analysis || assembly) return
+    const { id, lon, lat, fullAddress } = selectedParcel.properties
+    saveParcel({
+      id,
+      lon,
+      lat,
+      address: recordsById.get(id)?.address ?? fullAddress,
+      lotType: analysis.lotType,
+      areaM2: analysis.areaM2,
+    })
+  }, [selectedParcel, analysis, assembly, recordsById, saveParcel])
+
+  const savedParcelRefs = useMemo(() => [...savedParcels.values()], [savedParcels])
+
+  const applyDeepLink = useCallback(
+    (link: DeepLink): boolean => {
+      setDebugMode(link.debug)
+      if (link.theme) setLinkedTheme(link.theme)
+      setPinnedLocation(null)
+      setSelectedEdgeIndex(null)
+      setHoldLinkView(link.view !== null)
+      if (link.view) map?.jumpTo({ center: [link.view.lon, link.view.lat], zoom: link.view.zoom })
+
+      const ref = link.parcelId ? recordsById.get(link.parcelId) : undefined
+      if (ref) select(ref)
+      else clearSelection()
+      if (!link.parcelId || ref) {
+        setLinkNotice(null)
+        return true
+      }
+      setLinkNotice(
+        `The linked parcel ${link.parcelId} was not found; it may have been retired in a data refresh.`,
+      )
+      return false
+    },
+    [map, recordsById, select, clearSelection, setLinkedTheme],
+  )
+
+  // Links are only applied against a loaded index: while it has failed, the linked parcel stays in
+  // the URL and opens once a retry succeeds.
+  useDeepLink(
+    map,
+    { parcelId: selectedParcelId, debug: debugMode, theme },
+    initialLink,
+    searchFile.status === 'ready',
+    applyDeepLink,
+  )
+  const waitingLinkNotice =
+    searchFile.status === 'error' && initialLink.parcelId && !selectedParcelId
+      ? `The linked parcel ${initialLink.parcelId} opens once the search index loads; retry it from the map's loading panel.`
+      : null
+
   const handleMapParcelSelect = useCallback(
-    (parcelId: string) => selectParcel(parcelId, 'map'),
+    (parcel: ParcelRef, additive: boolean) => {
+      setPinnedLocation(null)
+      selectParcel(parcel, 'map', additive)
+    },
     [selectParcel],
   )
 
+  const handleMapLocationClick = useCallback(
+    (lon: number, lat: number, additive: boolean) => {
+      if (!worker) return
+      setPinnedLocation(null)
+      worker.request('find-parcel-at', { lon, lat }).then(
+        (parcel) => {
+          if (parcel) selectParcel(parcel, 'map', additive)
+        },
+        () => {
+          // A failed lookup leaves the selection as it was.
+        },
+      )
+    },
+    [worker, selectParcel],
+  )
+
   const handleParcelViewReady = useCallback(
     (parcelId: string) => {
-      if (!map) return
       // Re-analyze once the map settles after fly-to so rendered road vectors are up to date.
-      refreshAnalysis(parcelId, map)
+      refreshAnalysis(parcelId)
+    },
+    [refreshAnalysis],
+  )
+
+  const handleEdgeTypeChange = useCallback(
+    (edgeIndex: number, type: EdgeType | null) => {
+      if (selectedParcelId) setEdgeType(selectedParcelId, edgeIndex, type)
     },
-    [map, refreshAnalysis],
+    [selectedParcelId, setEdgeType],
   )
 
+  const handleLotTypeChange = useCallback(
+    (lotType: LotType | null) => {
+      if (selectedParcelId) setLotType(selectedParcelId, lotType)
+    },
+    [selectedParcelId, setLotType],
+  )
+
+  const handleClearCorrections = useCallback(() => {
+    if (selectedParcelId) clearOverride(selectedParcelId)
+  }, [selectedParcelId, clearOverride])
+
+  const handleExportLabels = useCallback(() => {
+    if (worker) void exportLabels(worker, analysisConfig, locateParcel)
+  }, [exportLabels, worker, analysisConfig, locateParcel])
+
   const mapStyle = isDark
     ? 'mapbox://styles/mapbox/dark-v11'
     : 'mapbox://styles/mapbox/streets-v12'
@@ -190,12 +592,19 @@ function App() {
             value={searchValue}
             results={searchResults}
             history={searchHistory}
+            location={searchLocation}
+            suggestions={filterSuggestions}
+            errors={filterErrors}
+            notice={filterSearch?.notice ?? intersectionSearch?.notice ?? null}
+            resultDetails={intersectionSearch?.details ?? NO_RESULT_DETAILS}
             isFocused={searchFocused}
             showHistory={showHistory}
             onChange={setSearchValue}
             onSelect={handleSearchSelect}
+            onLocationSelect={handleLocationSelect}
             onFocusChange={setSearchFocused}
             onClearHistory={clearHistory}
+            onResultHover={setHoveredResult}
           />
 
           {/* Theme toggle */}
@@ -208,6 +617,20 @@ function App() {
             {isDark ? <SunIcon /> : <MoonIcon />}
           </button>
 
+          {/* Zoning overlay toggle */}
+          <button
+            type="button"
+            className={clsx(
+              'h-9 flex items-center justify-center border rounded-lg px-3 text-sm font-medium cursor-pointer whitespace-nowrap transition-colors',
+              showZoning
+                ? 'border-brand text-brand bg-brand/10'
+                : 'border-border bg-surface text-muted hover:bg-surface-hover hover:border-border-strong',
+            )}
+            onClick={() => setShowZoning((v) => !v)}
+          >
+            {showZoning ? 'Zoning: ON' : 'Zoning: OFF'}
+          </button>
+
           {/* Debug toggle */}
           <button
             type="button"
@@ -228,38 +651,82 @@ function App() {
       <div className="flex-1 grid grid-cols-[1fr_336px] gap-3 min-h-0 max-[1080px]:grid-cols-1">
         {/* Map */}
         <section className="relative rounded-2xl overflow-hidden border border-border min-h-[560px] shadow-sm max-[1080px]:min-h-[480px]">
-          {loadingState === 'ready' && (
-            <ParcelMap
-              token={mapboxToken}
-              mapStyle={mapStyle}
-              parcels={mapParcels}
-              selectedParcel={selectedParcel}
-              selectedParcelId={selectedParcelId}
-              analysis={analysis}
-              debugMode={debugMode}
-              onMapReady={setMap}
-              onParcelSelect={handleMapParcelSelect}
-              onParcelViewReady={handleParcelViewReady}
-            />
-          )}
-          {loadingState === 'loading' && (
-            <div className="h-full flex flex-col items-center justify-center gap-3 bg-surface text-muted text-sm font-medium">
-              <div className="w-6 h-6 rounded-full border-[2.5px] border-border border-t-accent animate-spin" />
-              <span>Loading parcel data...</span>
-            </div>
-          )}
-          {loadingState === 'error' && (
-            <div className="h-full flex flex-col items-center justify-center gap-2 bg-surface text-error text-sm font-medium text-center px-6">
-              Failed to load parcel data. Check that{' '}
-              <code>public/data/parcels.geojson</code> and{' '}
-              <code>public/data/search-index.json</code> exist.
-            </div>
-          )}
+          <ParcelMap
+            token={mapboxToken}
+            mapStyle={mapStyle}
+            parcels={mapParcels}
+            selectedParcel={selectedParcel}
+            selectedParcelId={selectedParcelId}
+            assemblyIds={assemblyIds}
+            analysis={analysis}
+            selectedEdgeIndex={selectedEdgeIndex}
+            envelope={envelope}
+            locationMarker={pinnedLocation?.position ?? null}
+            searchMatches={searchMatches}
+            pulseParcel={searchFocused ? hoveredResult : null}
+            savedParcels={savedParcelRefs}
+            zoning={zoning}
+            showZoning={showZoning}
+            debugMode={debugMode}
+            initialView={initialLink.view}
+            fitToSelection={!holdLinkView}
+            onMapReady={setMap}
+            onParcelSelect={handleMapParcelSelect}
+            onEdgeSelect={setSelectedEdgeIndex}
+            onLocationClick={handleMapLocationClick}
+            onParcelViewReady={handleParcelViewReady}
+          />
+          <SearchMatchSummary count={searchMatches.length} onZoomToAll={zoomToSearchMatches} />
+          <DataLoadStatus files={dataFiles} />
         </section>
 
         {/* Sidebar */}
         <aside className="flex flex-col gap-2.5 overflow-y-auto">
-          <InfoCard selectedParcel={selectedParcel} analysis={analysis} />
+          <InfoCard
+            selectedParcel={site}
+            analysis={analysis}
+            envelope={envelope}
+            isAnalyzing={isAnalyzing}
+            notice={linkNotice ?? waitingLinkNotice ?? locationNotice}
+          />
+
+          {selectedParcel && (
+            <AssemblyPanel
+              assembly={assembly}
+              analysis={assembly ? analysis : null}
+              breakdown={assemblyBreakdown}
+              onRemove={toggleAssembly}
+              onClear={clearAssembly}
+            />
+          )}
+
+          <CorrectionPanel
+            analysis={assembly ? null : analysis}
+            classifiedAnalysis={assembly ? null : classifiedAnalysis}
+            selectedEdgeIndex={selectedEdgeIndex}
+            correctionCount={overrides.size}
+            storageError={overrideStorageError}
+            onEdgeTypeChange={handleEdgeTypeChange}
+            onLotTypeChange={handleLotTypeChange}
+            onClear={handleClearCorrections}
+            onExport={handleExportLabels}
+          />
+
+          <SavedParcelsPanel
+            savedParcels={savedParcels}
+            selectedParcelId={assembly ? null : selectedParcelId}
+            canSaveSelected={canSaveSelected}
+            storageError={savedStorageError}
+            onSaveSelected={handleSaveSelected}
+            onSelect={handleSavedParcelSelect}
+            onUpdate={updateSavedParcel}
+            onRemove={removeSavedParcel}
+            onExportJson={exportSavedJson}
+            onExportCsv={exportSavedCsv}
+            onImport={importSavedParcels}
+          />
+
+          <SetbackPanel setbacks={setbacks} onChange={updateSetback} onReset={resetSetbacks} />
 
           {/* Edge Legend */}
           <section className="panel">
@@ -283,7 +750,20 @@ function App() {
             ))}
           </section>
 
-          {debugMode && <DebugPanel selectedParcel={selectedParcel} analysis={analysis} />}
+          {debugMode && (
+            <DebugPanel
+              selectedParcel={site}
+              analysis={analysis}
+              configControls={{
+                config: analysisConfig,
+                presetName,
+                onPresetChange: applyPreset,
+                onConfigChange: updateField,
+                onExport: exportConfig,
+                onImport: importConfig,
+              }}
+            />
+          )}
         </aside>
       </div>
     </main>
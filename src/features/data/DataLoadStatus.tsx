@@ -0,0 +1,74 @@
+import clsx from 'clsx'
+import type { FileLoadState } from '../../lib/data/fetchJson'
+
+export interface DataFile {
+  label: string
+  // Where the file is expected, shown with its error.
+  path: string
+  file: FileLoadState
+  onRetry: () => void
+}
+
+export interface DataLoadStatusProps {
+  files: DataFile[]
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function progressText({ loadedBytes, totalBytes }: FileLoadState['progress']): string {
+  if (totalBytes === null) return loadedBytes > 0 ? formatBytes(loadedBytes) : 'Waiting…'
+  return `${formatBytes(loadedBytes)} of ${formatBytes(totalBytes)}`
+}
+
+// Lists the files that are still downloading or failed; everything that has loaded is already usable.
+export function DataLoadStatus({ files }: DataLoadStatusProps) {
+  const pending = files.filter(({ file }) => file.status !== 'ready')
+  if (pending.length === 0) return null
+
+  return (
+    <div className="absolute left-3 bottom-3 w-[300px] max-w-[calc(100%-24px)] flex flex-col gap-2.5 px-3 py-2.5 rounded-lg bg-surface border border-border shadow-sm">
+      {pending.map(({ label, path, file, onRetry }) => {
+        const { loadedBytes, totalBytes } = file.progress
+        const percent = totalBytes ? Math.min(100, (loadedBytes / totalBytes) * 100) : null
+
+        return (
+          <div key={label} className="flex flex-col gap-1 text-[0.8rem]">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium text-foreground">{label}</span>
+              {file.status === 'error' ? (
+                <button
+                  type="button"
+                  className="text-[0.74rem] font-medium text-accent px-1.5 py-0.5 rounded cursor-pointer hover:bg-accent/10 transition-colors"
+                  onClick={onRetry}
+                >
+                  Retry
+                </button>
+              ) : (
+                <span className="text-[0.72rem] text-muted">{progressText(file.progress)}</span>
+              )}
+            </div>
+            {file.status === 'error' ? (
+              <p className="text-[0.74rem] text-error leading-snug">
+                {file.error} Check that <code>{path}</code> exists.
+              </p>
+            ) : (
+              <div className="h-1 rounded-full bg-surface-hover overflow-hidden">
+                <div
+                  className={clsx(
+                    'h-full rounded-full bg-accent',
+                    percent === null ? 'w-1/3 animate-pulse' : 'transition-[width]',
+                  )}
+                  style={percent === null ? undefined : { width: `${percent}%` }}
+                />
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
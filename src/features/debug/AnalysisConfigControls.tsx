@@ -0,0 +1,124 @@
+import clsx from 'clsx'
+import { useRef, useState, type ChangeEvent } from 'react'
+import {
+  ANALYSIS_CONFIG_FIELDS,
+  ANALYSIS_PRESET_NAMES,
+  type AnalysisConfig,
+  type AnalysisConfigKey,
+  type AnalysisPresetName,
+} from '../../lib/geo/analysisConfig'
+
+export interface AnalysisConfigControlsProps {
+  config: AnalysisConfig
+  presetName: AnalysisPresetName | null
+  onPresetChange: (name: AnalysisPresetName) => void
+  onConfigChange: (key: AnalysisConfigKey, value: number) => void
+  onExport: () => void
+  onImport: (file: File) => Promise<void>
+}
+
+function formatValue(value: number, unit: string): string {
+  const text = Number.isInteger(value) ? String(value) : value.toFixed(2)
+  if (unit === 'deg') return `${text}°`
+  return unit ? `${text}${unit}` : text
+}
+
+export function AnalysisConfigControls({
+  config,
+  presetName,
+  onPresetChange,
+  onConfigChange,
+  onExport,
+  onImport,
+}: AnalysisConfigControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Reset so picking the same file again still fires a change event.
+    event.target.value = ''
+    if (!file) return
+    try {
+      await onImport(file)
+      setImportError(null)
+    } catch {
+      setImportError('Could not read that file as an analysis config.')
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2.5 mt-3 pt-3 border-t border-border">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-[0.7rem] font-semibold tracking-[0.06em] uppercase text-muted-soft">
+          Analysis Config
+        </h3>
+        <div className="flex gap-1.5">
+          <button
+            type="button"
+            className="text-[0.74rem] font-medium text-accent px-1.5 py-0.5 rounded cursor-pointer hover:bg-accent/10 transition-colors"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Import
+          </button>
+          <button
+            type="button"
+            className="text-[0.74rem] font-medium text-accent px-1.5 py-0.5 rounded cursor-pointer hover:bg-accent/10 transition-colors"
+            onClick={onExport}
+          >
+            Export
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => void handleFileChange(event)}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-1.5">
+        {ANALYSIS_PRESET_NAMES.map((name) => (
+          <button
+            key={name}
+            type="button"
+            className={clsx(
+              'flex-1 h-7 border rounded-lg text-[0.76rem] font-medium capitalize cursor-pointer transition-colors',
+              presetName === name
+                ? 'border-brand text-brand bg-brand/10'
+                : 'border-border bg-surface text-muted hover:bg-surface-hover hover:border-border-strong',
+            )}
+            onClick={() => onPresetChange(name)}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+      {!presetName && <p className="text-[0.74rem] text-warn">Custom calibration (no preset matches).</p>}
+      {importError && <p className="text-[0.74rem] text-error">{importError}</p>}
+
+      <div className="flex flex-col gap-2 max-h-[260px] overflow-auto pr-1">
+        {ANALYSIS_CONFIG_FIELDS.map((field) => (
+          <label key={field.key} className="flex flex-col gap-0.5 text-[0.76rem] text-muted">
+            <span className="flex justify-between gap-2">
+              <span>{field.label}</span>
+              <span className="font-mono text-foreground">
+                {formatValue(config[field.key], field.unit)}
+              </span>
+            </span>
+            <input
+              type="range"
+              min={field.min}
+              max={Math.max(field.max, config[field.key])}
+              step={field.step}
+              value={config[field.key]}
+              className="w-full accent-[var(--brand)]"
+              onChange={(event) => onConfigChange(field.key, Number(event.target.value))}
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
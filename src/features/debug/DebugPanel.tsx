@@ -1,11 +1,16 @@
 import type { ParcelAnalysis, ParcelFeature } from '../../types/parcel'
+import {
+  AnalysisConfigControls,
+  type AnalysisConfigControlsProps,
+} from './AnalysisConfigControls'
 
 export interface DebugPanelProps {
   selectedParcel: ParcelFeature | null
   analysis: ParcelAnalysis | null
+  configControls: AnalysisConfigControlsProps
 }
 
-export function DebugPanel({ selectedParcel, analysis }: DebugPanelProps) {
+export function DebugPanel({ selectedParcel, analysis, configControls }: DebugPanelProps) {
   if (!selectedParcel || !analysis) {
     return (
       <section className="panel animate-fade-in">
@@ -13,10 +18,13 @@ export function DebugPanel({ selectedParcel, analysis }: DebugPanelProps) {
           Debug
         </h2>
         <p className="text-muted text-sm leading-relaxed">No parcel selected.</p>
+        <AnalysisConfigControls {...configControls} />
       </section>
     )
   }
 
+  const isMultiPart = selectedParcel.geometry.type === 'MultiPolygon'
+
   return (
     <section className="panel animate-fade-in">
       <h2 className="text-[0.7rem] font-semibold tracking-[0.06em] uppercase text-muted-soft mb-3">
@@ -39,7 +47,11 @@ export function DebugPanel({ selectedParcel, analysis }: DebugPanelProps) {
             key={edge.index}
             className="text-[0.76rem] font-mono bg-surface-hover border border-border rounded-lg px-2.5 py-1.5 leading-relaxed text-muted"
           >
-            <strong className="text-foreground">Edge {edge.index + 1}</strong> {edge.type} | Road:{' '}
+            <strong className="text-foreground">Edge {edge.index + 1}</strong>
+            {isMultiPart ? ` (part ${edge.partIndex + 1})` : ''} {edge.type}
+            {edge.isOverridden ? ' (overridden)' : ''} |{' '}
+            {edge.lengthMeters.toFixed(1)}m
+            {edge.vertices.length > 2 ? ` (${edge.vertices.length - 1} segments merged)` : ''} | Road:{' '}
             {edge.roadName || 'N/A'} ({edge.roadKind ?? 'none'}) | Adjacent:{' '}
             {edge.isRoadAdjacent ? 'yes' : 'no'}
             {typeof edge.roadDistanceMeters === 'number'
@@ -47,11 +59,21 @@ export function DebugPanel({ selectedParcel, analysis }: DebugPanelProps) {
               : ''}
             {typeof edge.orientationDiffDeg === 'number'
               ? ` | Angle: ${edge.orientationDiffDeg.toFixed(1)}°`
-              : ''}
+              : ''}{' '}
+            | Score: {edge.confidenceScore.toFixed(2)}
             <div>{edge.debug}</div>
+            {edge.evidence
+              .filter((item) => item.impact < 0)
+              .map((item) => (
+                <div key={item.factor} className="text-warn">
+                  {item.impact.toFixed(2)} {item.label}
+                </div>
+              ))}
           </div>
         ))}
       </div>
+
+      <AnalysisConfigControls {...configControls} />
     </section>
   )
 }
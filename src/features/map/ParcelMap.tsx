@@ -1,36 +1,163 @@
 import { useEffect, useRef } from 'react'
-import type { FeatureCollection, Polygon } from 'geojson'
+import type { FeatureCollection, MultiPolygon, Point, Polygon } from 'geojson'
 import mapboxgl, { type GeoJSONSource, type Map as MapboxMap } from 'mapbox-gl'
+import type { MapView } from '../../lib/browser/deepLink'
 import { toEdgeFeatureCollection } from '../../lib/geo/edgeFeatures'
+import { parcelBounds } from '../../lib/geo/parcelGeometry'
+import { zoningGroup, type ZoningGroup } from '../../lib/geo/zoning'
 import type {
+  BuildableEnvelope,
   ParcelAnalysis,
   ParcelFeature,
   ParcelFeatureCollection,
+  ParcelRef,
+  Position,
+  ZoningFeatureCollection,
 } from '../../types/parcel'
 
 const PARCEL_SOURCE_ID = 'parcels-source'
 const PARCEL_FILL_LAYER_ID = 'parcels-fill-layer'
 const PARCEL_OUTLINE_LAYER_ID = 'parcels-outline-layer'
 const SELECTED_LAYER_ID = 'parcels-selected-layer'
+const ASSEMBLY_FILL_LAYER_ID = 'parcels-assembly-fill-layer'
 const EDGE_SOURCE_ID = 'selected-edges-source'
 const EDGE_LAYER_ID = 'selected-edges-layer'
 const EDGE_LABEL_LAYER_ID = 'selected-edges-label-layer'
+// Wide transparent line so thin lot edges are easy to click.
+const EDGE_HIT_LAYER_ID = 'selected-edges-hit-layer'
+const EDGE_HIGHLIGHT_LAYER_ID = 'selected-edges-highlight-layer'
+
+const SAVED_SOURCE_ID = 'saved-parcels-source'
+const SAVED_LAYER_ID = 'saved-parcels-layer'
+const SEARCH_MATCH_SOURCE_ID = 'search-matches-source'
+const SEARCH_MATCH_LAYER_ID = 'search-matches-layer'
+const PULSE_SOURCE_ID = 'search-pulse-source'
+const PULSE_LAYER_ID = 'search-pulse-layer'
+const PULSE_PERIOD_MS = 1200
+
+const ENVELOPE_SOURCE_ID = 'buildable-envelope-source'
+const ENVELOPE_FILL_LAYER_ID = 'buildable-envelope-fill-layer'
+const ENVELOPE_OUTLINE_LAYER_ID = 'buildable-envelope-outline-layer'
+
+const ZONING_SOURCE_ID = 'zoning-source'
+const ZONING_FILL_LAYER_ID = 'zoning-fill-layer'
+const ZONING_OUTLINE_LAYER_ID = 'zoning-outline-layer'
+const ZONING_LABEL_LAYER_ID = 'zoning-label-layer'
+const ZONING_LAYER_IDS = [ZONING_FILL_LAYER_ID, ZONING_OUTLINE_LAYER_ID, ZONING_LABEL_LAYER_ID]
 
 const VANCOUVER_DOWNTOWN_CENTER: [number, number] = [-123.1207, 49.2827]
+const LOCATION_MARKER_COLOR = '#7b2cbf'
 
 function emptyParcels(): ParcelFeatureCollection {
   return { type: 'FeatureCollection', features: [] }
 }
 
+function toZoningCollection(
+  zoning: ZoningFeatureCollection | null,
+): FeatureCollection<Polygon | MultiPolygon, { zoningCode: string; group: ZoningGroup }> {
+  return {
+    type: 'FeatureCollection',
+    features: (zoning?.features ?? []).map((feature) => ({
+      type: 'Feature',
+      geometry: feature.geometry,
+      properties: {
+        zoningCode: feature.properties.zoningCode,
+        group: zoningGroup(feature.properties.zoningCode),
+      },
+    })),
+  }
+}
+
+function toEnvelopeCollection(
+  envelope: BuildableEnvelope | null,
+): FeatureCollection<Polygon | MultiPolygon> {
+  if (!envelope?.geometry) return { type: 'FeatureCollection', features: [] }
+  return {
+    type: 'FeatureCollection',
+    features: [{ type: 'Feature', geometry: envelope.geometry, properties: {} }],
+  }
+}
+
+function toPointCollection(refs: ParcelRef[]): FeatureCollection<Point, { id: string }> {
+  return {
+    type: 'FeatureCollection',
+    features: refs.map(({ id, lon, lat }) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [lon, lat] },
+      properties: { id },
+    })),
+  }
+}
+
 function toParcelsCollection(features: ParcelFeature[]): ParcelFeatureCollection {
   return { type: 'FeatureCollection', features }
 }
 
 function ensureMapLayers(map: MapboxMap): void {
+  // Zoning goes in first so it sits under the parcel layers.
+  if (!map.getSource(ZONING_SOURCE_ID)) {
+    map.addSource(ZONING_SOURCE_ID, {
+      type: 'geojson',
+      data: toZoningCollection(null),
+    })
+  }
+
+  if (!map.getLayer(ZONING_FILL_LAYER_ID)) {
+    map.addLayer({
+      id: ZONING_FILL_LAYER_ID,
+      type: 'fill',
+      source: ZONING_SOURCE_ID,
+      layout: { visibility: 'none' },
+      paint: {
+        'fill-color': [
+          'match',
+          ['get', 'group'],
+          'single-family', '#f4d35e',
+          'multi-family', '#ee964b',
+          'commercial', '#e63946',
+          'industrial', '#7b2cbf',
+          'comprehensive', '#457b9d',
+          'historic', '#8d6e63',
+          '#adb5bd',
+        ],
+        'fill-opacity': 0.18,
+      },
+    })
+  }
+
+  if (!map.getLayer(ZONING_OUTLINE_LAYER_ID)) {
+    map.addLayer({
+      id: ZONING_OUTLINE_LAYER_ID,
+      type: 'line',
+      source: ZONING_SOURCE_ID,
+      layout: { visibility: 'none' },
+      paint: { 'line-color': '#495057', 'line-width': 1, 'line-opacity': 0.6 },
+    })
+  }
+
+  if (!map.getLayer(ZONING_LABEL_LAYER_ID)) {
+    map.addLayer({
+      id: ZONING_LABEL_LAYER_ID,
+      type: 'symbol',
+      source: ZONING_SOURCE_ID,
+      minzoom: 14,
+      layout: {
+        'text-field': ['get', 'zoningCode'],
+        'text-size': 11,
+        visibility: 'none',
+      },
+      paint: {
+        'text-color': '#343a40',
+        'text-halo-color': '#ffffff',
+        'text-halo-width': 1.2,
+      },
+    })
+  }
+
   if (!map.getSource(PARCEL_SOURCE_ID)) {
     map.addSource(PARCEL_SOURCE_ID, {
       type: 'geojson',
-      data: emptyParcels() as unknown as FeatureCollection<Polygon>,
+      data: emptyParcels() as unknown as FeatureCollection<Polygon | MultiPolygon>,
     })
   }
 
@@ -52,6 +179,16 @@ function ensureMapLayers(map: MapboxMap): void {
     })
   }
 
+  if (!map.getLayer(ASSEMBLY_FILL_LAYER_ID)) {
+    map.addLayer({
+      id: ASSEMBLY_FILL_LAYER_ID,
+      type: 'fill',
+      source: PARCEL_SOURCE_ID,
+      paint: { 'fill-color': '#d62828', 'fill-opacity': 0.12 },
+      filter: ['in', ['get', 'id'], ['literal', []]],
+    })
+  }
+
   if (!map.getLayer(SELECTED_LAYER_ID)) {
     map.addLayer({
       id: SELECTED_LAYER_ID,
@@ -62,6 +199,90 @@ function ensureMapLayers(map: MapboxMap): void {
     })
   }
 
+  // Saved parcels sit under the search marks, which are the more transient of the two.
+  if (!map.getSource(SAVED_SOURCE_ID)) {
+    map.addSource(SAVED_SOURCE_ID, { type: 'geojson', data: toPointCollection([]) })
+  }
+
+  if (!map.getLayer(SAVED_LAYER_ID)) {
+    map.addLayer({
+      id: SAVED_LAYER_ID,
+      type: 'circle',
+      source: SAVED_SOURCE_ID,
+      paint: {
+        'circle-color': '#3a86ff',
+        'circle-radius': ['interpolate', ['linear'], ['zoom'], 11, 3, 16, 7],
+        'circle-stroke-color': '#ffffff',
+        'circle-stroke-width': 1.5,
+      },
+    })
+  }
+
+  // Label points rather than outlines: most matches are outside the loaded parcel tiles.
+  if (!map.getSource(SEARCH_MATCH_SOURCE_ID)) {
+    map.addSource(SEARCH_MATCH_SOURCE_ID, { type: 'geojson', data: toPointCollection([]) })
+  }
+
+  if (!map.getLayer(SEARCH_MATCH_LAYER_ID)) {
+    map.addLayer({
+      id: SEARCH_MATCH_LAYER_ID,
+      type: 'circle',
+      source: SEARCH_MATCH_SOURCE_ID,
+      paint: {
+        'circle-color': '#f77f00',
+        'circle-radius': ['interpolate', ['linear'], ['zoom'], 11, 2.5, 16, 6],
+        'circle-stroke-color': '#ffffff',
+        'circle-stroke-width': 1,
+        'circle-opacity': 0.85,
+      },
+    })
+  }
+
+  if (!map.getSource(PULSE_SOURCE_ID)) {
+    map.addSource(PULSE_SOURCE_ID, { type: 'geojson', data: toPointCollection([]) })
+  }
+
+  if (!map.getLayer(PULSE_LAYER_ID)) {
+    map.addLayer({
+      id: PULSE_LAYER_ID,
+      type: 'circle',
+      source: PULSE_SOURCE_ID,
+      paint: {
+        'circle-color': '#f77f00',
+        'circle-radius': 6,
+        'circle-opacity': 0,
+        'circle-stroke-color': '#f77f00',
+        'circle-stroke-width': 2,
+      },
+    })
+  }
+
+  // Added before the edge layers so lot lines stay on top of the envelope.
+  if (!map.getSource(ENVELOPE_SOURCE_ID)) {
+    map.addSource(ENVELOPE_SOURCE_ID, {
+      type: 'geojson',
+      data: toEnvelopeCollection(null),
+    })
+  }
+
+  if (!map.getLayer(ENVELOPE_FILL_LAYER_ID)) {
+    map.addLayer({
+      id: ENVELOPE_FILL_LAYER_ID,
+      type: 'fill',
+      source: ENVELOPE_SOURCE_ID,
+      paint: { 'fill-color': '#e9c46a', 'fill-opacity': 0.35 },
+    })
+  }
+
+  if (!map.getLayer(ENVELOPE_OUTLINE_LAYER_ID)) {
+    map.addLayer({
+      id: ENVELOPE_OUTLINE_LAYER_ID,
+      type: 'line',
+      source: ENVELOPE_SOURCE_ID,
+      paint: { 'line-color': '#b5838d', 'line-width': 1.5, 'line-dasharray': [2, 1.5] },
+    })
+  }
+
   if (!map.getSource(EDGE_SOURCE_ID)) {
     map.addSource(EDGE_SOURCE_ID, {
       type: 'geojson',
@@ -74,6 +295,9 @@ function ensureMapLayers(map: MapboxMap): void {
       id: EDGE_LAYER_ID,
       type: 'line',
       source: EDGE_SOURCE_ID,
+      layout: {
+        'line-join': 'round',
+      },
       paint: {
         'line-color': [
           'match',
@@ -89,13 +313,34 @@ function ensureMapLayers(map: MapboxMap): void {
     })
   }
 
+  if (!map.getLayer(EDGE_HIGHLIGHT_LAYER_ID)) {
+    map.addLayer({
+      id: EDGE_HIGHLIGHT_LAYER_ID,
+      type: 'line',
+      source: EDGE_SOURCE_ID,
+      filter: ['==', ['get', 'index'], -1],
+      layout: { 'line-join': 'round', 'line-cap': 'round' },
+      paint: { 'line-color': '#ffd166', 'line-width': 9, 'line-opacity': 0.7 },
+    }, EDGE_LAYER_ID)
+  }
+
+  if (!map.getLayer(EDGE_HIT_LAYER_ID)) {
+    map.addLayer({
+      id: EDGE_HIT_LAYER_ID,
+      type: 'line',
+      source: EDGE_SOURCE_ID,
+      paint: { 'line-color': '#000000', 'line-width': 14, 'line-opacity': 0 },
+    })
+  }
+
   if (!map.getLayer(EDGE_LABEL_LAYER_ID)) {
     map.addLayer({
       id: EDGE_LABEL_LAYER_ID,
       type: 'symbol',
       source: EDGE_SOURCE_ID,
       layout: {
-        'symbol-placement': 'line',
+        // One label per lot side, even when a merged side spans several segments.
+        'symbol-placement': 'line-center',
         'text-field': ['get', 'label'],
         'text-size': 11,
         visibility: 'none',
@@ -112,7 +357,13 @@ function ensureMapLayers(map: MapboxMap): void {
 function updateParcelsSource(map: MapboxMap, features: ParcelFeature[]): void {
   const source = map.getSource(PARCEL_SOURCE_ID) as GeoJSONSource | undefined
   if (!source) return
-  source.setData(toParcelsCollection(features) as unknown as FeatureCollection<Polygon>)
+  source.setData(toParcelsCollection(features) as unknown as FeatureCollection<Polygon | MultiPolygon>)
+}
+
+function updatePointSource(map: MapboxMap, sourceId: string, refs: ParcelRef[]): void {
+  const source = map.getSource(sourceId) as GeoJSONSource | undefined
+  if (!source) return
+  source.setData(toPointCollection(refs))
 }
 
 function updateEdgesSource(map: MapboxMap, analysis: ParcelAnalysis | null): void {
@@ -121,12 +372,53 @@ function updateEdgesSource(map: MapboxMap, analysis: ParcelAnalysis | null): voi
   source.setData(toEdgeFeatureCollection(analysis))
 }
 
+// An assembly outlines and tints every member; a single selection is outlined only.
+function setHighlightedParcels(
+  map: MapboxMap,
+  selectedParcelId: string | null,
+  assemblyIds: string[],
+): void {
+  const outlined = assemblyIds.length > 0 ? assemblyIds : selectedParcelId ? [selectedParcelId] : []
+  map.setFilter(SELECTED_LAYER_ID, ['in', ['get', 'id'], ['literal', outlined]])
+  map.setFilter(ASSEMBLY_FILL_LAYER_ID, ['in', ['get', 'id'], ['literal', assemblyIds]])
+}
+
+function setSelectedEdge(map: MapboxMap, edgeIndex: number | null): void {
+  if (!map.getLayer(EDGE_HIGHLIGHT_LAYER_ID)) return
+  map.setFilter(EDGE_HIGHLIGHT_LAYER_ID, ['==', ['get', 'index'], edgeIndex ?? -1])
+}
+
+function updateZoningSource(map: MapboxMap, zoning: ZoningFeatureCollection | null): void {
+  const source = map.getSource(ZONING_SOURCE_ID) as GeoJSONSource | undefined
+  if (!source) return
+  source.setData(toZoningCollection(zoning))
+}
+
+function setZoningVisibility(map: MapboxMap, visible: boolean): void {
+  for (const layerId of ZONING_LAYER_IDS) {
+    if (map.getLayer(layerId)) {
+      map.setLayoutProperty(layerId, 'visibility', visible ? 'visible' : 'none')
+    }
+  }
+}
+
+function updateEnvelopeSource(map: MapboxMap, envelope: BuildableEnvelope | null): void {
+  const source = map.getSource(ENVELOPE_SOURCE_ID) as GeoJSONSource | undefined
+  if (!source) return
+  source.setData(toEnvelopeCollection(envelope))
+}
+
 function fitToParcel(map: MapboxMap, parcel: ParcelFeature): void {
-  const ring = parcel.geometry.coordinates[0] ?? []
-  if (ring.length === 0) return
-  const bounds = new mapboxgl.LngLatBounds()
-  for (const [lon, lat] of ring) bounds.extend([lon, lat])
-  map.fitBounds(bounds, { padding: 80, duration: 700, maxZoom: 18 })
+  const bounds = parcelBounds(parcel.geometry)
+  if (!bounds) return
+  const [west, south, east, north] = bounds
+  map.fitBounds(
+    [
+      [west, south],
+      [east, north],
+    ],
+    { padding: 80, duration: 700, maxZoom: 18 },
+  )
 }
 
 export interface ParcelMapProps {
@@ -135,10 +427,32 @@ export interface ParcelMapProps {
   parcels: ParcelFeature[]
   selectedParcel: ParcelFeature | null
   selectedParcelId: string | null
+  // Members of the assembled site, if any.
+  assemblyIds: string[]
   analysis: ParcelAnalysis | null
+  selectedEdgeIndex: number | null
+  envelope: BuildableEnvelope | null
+  // Exact point of a pasted coordinate, marked on top of whatever parcel contains it.
+  locationMarker: Position | null
+  // Every parcel the current search matches, drawn at its label point.
+  searchMatches: ParcelRef[]
+  // The parcel under the pointer in the search dropdown; it pulses until the pointer moves on.
+  pulseParcel: ParcelRef | null
+  // The saved-parcels collection, drawn at each entry's saved location.
+  savedParcels: ParcelRef[]
+  zoning: ZoningFeatureCollection | null
+  showZoning: boolean
   debugMode: boolean
+  // Where the map opens, e.g. from a shared link; read once.
+  initialView?: MapView | null
+  // False while a restored link holds its own view, so selecting its parcel does not refit.
+  fitToSelection?: boolean
   onMapReady: (map: MapboxMap) => void
-  onParcelSelect: (parcelId: string) => void
+  // `additive` is true for shift-clicks, which build an assembly.
+  onParcelSelect: (parcel: ParcelRef, additive: boolean) => void
+  onEdgeSelect: (edgeIndex: number) => void
+  // Clicks that miss every rendered parcel, e.g. where the viewport cap left a parcel out.
+  onLocationClick?: (lon: number, lat: number, additive: boolean) => void
   onParcelViewReady?: (parcelId: string) => void
 }
 
@@ -148,10 +462,23 @@ export function ParcelMap({
   parcels,
   selectedParcel,
   selectedParcelId,
+  assemblyIds,
   analysis,
+  selectedEdgeIndex,
+  envelope,
+  locationMarker,
+  searchMatches,
+  pulseParcel,
+  savedParcels,
+  zoning,
+  showZoning,
   debugMode,
+  initialView = null,
+  fitToSelection = true,
   onMapReady,
   onParcelSelect,
+  onEdgeSelect,
+  onLocationClick,
   onParcelViewReady,
 }: ParcelMapProps) {
   const mapContainerRef = useRef<HTMLDivElement | null>(null)
@@ -160,23 +487,46 @@ export function ParcelMap({
   // Keep event handlers/state available to map callbacks without re-binding map events.
   const onMapReadyRef = useRef(onMapReady)
   const onParcelSelectRef = useRef(onParcelSelect)
+  const onEdgeSelectRef = useRef(onEdgeSelect)
+  const onLocationClickRef = useRef(onLocationClick)
   const onParcelViewReadyRef = useRef(onParcelViewReady)
   const parcelsRef = useRef(parcels)
   const analysisRef = useRef(analysis)
+  const selectedEdgeIndexRef = useRef(selectedEdgeIndex)
+  const envelopeRef = useRef(envelope)
+  const searchMatchesRef = useRef(searchMatches)
+  const pulseParcelRef = useRef(pulseParcel)
+  const savedParcelsRef = useRef(savedParcels)
+  const zoningRef = useRef(zoning)
+  const showZoningRef = useRef(showZoning)
   const selectedParcelIdRef = useRef(selectedParcelId)
+  const assemblyIdsRef = useRef(assemblyIds)
   const selectedParcelRef = useRef(selectedParcel)
   const debugModeRef = useRef(debugMode)
   const mapStyleRef = useRef(mapStyle)
+  const initialViewRef = useRef(initialView)
+  const fitToSelectionRef = useRef(fitToSelection)
 
   useEffect(() => { onMapReadyRef.current = onMapReady }, [onMapReady])
   useEffect(() => { onParcelSelectRef.current = onParcelSelect }, [onParcelSelect])
+  useEffect(() => { onEdgeSelectRef.current = onEdgeSelect }, [onEdgeSelect])
+  useEffect(() => { onLocationClickRef.current = onLocationClick }, [onLocationClick])
   useEffect(() => { onParcelViewReadyRef.current = onParcelViewReady }, [onParcelViewReady])
   useEffect(() => { parcelsRef.current = parcels }, [parcels])
   useEffect(() => { analysisRef.current = analysis }, [analysis])
+  useEffect(() => { selectedEdgeIndexRef.current = selectedEdgeIndex }, [selectedEdgeIndex])
+  useEffect(() => { envelopeRef.current = envelope }, [envelope])
+  useEffect(() => { searchMatchesRef.current = searchMatches }, [searchMatches])
+  useEffect(() => { pulseParcelRef.current = pulseParcel }, [pulseParcel])
+  useEffect(() => { savedParcelsRef.current = savedParcels }, [savedParcels])
+  useEffect(() => { zoningRef.current = zoning }, [zoning])
+  useEffect(() => { showZoningRef.current = showZoning }, [showZoning])
   useEffect(() => { selectedParcelIdRef.current = selectedParcelId }, [selectedParcelId])
+  useEffect(() => { assemblyIdsRef.current = assemblyIds }, [assemblyIds])
   useEffect(() => { selectedParcelRef.current = selectedParcel }, [selectedParcel])
   useEffect(() => { debugModeRef.current = debugMode }, [debugMode])
   useEffect(() => { mapStyleRef.current = mapStyle }, [mapStyle])
+  useEffect(() => { fitToSelectionRef.current = fitToSelection }, [fitToSelection])
 
   // Map initialization
   useEffect(() => {
@@ -184,11 +534,12 @@ export function ParcelMap({
     if (mapRef.current) return undefined
 
     mapboxgl.accessToken = token
+    const view = initialViewRef.current
     const map = new mapboxgl.Map({
       container: mapContainerRef.current,
       style: mapStyleRef.current,
-      center: VANCOUVER_DOWNTOWN_CENTER,
-      zoom: 13.5,
+      center: view ? [view.lon, view.lat] : VANCOUVER_DOWNTOWN_CENTER,
+      zoom: view?.zoom ?? 13.5,
       pitch: 0,
       bearing: 0,
       antialias: true,
@@ -202,14 +553,46 @@ export function ParcelMap({
       ensureMapLayers(map)
       updateParcelsSource(map, parcelsRef.current)
       updateEdgesSource(map, analysisRef.current)
+      setSelectedEdge(map, selectedEdgeIndexRef.current)
+      updateEnvelopeSource(map, envelopeRef.current)
+      updatePointSource(map, SEARCH_MATCH_SOURCE_ID, searchMatchesRef.current)
+      const pulsing = pulseParcelRef.current
+      updatePointSource(map, PULSE_SOURCE_ID, pulsing ? [pulsing] : [])
+      updatePointSource(map, SAVED_SOURCE_ID, savedParcelsRef.current)
+      updateZoningSource(map, zoningRef.current)
+      setZoningVisibility(map, showZoningRef.current)
       onMapReadyRef.current(map)
     })
 
     map.on('click', PARCEL_FILL_LAYER_ID, (event) => {
+      // Edge clicks are handled by the edge layer and must not re-select the parcel underneath.
+      if (map.queryRenderedFeatures(event.point, { layers: [EDGE_HIT_LAYER_ID] }).length > 0) return
+      const [feature] = event.features ?? []
+      const { id, lon, lat } = feature?.properties ?? {}
+      if (typeof id !== 'string' || !id || typeof lon !== 'number' || typeof lat !== 'number') return
+      onParcelSelectRef.current({ id, lon, lat }, event.originalEvent.shiftKey)
+    })
+
+    map.on('click', (event) => {
+      if (!isLoadedRef.current || !map.getLayer(PARCEL_FILL_LAYER_ID)) return
+      const hits = map.queryRenderedFeatures(event.point, {
+        layers: [PARCEL_FILL_LAYER_ID, EDGE_HIT_LAYER_ID],
+      })
+      if (hits.length > 0) return
+      onLocationClickRef.current?.(event.lngLat.lng, event.lngLat.lat, event.originalEvent.shiftKey)
+    })
+
+    map.on('click', EDGE_HIT_LAYER_ID, (event) => {
       const [feature] = event.features ?? []
-      const rawId = feature?.properties?.id
-      const parcelId = typeof rawId === 'string' ? rawId : ''
-      if (parcelId) onParcelSelectRef.current(parcelId)
+      const rawIndex = feature?.properties?.index
+      if (typeof rawIndex === 'number') onEdgeSelectRef.current(rawIndex)
+    })
+
+    map.on('mouseenter', EDGE_HIT_LAYER_ID, () => {
+      map.getCanvas().style.cursor = 'pointer'
+    })
+    map.on('mouseleave', EDGE_HIT_LAYER_ID, () => {
+      map.getCanvas().style.cursor = ''
     })
 
     map.on('mouseenter', PARCEL_FILL_LAYER_ID, () => {
@@ -240,9 +623,16 @@ export function ParcelMap({
       ensureMapLayers(map)
       updateParcelsSource(map, parcelsRef.current)
       updateEdgesSource(map, analysisRef.current)
+      setSelectedEdge(map, selectedEdgeIndexRef.current)
+      updateEnvelopeSource(map, envelopeRef.current)
+      updatePointSource(map, SEARCH_MATCH_SOURCE_ID, searchMatchesRef.current)
+      const pulsing = pulseParcelRef.current
+      updatePointSource(map, PULSE_SOURCE_ID, pulsing ? [pulsing] : [])
+      updatePointSource(map, SAVED_SOURCE_ID, savedParcelsRef.current)
+      updateZoningSource(map, zoningRef.current)
+      setZoningVisibility(map, showZoningRef.current)
 
-      const currentId = selectedParcelIdRef.current
-      map.setFilter(SELECTED_LAYER_ID, ['==', ['get', 'id'], currentId ?? '__none__'])
+      setHighlightedParcels(map, selectedParcelIdRef.current, assemblyIdsRef.current)
 
       if (debugModeRef.current) {
         map.setLayoutProperty(EDGE_LABEL_LAYER_ID, 'visibility', 'visible')
@@ -265,14 +655,89 @@ export function ParcelMap({
   useEffect(() => {
     const map = mapRef.current
     if (!map || !isLoadedRef.current) return
-    const target = selectedParcelId ?? '__none__'
-    map.setFilter(SELECTED_LAYER_ID, ['==', ['get', 'id'], target])
+    setSelectedEdge(map, selectedEdgeIndex)
+  }, [selectedEdgeIndex])
+
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !isLoadedRef.current) return
+    setHighlightedParcels(map, selectedParcelId, assemblyIds)
+  }, [selectedParcelId, assemblyIds])
 
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !isLoadedRef.current) return
+    updateEnvelopeSource(map, envelope)
+  }, [envelope])
+
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !isLoadedRef.current) return
+    updatePointSource(map, SEARCH_MATCH_SOURCE_ID, searchMatches)
+  }, [searchMatches])
+
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !isLoadedRef.current) return
+    updatePointSource(map, SAVED_SOURCE_ID, savedParcels)
+  }, [savedParcels])
+
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !isLoadedRef.current) return undefined
+    updatePointSource(map, PULSE_SOURCE_ID, pulseParcel ? [pulseParcel] : [])
+    if (!pulseParcel) return undefined
+
+    // A ring that grows and fades, restarting every period.
+    const start = performance.now()
+    let frame = 0
+    const animate = (now: number) => {
+      if (map.getLayer(PULSE_LAYER_ID)) {
+        const phase = ((now - start) % PULSE_PERIOD_MS) / PULSE_PERIOD_MS
+        map.setPaintProperty(PULSE_LAYER_ID, 'circle-radius', 6 + phase * 18)
+        map.setPaintProperty(PULSE_LAYER_ID, 'circle-stroke-opacity', 1 - phase)
+      }
+      frame = window.requestAnimationFrame(animate)
+    }
+    frame = window.requestAnimationFrame(animate)
+    return () => {
+      window.cancelAnimationFrame(frame)
+    }
+  }, [pulseParcel])
+
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !isLoadedRef.current) return
+    updateZoningSource(map, zoning)
+  }, [zoning])
+
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !isLoadedRef.current) return
+    setZoningVisibility(map, showZoning)
+  }, [showZoning])
+
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !locationMarker) return undefined
+    const marker = new mapboxgl.Marker({ color: LOCATION_MARKER_COLOR })
+      .setLngLat(locationMarker)
+      .addTo(map)
+    // The containing parcel, once found, refits the view around itself.
+    map.flyTo({ center: locationMarker, zoom: Math.max(map.getZoom(), 17), duration: 700 })
+    return () => {
+      marker.remove()
+    }
+  }, [locationMarker])
+
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !isLoadedRef.current) return
     if (!selectedParcelId || !selectedParcel) return
     map.once('idle', () => {
       onParcelViewReadyRef.current?.(selectedParcelId)
     })
-    fitToParcel(map, selectedParcel)
+    if (fitToSelectionRef.current) fitToParcel(map, selectedParcel)
   }, [selectedParcelId, selectedParcel])
 
   useEffect(() => {
@@ -0,0 +1,96 @@
+import type { ParcelAnalysis, ParcelFeature, ParcelRef } from '../../types/parcel'
+import type { SiteAssembly } from '../../lib/geo/assembly'
+
+export interface AssemblyPanelProps {
+  assembly: SiteAssembly | null
+  // Combined-site analysis; null when no assembly is active.
+  analysis: ParcelAnalysis | null
+  breakdown: Array<{ parcel: ParcelFeature; analysis: ParcelAnalysis }>
+  onRemove: (parcel: ParcelRef) => void
+  onClear: () => void
+}
+
+function formatArea(value: number): string {
+  return `${Math.round(value).toLocaleString()} m²`
+}
+
+function formatLength(value: number | null): string {
+  return value === null ? '—' : `${value.toFixed(1)} m`
+}
+
+export function AssemblyPanel({ assembly, analysis, breakdown, onRemove, onClear }: AssemblyPanelProps) {
+  if (!assembly || !analysis) {
+    return (
+      <section className="panel">
+        <h2 className="text-[0.7rem] font-semibold tracking-[0.06em] uppercase text-muted-soft mb-3">
+          Site Assembly
+        </h2>
+        <p className="text-muted text-sm leading-relaxed">
+          Shift-click parcels on the map or in search results to combine them into one site.
+        </p>
+      </section>
+    )
+  }
+
+  return (
+    <section className="panel">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h2 className="text-[0.7rem] font-semibold tracking-[0.06em] uppercase text-muted-soft">
+          Site Assembly ({assembly.parcels.length})
+        </h2>
+        <button
+          type="button"
+          className="text-[0.74rem] font-medium text-accent px-1.5 py-0.5 rounded cursor-pointer hover:bg-accent/10 transition-colors"
+          onClick={onClear}
+        >
+          Clear
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-3 text-center">
+        {[
+          { label: 'Area', value: formatArea(analysis.areaM2) },
+          { label: 'Frontage', value: formatLength(analysis.dimensions.frontageWidthMeters) },
+          { label: 'Lot Type', value: analysis.lotType },
+        ].map(({ label, value }) => (
+          <div key={label} className="rounded-lg bg-surface-hover px-2 py-1.5">
+            <div className="text-[0.7rem] text-muted-soft">{label}</div>
+            <div className="text-[0.8rem] font-semibold text-foreground">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      {assembly.partCount > 1 && (
+        <p className="mb-2 text-[0.78rem] text-warn leading-snug">
+          The selected parcels form {assembly.partCount} separate pieces; the lot type comes from the
+          largest.
+        </p>
+      )}
+
+      <div className="flex flex-col">
+        {breakdown.map(({ parcel, analysis: parcelAnalysis }, i) => (
+          <div
+            key={parcel.properties.id}
+            className={`flex items-center gap-2 py-1.5 text-[0.8rem] ${i < breakdown.length - 1 ? 'border-b border-border' : ''}`}
+          >
+            <div className="flex-1 min-w-0">
+              <div className="truncate text-foreground">{parcel.properties.fullAddress}</div>
+              <div className="text-[0.72rem] text-muted">
+                {formatArea(parcelAnalysis.areaM2)} ·{' '}
+                {formatLength(parcelAnalysis.dimensions.frontageWidthMeters)} · {parcelAnalysis.lotType}
+              </div>
+            </div>
+            <button
+              type="button"
+              className="text-[0.74rem] font-medium text-accent px-1.5 py-0.5 rounded cursor-pointer hover:bg-accent/10 transition-colors"
+              onClick={() => onRemove(parcel.properties)}
+              aria-label={`Remove ${parcel.properties.fullAddress} from the assembly`}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,109 @@
+import type { EdgeType, LotType, ParcelAnalysis } from '../../types/parcel'
+import { EDGE_TYPES, LOT_TYPES, hasOverrides } from '../../lib/geo/overrides'
+
+export interface CorrectionPanelProps {
+  analysis: ParcelAnalysis | null
+  // Classifier output before corrections, used to label the "keep classified" options.
+  classifiedAnalysis: ParcelAnalysis | null
+  selectedEdgeIndex: number | null
+  correctionCount: number
+  storageError: string | null
+  onEdgeTypeChange: (edgeIndex: number, type: EdgeType | null) => void
+  onLotTypeChange: (lotType: LotType | null) => void
+  onClear: () => void
+  onExport: () => void
+}
+
+const SELECT_CLASS =
+  'h-7 px-2 border border-border rounded-lg bg-surface text-foreground text-[0.8rem] outline-none focus:border-brand'
+
+export function CorrectionPanel({
+  analysis,
+  classifiedAnalysis,
+  selectedEdgeIndex,
+  correctionCount,
+  storageError,
+  onEdgeTypeChange,
+  onLotTypeChange,
+  onClear,
+  onExport,
+}: CorrectionPanelProps) {
+  const edge = analysis?.edges.find((item) => item.index === selectedEdgeIndex) ?? null
+  const classifiedEdge =
+    classifiedAnalysis?.edges.find((item) => item.index === selectedEdgeIndex) ?? null
+
+  return (
+    <section className="panel">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h2 className="text-[0.7rem] font-semibold tracking-[0.06em] uppercase text-muted-soft">
+          Corrections
+        </h2>
+        <div className="flex items-center gap-1">
+          {analysis && hasOverrides(analysis) && (
+            <button
+              type="button"
+              className="text-[0.74rem] font-medium text-accent px-1.5 py-0.5 rounded cursor-pointer hover:bg-accent/10 transition-colors"
+              onClick={onClear}
+            >
+              Clear
+            </button>
+          )}
+          <button
+            type="button"
+            className="text-[0.74rem] font-medium text-accent px-1.5 py-0.5 rounded cursor-pointer hover:bg-accent/10 transition-colors disabled:opacity-40 disabled:cursor-default"
+            onClick={onExport}
+            disabled={correctionCount === 0}
+          >
+            Export labels ({correctionCount})
+          </button>
+        </div>
+      </div>
+
+      {!analysis || !classifiedAnalysis ? (
+        <p className="text-muted text-sm leading-relaxed">Select a single parcel to correct it.</p>
+      ) : (
+        <div className="flex flex-col gap-1.5 text-sm text-muted">
+          <label className="flex items-center gap-2.5">
+            <span className="flex-1">Lot type</span>
+            <select
+              className={SELECT_CLASS}
+              value={analysis.isLotTypeOverridden ? analysis.lotType : ''}
+              onChange={(event) => onLotTypeChange((event.target.value || null) as LotType | null)}
+            >
+              <option value="">Classified ({classifiedAnalysis.lotType})</option>
+              {LOT_TYPES.map((lotType) => (
+                <option key={lotType} value={lotType}>
+                  {lotType}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {edge && classifiedEdge ? (
+            <label className="flex items-center gap-2.5">
+              <span className="flex-1">Edge {edge.index + 1}</span>
+              <select
+                className={SELECT_CLASS}
+                value={edge.isOverridden ? edge.type : ''}
+                onChange={(event) =>
+                  onEdgeTypeChange(edge.index, (event.target.value || null) as EdgeType | null)
+                }
+              >
+                <option value="">Classified ({classifiedEdge.type})</option>
+                {EDGE_TYPES.map((edgeType) => (
+                  <option key={edgeType} value={edgeType}>
+                    {edgeType}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : (
+            <p className="text-[0.8rem] leading-relaxed">Click an edge on the map to correct its type.</p>
+          )}
+        </div>
+      )}
+
+      {storageError && <p className="mt-2 text-[0.78rem] text-error">{storageError}</p>}
+    </section>
+  )
+}
@@ -1,8 +1,15 @@
-import type { ParcelAnalysis, ParcelFeature } from '../../types/parcel'
+import { topNegativeEvidence } from '../../lib/geo/confidence'
+import { hasOverrides } from '../../lib/geo/overrides'
+import type { BuildableEnvelope, ParcelAnalysis, ParcelFeature } from '../../types/parcel'
 
 export interface InfoCardProps {
   selectedParcel: ParcelFeature | null
   analysis: ParcelAnalysis | null
+  envelope: BuildableEnvelope | null
+  // True while the worker is still analyzing the selected parcel or site.
+  isAnalyzing?: boolean
+  // Shown instead of the prompt when nothing is selected, e.g. a pasted point outside every parcel.
+  notice?: string | null
 }
 
 function formatArea(value: number): string {
@@ -10,6 +17,22 @@ function formatArea(value: number): string {
   return `${Math.round(value).toLocaleString()} m²`
 }
 
+function formatLength(value: number | null): string {
+  if (value === null || !Number.isFinite(value)) return '—'
+  return `${value.toFixed(1)} m`
+}
+
+function formatRectangle(dimensions: ParcelAnalysis['dimensions']): string {
+  const rectangle = dimensions.boundingRectangle
+  if (!rectangle) return '—'
+  return `${rectangle.widthMeters.toFixed(1)} × ${rectangle.lengthMeters.toFixed(1)} m`
+}
+
+function formatRatio(value: number | null): string {
+  if (value === null || !Number.isFinite(value)) return '—'
+  return `${Math.round(value * 100)}%`
+}
+
 function getConfidenceClasses(confidence: string): string {
   const lower = confidence.toLowerCase()
   if (lower.includes('high')) return 'bg-ok/10 text-ok'
@@ -17,15 +40,13 @@ function getConfidenceClasses(confidence: string): string {
   return 'bg-error/10 text-error'
 }
 
-const INFO_ROWS = [
-  'border-b border-border',
-  'border-b border-border',
-  'border-b border-border',
-  'border-b border-border',
-  '', // last row — no border
-]
-
-export function InfoCard({ selectedParcel, analysis }: InfoCardProps) {
+export function InfoCard({
+  selectedParcel,
+  analysis,
+  envelope,
+  isAnalyzing = false,
+  notice = null,
+}: InfoCardProps) {
   if (!selectedParcel || !analysis) {
     return (
       <section className="panel">
@@ -33,7 +54,9 @@ export function InfoCard({ selectedParcel, analysis }: InfoCardProps) {
           Parcel
         </h2>
         <p className="text-muted text-sm leading-relaxed">
-          Select a parcel on the map or search an address.
+          {selectedParcel && isAnalyzing
+            ? 'Analyzing parcel…'
+            : (notice ?? 'Select a parcel on the map or search an address.')}
         </p>
       </section>
     )
@@ -48,6 +71,60 @@ export function InfoCard({ selectedParcel, analysis }: InfoCardProps) {
       label: 'Area',
       value: <span className="font-semibold text-foreground">{formatArea(analysis.areaM2)}</span>,
     },
+    {
+      label: 'Zoning',
+      value: (
+        <span className="font-semibold text-foreground">
+          {selectedParcel.properties.zoningCode || '—'}
+        </span>
+      ),
+    },
+    {
+      label: 'Buildable Area',
+      value: (
+        <span className="font-semibold text-foreground">
+          {envelope ? formatArea(envelope.areaM2) : '—'}
+        </span>
+      ),
+    },
+    {
+      label: 'Lot Coverage',
+      value: (
+        <span className="font-semibold text-foreground">
+          {formatRatio(envelope?.coverageRatio ?? null)}
+        </span>
+      ),
+    },
+    {
+      label: 'Frontage Width',
+      value: (
+        <span className="font-semibold text-foreground">
+          {formatLength(analysis.dimensions.frontageWidthMeters)}
+        </span>
+      ),
+    },
+    {
+      label: 'Average Depth',
+      value: (
+        <span className="font-semibold text-foreground">
+          {formatLength(analysis.dimensions.averageDepthMeters)}
+        </span>
+      ),
+    },
+    {
+      label: 'Bounding Rectangle',
+      value: (
+        <span className="font-semibold text-foreground">{formatRectangle(analysis.dimensions)}</span>
+      ),
+    },
+    {
+      label: 'Rectangularity',
+      value: (
+        <span className="font-semibold text-foreground">
+          {formatRatio(analysis.dimensions.rectangularity)}
+        </span>
+      ),
+    },
     {
       label: 'Primary Street',
       value: <span className="font-semibold text-foreground">{analysis.primaryStreet || '—'}</span>,
@@ -55,8 +132,15 @@ export function InfoCard({ selectedParcel, analysis }: InfoCardProps) {
     {
       label: 'Lot Type',
       value: (
-        <span className="inline-block px-2 py-0.5 rounded-full text-[0.76rem] font-semibold bg-brand/10 text-brand">
-          {analysis.lotType}
+        <span className="flex items-center gap-1.5">
+          {hasOverrides(analysis) && (
+            <span className="inline-block px-2 py-0.5 rounded-full text-[0.7rem] font-semibold bg-warn/10 text-warn">
+              overridden
+            </span>
+          )}
+          <span className="inline-block px-2 py-0.5 rounded-full text-[0.76rem] font-semibold bg-brand/10 text-brand">
+            {analysis.lotType}
+          </span>
         </span>
       ),
     },
@@ -66,11 +150,12 @@ export function InfoCard({ selectedParcel, analysis }: InfoCardProps) {
         <span
           className={`inline-block px-2 py-0.5 rounded-full text-[0.76rem] font-semibold ${getConfidenceClasses(analysis.confidence)}`}
         >
-          {analysis.confidence}
+          {analysis.confidence} · {analysis.confidenceScore.toFixed(2)}
         </span>
       ),
     },
   ]
+  const confidenceFactors = topNegativeEvidence(analysis.evidence, 3)
 
   return (
     <section className="panel">
@@ -81,12 +166,22 @@ export function InfoCard({ selectedParcel, analysis }: InfoCardProps) {
         {rows.map(({ label, value }, i) => (
           <div
             key={label}
-            className={`flex justify-between items-baseline gap-3 py-2 text-[0.87rem] ${INFO_ROWS[i]}`}
+            className={`flex justify-between items-baseline gap-3 py-2 text-[0.87rem] ${i < rows.length - 1 ? 'border-b border-border' : ''}`}
           >
             <span className="text-muted whitespace-nowrap shrink-0">{label}</span>
             {value}
           </div>
         ))}
+        {confidenceFactors.length > 0 && (
+          <ul className="mt-1 flex flex-col gap-1 text-[0.78rem] text-muted leading-snug">
+            {confidenceFactors.map((item) => (
+              <li key={item.label} className="flex justify-between gap-3">
+                <span>{item.label}</span>
+                <span className="font-mono text-warn shrink-0">{item.impact.toFixed(2)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
     </section>
   )
@@ -0,0 +1,257 @@
+import clsx from 'clsx'
+import { useMemo, useRef, useState, type ChangeEvent } from 'react'
+import { filterSavedParcels, savedParcelTags } from '../../lib/data/savedParcels'
+import type { SavedParcel } from '../../types/parcel'
+
+export interface SavedParcelsPanelProps {
+  savedParcels: Map<string, SavedParcel>
+  selectedParcelId: string | null
+  // False while nothing (or an assembly) is selected, or its analysis is still running.
+  canSaveSelected: boolean
+  storageError: string | null
+  onSaveSelected: () => void
+  onSelect: (parcel: SavedParcel) => void
+  onUpdate: (parcelId: string, changes: { notes?: string; tags?: string }) => void
+  onRemove: (parcelId: string) => void
+  onExportJson: () => void
+  onExportCsv: () => void
+  // Resolves to the number of parcels read.
+  onImport: (file: File) => Promise<number>
+}
+
+const LINK_BUTTON_CLASS =
+  'text-[0.74rem] font-medium text-accent px-1.5 py-0.5 rounded cursor-pointer hover:bg-accent/10 transition-colors disabled:opacity-40 disabled:cursor-default'
+const INPUT_CLASS =
+  'w-full px-2 border border-border rounded-lg bg-surface text-foreground text-[0.8rem] outline-none focus:border-brand'
+
+function describe(parcel: SavedParcel): string {
+  const parts = [
+    parcel.lotType ?? 'Not analyzed',
+    parcel.areaM2 === null ? null : `${Math.round(parcel.areaM2).toLocaleString()} m²`,
+  ]
+  return parts.filter(Boolean).join(' · ')
+}
+
+// Text typed into a field that is written back on blur. It follows the stored value whenever that
+// changes from elsewhere (an import, another edit), without remounting the field.
+function useDraft(stored: string) {
+  const [draft, setDraft] = useState({ stored, text: stored })
+  const text = draft.stored === stored ? draft.text : stored
+  return [text, (next: string) => setDraft({ stored, text: next })] as const
+}
+
+function SavedParcelEditor({
+  parcel,
+  onUpdate,
+  onRemove,
+}: {
+  parcel: SavedParcel
+  onUpdate: SavedParcelsPanelProps['onUpdate']
+  onRemove: SavedParcelsPanelProps['onRemove']
+}) {
+  const tagsText = parcel.tags.join(', ')
+  const [notes, setNotes] = useDraft(parcel.notes)
+  const [tags, setTags] = useDraft(tagsText)
+  // Written back on blur: a stored edit per keystroke is wasted work.
+  return (
+    <div className="flex flex-col gap-1.5 px-2 pb-2">
+      <textarea
+        key={`notes-${parcel.id}`}
+        value={notes}
+        rows={3}
+        placeholder="Notes"
+        className={clsx(INPUT_CLASS, 'py-1.5 resize-y')}
+        onChange={(event) => setNotes(event.target.value)}
+        onBlur={() => {
+          if (notes !== parcel.notes) onUpdate(parcel.id, { notes })
+        }}
+      />
+      <input
+        key={`tags-${parcel.id}`}
+        value={tags}
+        placeholder="Tags, separated by commas"
+        className={clsx(INPUT_CLASS, 'h-7')}
+        onChange={(event) => setTags(event.target.value)}
+        onBlur={() => {
+          if (tags !== tagsText) onUpdate(parcel.id, { tags })
+        }}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') event.currentTarget.blur()
+        }}
+      />
+      <div className="flex justify-between items-center text-[0.72rem] text-muted-soft">
+        <span>Saved {parcel.savedAt.slice(0, 10)}</span>
+        <button type="button" className={LINK_BUTTON_CLASS} onClick={() => onRemove(parcel.id)}>
+          Remove
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export function SavedParcelsPanel({
+  savedParcels,
+  selectedParcelId,
+  canSaveSelected,
+  storageError,
+  onSaveSelected,
+  onSelect,
+  onUpdate,
+  onRemove,
+  onExportJson,
+  onExportCsv,
+  onImport,
+}: SavedParcelsPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const [filterText, setFilterText] = useState('')
+  const [filterTag, setFilterTag] = useState<string | null>(null)
+  const [importMessage, setImportMessage] = useState<{ text: string; error: boolean } | null>(null)
+
+  const tags = useMemo(() => savedParcelTags(savedParcels.values()), [savedParcels])
+  // A tag that no parcel carries any more stops filtering.
+  const activeTag = filterTag !== null && tags.includes(filterTag) ? filterTag : null
+  const visible = useMemo(
+    () => filterSavedParcels(savedParcels.values(), { text: filterText, tag: activeTag }),
+    [savedParcels, filterText, activeTag],
+  )
+  const isSelectedSaved = selectedParcelId !== null && savedParcels.has(selectedParcelId)
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    try {
+      const count = await onImport(file)
+      setImportMessage({ text: `Read ${count} saved ${count === 1 ? 'parcel' : 'parcels'}.`, error: false })
+    } catch {
+      setImportMessage({ text: 'Could not read that file as saved parcels (JSON or CSV).', error: true })
+    }
+  }
+
+  return (
+    <section className="panel">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h2 className="text-[0.7rem] font-semibold tracking-[0.06em] uppercase text-muted-soft">
+          Saved parcels ({savedParcels.size})
+        </h2>
+        <div className="flex items-center gap-1">
+          <button type="button" className={LINK_BUTTON_CLASS} onClick={() => fileInputRef.current?.click()}>
+            Import
+          </button>
+          <button
+            type="button"
+            className={LINK_BUTTON_CLASS}
+            onClick={onExportJson}
+            disabled={savedParcels.size === 0}
+          >
+            JSON
+          </button>
+          <button
+            type="button"
+            className={LINK_BUTTON_CLASS}
+            onClick={onExportCsv}
+            disabled={savedParcels.size === 0}
+          >
+            CSV
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json,text/csv,.csv"
+            className="hidden"
+            onChange={(event) => void handleFileChange(event)}
+          />
+        </div>
+      </div>
+
+      {!isSelectedSaved && (
+        <button
+          type="button"
+          className="w-full h-8 mb-2.5 border border-border rounded-lg bg-surface text-[0.8rem] font-medium text-foreground cursor-pointer transition-colors hover:bg-surface-hover hover:border-border-strong disabled:opacity-40 disabled:cursor-default"
+          onClick={onSaveSelected}
+          disabled={!canSaveSelected}
+        >
+          Save selected parcel
+        </button>
+      )}
+
+      {savedParcels.size > 0 && (
+        <div className="flex flex-col gap-1.5 mb-2">
+          <input
+            value={filterText}
+            placeholder="Filter by address, note or tag"
+            className={clsx(INPUT_CLASS, 'h-7')}
+            onChange={(event) => setFilterText(event.target.value)}
+          />
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {tags.map((tag) => (
+                <button
+                  key={tag}
+                  type="button"
+                  className={clsx(
+                    'px-1.5 py-0.5 rounded border text-[0.7rem] cursor-pointer transition-colors',
+                    tag === activeTag
+                      ? 'border-brand text-brand bg-brand/10'
+                      : 'border-border text-muted hover:bg-surface-hover',
+                  )}
+                  onClick={() => setFilterTag(tag === activeTag ? null : tag)}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {savedParcels.size === 0 ? (
+        <p className="text-muted text-sm leading-relaxed">
+          Save parcels to keep notes and tags on them, or import a list.
+        </p>
+      ) : visible.length === 0 ? (
+        <p className="text-muted text-[0.8rem]">No saved parcels match.</p>
+      ) : (
+        <ul className="flex flex-col max-h-[320px] overflow-y-auto -mx-1">
+          {visible.map((parcel) => {
+            const isSelected = parcel.id === selectedParcelId
+            return (
+              <li key={parcel.id} className={clsx('rounded-lg', isSelected && 'bg-surface-hover')}>
+                <button
+                  type="button"
+                  className="w-full flex flex-col gap-0.5 px-2 py-1.5 text-left cursor-pointer rounded-lg hover:bg-surface-hover transition-colors"
+                  onClick={() => onSelect(parcel)}
+                >
+                  <span className="text-[0.84rem] text-foreground truncate">
+                    {parcel.address || parcel.id}
+                  </span>
+                  <span className="text-[0.72rem] text-muted">{describe(parcel)}</span>
+                  {parcel.tags.length > 0 && (
+                    <span className="flex flex-wrap gap-1 mt-0.5">
+                      {parcel.tags.map((tag) => (
+                        <span key={tag} className="px-1 rounded border border-border text-[0.68rem] text-muted">
+                          {tag}
+                        </span>
+                      ))}
+                    </span>
+                  )}
+                  {!isSelected && parcel.notes && (
+                    <span className="text-[0.74rem] text-muted-soft truncate">{parcel.notes}</span>
+                  )}
+                </button>
+                {isSelected && <SavedParcelEditor parcel={parcel} onUpdate={onUpdate} onRemove={onRemove} />}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {importMessage && (
+        <p className={clsx('mt-2 text-[0.78rem]', importMessage.error ? 'text-error' : 'text-muted')}>
+          {importMessage.text}
+        </p>
+      )}
+      {storageError && <p className="mt-2 text-[0.78rem] text-error">{storageError}</p>}
+    </section>
+  )
+}
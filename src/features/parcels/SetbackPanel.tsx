@@ -0,0 +1,52 @@
+import type { EdgeType } from '../../types/parcel'
+import { edgeColor } from '../../lib/geo/parcelAnalysis'
+import { SETBACK_EDGE_TYPES, type SetbackConfig } from '../../lib/geo/setbacks'
+
+export interface SetbackPanelProps {
+  setbacks: SetbackConfig
+  onChange: (edgeType: EdgeType, value: number) => void
+  onReset: () => void
+}
+
+export function SetbackPanel({ setbacks, onChange, onReset }: SetbackPanelProps) {
+  return (
+    <section className="panel">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h2 className="text-[0.7rem] font-semibold tracking-[0.06em] uppercase text-muted-soft">
+          Setbacks
+        </h2>
+        <button
+          type="button"
+          className="text-[0.74rem] font-medium text-accent px-1.5 py-0.5 rounded cursor-pointer hover:bg-accent/10 transition-colors"
+          onClick={onReset}
+        >
+          Reset
+        </button>
+      </div>
+      <div className="flex flex-col gap-1.5">
+        {SETBACK_EDGE_TYPES.map((edgeType) => (
+          <label key={edgeType} className="flex items-center gap-2.5 text-sm text-muted">
+            <span
+              className="w-[22px] h-[3px] rounded-full shrink-0"
+              style={{ background: edgeColor(edgeType) }}
+            />
+            <span className="flex-1">{edgeType}</span>
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={setbacks[edgeType]}
+              className="w-[72px] h-7 px-2 border border-border rounded-lg bg-surface text-foreground text-right font-mono text-[0.8rem] outline-none focus:border-brand"
+              onChange={(event) => {
+                // Ignore the empty string while the field is being retyped.
+                if (event.target.value === '') return
+                onChange(edgeType, Number(event.target.value))
+              }}
+            />
+            <span className="text-[0.76rem] text-muted-soft">m</span>
+          </label>
+        ))}
+      </div>
+    </section>
+  )
+}
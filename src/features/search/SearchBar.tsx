@@ -9,6 +9,9 @@ import {
   type KeyboardEvent,
   type KeyboardEventHandler,
 } from 'react'
+import { formatCoordinate, type ParsedCoordinate } from '../../lib/geo/coordinateInput'
+import { matchedIdentifier, type IdentifierField } from '../../lib/search/addressSearch'
+import type { FilterError, FilterSuggestion } from '../../lib/search/filterQuery'
 import type { SearchRecord } from '../../types/parcel'
 
 function SearchIcon() {
@@ -34,12 +37,43 @@ export interface SearchBarProps {
   value: string
   results: SearchRecord[]
   history: SearchRecord[]
+  // Set when the input reads as a coordinate or map link; offered above the address matches.
+  location: ParsedCoordinate | null
+  // Completions for a filter query, offered first.
+  suggestions: FilterSuggestion[]
+  // Problems with a filter query, shown above the list.
+  errors: FilterError[]
+  // A line under the results, e.g. how many parcels a filter matched.
+  notice: string | null
+  // A note beside a result, by parcel id; intersection results show their lot type.
+  resultDetails: ReadonlyMap<string, string>
   isFocused: boolean
   showHistory: boolean
   onChange: (value: string) => void
-  onSelect: (item: SearchRecord, source: 'search' | 'history') => void
+  // `additive` is true for shift-selection, which adds the parcel to an assembly.
+  onSelect: (item: SearchRecord, source: 'search' | 'history', additive: boolean) => void
+  onLocationSelect: (location: ParsedCoordinate, additive: boolean) => void
   onFocusChange: (focused: boolean) => void
   onClearHistory: () => void
+  // The parcel row under the pointer or keyboard focus, or null once it moves off the parcels.
+  onResultHover: (record: SearchRecord | null) => void
+}
+
+type SearchOption =
+  | { kind: 'record'; record: SearchRecord }
+  | { kind: 'location'; location: ParsedCoordinate }
+  | { kind: 'suggestion'; suggestion: FilterSuggestion }
+
+const FORMAT_LABELS: Record<ParsedCoordinate['format'], string> = {
+  decimal: 'Lat/Lon',
+  dms: 'DMS',
+  utm: 'UTM',
+  url: 'Map link',
+}
+
+const IDENTIFIER_LABELS: Record<IdentifierField, string> = {
+  siteId: 'Site ID',
+  taxCoord: 'Tax coord',
 }
 
 type NavigationKey = 'ArrowDown' | 'ArrowUp' | 'Enter' | 'Escape' | null
@@ -83,16 +117,32 @@ function getNavigationKey(event: { key: string; code?: string; keyCode?: number;
   return null
 }
 
+function IdentifierHint({ match }: { match: ReturnType<typeof matchedIdentifier> }) {
+  if (!match) return null
+  return (
+    <span className="ml-auto shrink-0 text-[0.72rem] text-muted">
+      {IDENTIFIER_LABELS[match.field]} <span className="font-mono">{match.value}</span>
+    </span>
+  )
+}
+
 export function SearchBar({
   value,
   results,
   history,
+  location,
+  suggestions,
+  errors,
+  notice,
+  resultDetails,
   isFocused,
   showHistory,
   onChange,
   onSelect,
+  onLocationSelect,
   onFocusChange,
   onClearHistory,
+  onResultHover,
 }: SearchBarProps) {
   const rootRef = useRef<HTMLDivElement | null>(null)
   const listboxId = useId()
@@ -104,12 +154,23 @@ export function SearchBar({
 
   const localShowHistory = value.trim().length === 0
   const effectiveShowHistory = showHistory || localShowHistory
-  const visibleItems = useMemo(
-    () => (effectiveShowHistory ? history : results),
-    [effectiveShowHistory, history, results],
-  )
+  const visibleItems = useMemo<SearchOption[]>(() => {
+    if (effectiveShowHistory) return history.map((record) => ({ kind: 'record', record }))
+    return [
+      ...suggestions.map((suggestion): SearchOption => ({ kind: 'suggestion', suggestion })),
+      ...(location ? [{ kind: 'location', location } satisfies SearchOption] : []),
+      ...results.map((record): SearchOption => ({ kind: 'record', record })),
+    ]
+  }, [effectiveShowHistory, history, results, location, suggestions])
+  const visibleErrors = effectiveShowHistory ? [] : errors
+  const visibleNotice = effectiveShowHistory ? null : notice
   const hasFocus = isInputFocused || isFocused
-  const isDropdownVisible = hasFocus && (effectiveShowHistory || visibleItems.length > 0)
+  const isDropdownVisible =
+    hasFocus &&
+    (effectiveShowHistory ||
+      visibleItems.length > 0 ||
+      visibleErrors.length > 0 ||
+      visibleNotice !== null)
   const normalizedActiveIndex =
     activeIndex >= 0 && activeIndex < visibleItems.length ? activeIndex : -1
   const activeItemId =
@@ -151,15 +212,26 @@ export function SearchBar({
   }, [visibleItems.length])
 
   const handleSelect = useCallback(
-    (item: SearchRecord): void => {
-      onSelect(item, effectiveShowHistory ? 'history' : 'search')
+    (option: SearchOption, additive: boolean): void => {
+      if (option.kind === 'suggestion') {
+        // Completing a clause keeps the user typing.
+        setActiveIndex(-1)
+        onChange(option.suggestion.query)
+        inputRef.current?.focus()
+        return
+      }
+      if (option.kind === 'location') {
+        onLocationSelect(option.location, additive)
+      } else {
+        onSelect(option.record, effectiveShowHistory ? 'history' : 'search', additive)
+      }
       inputRef.current?.blur()
     },
-    [effectiveShowHistory, onSelect],
+    [effectiveShowHistory, onChange, onSelect, onLocationSelect],
   )
 
   const handleNavigation = useCallback(
-    (navigationKey: Exclude<NavigationKey, null>): boolean => {
+    (navigationKey: Exclude<NavigationKey, null>, additive: boolean): boolean => {
       if (visibleItems.length === 0) {
         if (navigationKey === 'Escape') {
           inputRef.current?.blur()
@@ -188,7 +260,7 @@ export function SearchBar({
       if (navigationKey === 'Enter') {
         const target = visibleItems[normalizedActiveIndex] ?? visibleItems[0]
         if (target) {
-          handleSelect(target)
+          handleSelect(target, additive)
           return true
         }
         return false
@@ -207,7 +279,7 @@ export function SearchBar({
   const onInputKeyDown: KeyboardEventHandler<HTMLInputElement> = (event) => {
     const navigationKey = getNavigationKey(event)
     if (!navigationKey) return
-    if (!handleNavigation(navigationKey)) return
+    if (!handleNavigation(navigationKey, event.shiftKey)) return
     event.preventDefault()
     event.stopPropagation()
   }
@@ -246,7 +318,7 @@ export function SearchBar({
       if (!item) return
       event.preventDefault()
       event.stopPropagation()
-      handleSelect(item)
+      handleSelect(item, event.shiftKey)
     }
   }
 
@@ -285,7 +357,7 @@ export function SearchBar({
           autoCapitalize="none"
           spellCheck={false}
           className="w-full h-9 rounded-lg border border-border pl-8 pr-3 text-sm bg-surface text-foreground placeholder:text-muted-soft outline-none transition-[border-color,box-shadow] duration-150 focus:border-accent focus:ring-[3px] focus:ring-accent/20"
-          placeholder="Search Vancouver address..."
+          placeholder="Search an address, intersection, site ID or coordinate..."
           role="combobox"
           aria-expanded={isDropdownVisible}
           aria-autocomplete="list"
@@ -308,8 +380,9 @@ export function SearchBar({
       {isDropdownVisible && (
         <div
           id={listboxId}
-          className="absolute top-[calc(100%+5px)] left-0 right-0 bg-surface border border-border rounded-xl shadow-xl overflow-hidden z-50 animate-slide-down"
+          className="absolute top-[calc(100%+5px)] left-0 right-0 max-h-[min(420px,70vh)] overflow-y-auto bg-surface border border-border rounded-xl shadow-xl z-50 animate-slide-down"
           role="listbox"
+          onMouseLeave={() => onResultHover(null)}
         >
           {/* History header */}
           {effectiveShowHistory && history.length > 0 && (
@@ -325,11 +398,28 @@ export function SearchBar({
             </div>
           )}
 
+          {visibleErrors.length > 0 && (
+            <div role="alert" className="flex flex-col gap-1 px-3 py-2 border-b border-border">
+              {visibleErrors.map((error) => (
+                <p key={error.start} className="text-[0.78rem] text-error leading-snug">
+                  <code className="font-mono">{value.slice(error.start, error.end)}</code>{' '}
+                  {error.message}
+                </p>
+              ))}
+            </div>
+          )}
+
           {/* Items */}
           {visibleItems.map((item, index) => (
             <button
               id={`${listboxId}-option-${index}`}
-              key={`${item.id}-${effectiveShowHistory ? 'history' : 'result'}`}
+              key={
+                item.kind === 'suggestion'
+                  ? `suggestion-${item.suggestion.label}`
+                  : item.kind === 'location'
+                    ? 'location'
+                    : `${item.record.id}-${effectiveShowHistory ? 'history' : 'result'}`
+              }
               type="button"
               role="option"
               ref={(node) => {
@@ -337,29 +427,74 @@ export function SearchBar({
               }}
               aria-selected={index === normalizedActiveIndex}
               className={clsx(
-                'w-full border-none bg-transparent px-3 py-2.5 text-left text-[0.88rem] cursor-pointer text-foreground block transition-colors',
+                'w-full border-none bg-transparent px-3 py-2.5 text-left text-[0.88rem] cursor-pointer text-foreground flex items-center justify-between gap-2 transition-colors',
                 index === normalizedActiveIndex ? 'bg-surface-hover' : 'hover:bg-surface-hover',
               )}
-              onMouseEnter={() => setActiveIndex(index)}
+              onMouseEnter={() => {
+                setActiveIndex(index)
+                onResultHover(item.kind === 'record' ? item.record : null)
+              }}
               onFocus={() => {
                 keepOpen()
                 setActiveIndex(index)
+                onResultHover(item.kind === 'record' ? item.record : null)
               }}
               onBlur={scheduleClose}
               onKeyDown={(event) => onOptionKeyDown(event, index)}
               onMouseDown={(event) => {
                 event.preventDefault()
-                handleSelect(item)
+                handleSelect(item, event.shiftKey)
               }}
             >
-              {item.address}
+              {item.kind === 'suggestion' ? (
+                <>
+                  <span className="truncate font-mono text-[0.84rem]">{item.suggestion.label}</span>
+                  <span className="shrink-0 text-[0.72rem] text-muted">{item.suggestion.detail}</span>
+                </>
+              ) : item.kind === 'location' ? (
+                <>
+                  <span className="truncate">
+                    Go to <span className="font-mono">{formatCoordinate(item.location)}</span>
+                  </span>
+                  <span className="shrink-0 px-1.5 py-0.5 rounded border border-border text-[0.7rem] text-muted">
+                    {FORMAT_LABELS[item.location.format]}
+                  </span>
+                </>
+              ) : (
+                <>
+                  <span className="truncate">{item.record.address}</span>
+                  {!effectiveShowHistory && resultDetails.has(item.record.id) ? (
+                    <span className="ml-auto shrink-0 text-[0.72rem] text-muted">
+                      {resultDetails.get(item.record.id)}
+                    </span>
+                  ) : (
+                    !effectiveShowHistory && (
+                      <IdentifierHint match={matchedIdentifier(item.record, value)} />
+                    )
+                  )}
+                  {item.record.zoningCode && (
+                    <span className="shrink-0 px-1.5 py-0.5 rounded border border-border text-[0.7rem] font-mono text-muted">
+                      {item.record.zoningCode}
+                    </span>
+                  )}
+                </>
+              )}
             </button>
           ))}
 
           {/* Empty state */}
-          {!effectiveShowHistory && visibleItems.length === 0 && (
-            <div className="px-3 py-3.5 text-muted-soft text-[0.88rem] text-center">
-              No matching addresses.
+          {!effectiveShowHistory &&
+            visibleItems.length === 0 &&
+            visibleErrors.length === 0 &&
+            visibleNotice === null && (
+              <div className="px-3 py-3.5 text-muted-soft text-[0.88rem] text-center">
+                No matching addresses.
+              </div>
+            )}
+
+          {visibleNotice !== null && (
+            <div className="px-3 py-2 border-t border-border text-[0.74rem] text-muted">
+              {visibleNotice}
             </div>
           )}
         </div>
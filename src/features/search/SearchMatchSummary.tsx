@@ -0,0 +1,25 @@
+export interface SearchMatchSummaryProps {
+  count: number
+  onZoomToAll: () => void
+}
+
+// Sits over the map while the search matches more than one parcel.
+export function SearchMatchSummary({ count, onZoomToAll }: SearchMatchSummaryProps) {
+  if (count < 2) return null
+
+  return (
+    <div className="absolute left-3 top-3 flex items-center gap-2 pl-3 pr-1.5 py-1.5 rounded-lg bg-surface border border-border shadow-sm text-[0.8rem]">
+      <span className="w-2.5 h-2.5 rounded-full bg-[#f77f00]" aria-hidden="true" />
+      <span className="font-medium text-foreground">
+        {count.toLocaleString()} search matches
+      </span>
+      <button
+        type="button"
+        className="text-[0.74rem] font-medium text-accent px-1.5 py-0.5 rounded cursor-pointer hover:bg-accent/10 transition-colors"
+        onClick={onZoomToAll}
+      >
+        Zoom to all
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  ANALYSIS_PRESETS,
+  matchAnalysisPreset,
+  type AnalysisConfig,
+  type AnalysisConfigKey,
+  type AnalysisPresetName,
+} from '../lib/geo/analysisConfig'
+import { downloadTextFile } from '../lib/browser/download'
+import {
+  loadAnalysisConfig,
+  parseAnalysisConfigExport,
+  saveAnalysisConfig,
+  toAnalysisConfigExport,
+} from '../lib/storage/analysisConfig'
+
+export function useAnalysisConfig() {
+  const [config, setConfig] = useState<AnalysisConfig>(() => loadAnalysisConfig())
+  const presetName = matchAnalysisPreset(config)
+
+  useEffect(() => {
+    saveAnalysisConfig(config)
+  }, [config])
+
+  const applyPreset = useCallback((name: AnalysisPresetName) => {
+    setConfig(ANALYSIS_PRESETS[name])
+  }, [])
+
+  const updateField = useCallback((key: AnalysisConfigKey, value: number) => {
+    if (!Number.isFinite(value) || value < 0) return
+    setConfig((current) => (current[key] === value ? current : { ...current, [key]: value }))
+  }, [])
+
+  const exportConfig = useCallback(() => {
+    const payload = toAnalysisConfigExport(config)
+    downloadTextFile(
+      `unlockland-analysis-config-${presetName ?? 'custom'}.json`,
+      `${JSON.stringify(payload, null, 2)}\n`,
+      'application/json',
+    )
+  }, [config, presetName])
+
+  const importConfig = useCallback(async (file: File) => {
+    // Throws on malformed JSON so the caller can surface the error.
+    const next = parseAnalysisConfigExport(await file.text())
+    setConfig(next)
+  }, [])
+
+  return { config, presetName, applyPreset, updateField, exportConfig, importConfig }
+}
@@ -0,0 +1,41 @@
+import { useCallback, useState } from 'react'
+import { sanitizeAnalysisSummaries, summarizeAnalysis } from '../lib/data/analysisSummaries'
+import { fetchJson, type FileProgress } from '../lib/data/fetchJson'
+import type { ParcelAnalysis, ParcelAnalysisSummary, ParcelOverride } from '../types/parcel'
+import { useFileLoad } from './useFileLoad'
+
+async function loadPrecomputed(onProgress: (progress: FileProgress) => void) {
+  // Only there after `npm run data:classify`; filters then cover just the parcels opened so far.
+  const json = await fetchJson('/data/classification/parcel-summaries.json', {
+    onProgress,
+    optional: true,
+  })
+  return sanitizeAnalysisSummaries(json)
+}
+
+// Analysis results for search filters: the batch classification, with parcels analyzed this
+// session on top and manual lot-type corrections over both.
+export function useAnalysisSummaries(overrides: Map<string, ParcelOverride>) {
+  const { file, result: precomputed, retry } = useFileLoad(loadPrecomputed)
+  const [analyzed, setAnalyzed] = useState<Map<string, ParcelAnalysisSummary>>(() => new Map())
+
+  const remember = useCallback((entries: Array<{ id: string; analysis: ParcelAnalysis }>) => {
+    if (entries.length === 0) return
+    setAnalyzed((current) => {
+      const next = new Map(current)
+      for (const { id, analysis } of entries) next.set(id, summarizeAnalysis(analysis))
+      return next
+    })
+  }, [])
+
+  const summaryFor = useCallback(
+    (parcelId: string): ParcelAnalysisSummary | undefined => {
+      const summary = analyzed.get(parcelId) ?? precomputed?.get(parcelId)
+      const lotType = overrides.get(parcelId)?.lotType
+      return summary && lotType ? { ...summary, lotType } : summary
+    },
+    [analyzed, precomputed, overrides],
+  )
+
+  return { summaryFor, remember, summariesFile: file, retrySummaries: retry }
+}
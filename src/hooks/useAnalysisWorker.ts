@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useRef } from 'react'
+import type { FileProgress } from '../lib/data/fetchJson'
+import { createAnalysisWorker, type AnalysisClient } from '../lib/worker/analysisClient'
+import { useFileLoad } from './useFileLoad'
+
+function stoppedWorker(): Promise<never> {
+  return Promise.reject(new Error('The analysis worker was stopped.'))
+}
+
+// Geometry work runs in a worker that loads the parcel tiles and road file itself, so the main
+// thread only ever receives the parcels it is about to draw or analyze.
+export function useAnalysisWorker() {
+  const clientRef = useRef<AnalysisClient | null>(null)
+
+  // Declared before the loads so the worker exists by the time their effects run.
+  useEffect(() => {
+    const client = createAnalysisWorker()
+    clientRef.current = client
+    return () => {
+      client.dispose()
+      clientRef.current = null
+    }
+  }, [])
+
+  // The parcel load resolves to the client, so the worker is only handed out once it has data.
+  const loadParcels = useCallback(async (onProgress: (progress: FileProgress) => void) => {
+    const client = clientRef.current
+    if (!client) return stoppedWorker()
+    await client.request('load', { tilesUrl: '/data/parcel-tiles' }, { onProgress })
+    return client
+  }, [])
+  const loadRoads = useCallback((onProgress: (progress: FileProgress) => void) => {
+    const client = clientRef.current
+    if (!client) return stoppedWorker()
+    return client.request('load-roads', { roadsUrl: '/data/roads.geojson' }, { onProgress })
+  }, [])
+
+  const parcels = useFileLoad(loadParcels)
+  const roads = useFileLoad(loadRoads)
+
+  return {
+    // Null until the worker has loaded the parcel tile manifest.
+    worker: parcels.result,
+    hasLocalRoads: roads.result?.hasLocalRoads ?? false,
+    parcelFile: parcels.file,
+    roadsFile: roads.file,
+    retryParcels: parcels.retry,
+    retryRoads: roads.retry,
+  }
+}
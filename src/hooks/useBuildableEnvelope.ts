@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react'
+import type { SetbackConfig } from '../lib/geo/setbacks'
+import type { AnalysisClient } from '../lib/worker/analysisClient'
+import type { BuildableEnvelope, ParcelAnalysis, ParcelFeature } from '../types/parcel'
+
+export function useBuildableEnvelope(
+  worker: AnalysisClient | null,
+  site: ParcelFeature | null,
+  analysis: ParcelAnalysis | null,
+  setbacks: SetbackConfig,
+) {
+  const [state, setState] = useState<{
+    analysis: ParcelAnalysis
+    setbacks: SetbackConfig
+    envelope: BuildableEnvelope | null
+  } | null>(null)
+
+  useEffect(() => {
+    if (!worker || !site || !analysis) return undefined
+    let cancelled = false
+    worker.request('buildable-envelope', { site, analysis, setbacks }).then(
+      (envelope) => {
+        if (!cancelled) setState({ analysis, setbacks, envelope })
+      },
+      () => {
+        if (!cancelled) setState({ analysis, setbacks, envelope: null })
+      },
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [worker, site, analysis, setbacks])
+
+  // An envelope computed for an earlier analysis or setback set is never shown.
+  return state && state.analysis === analysis && state.setbacks === setbacks ? state.envelope : null
+}
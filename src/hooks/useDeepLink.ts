@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from 'react'
+import type { Map as MapboxMap } from 'mapbox-gl'
+import { formatDeepLink, parseDeepLink, type DeepLink, type LinkTheme, type MapView } from '../lib/browser/deepLink'
+
+export function readDeepLink(): DeepLink {
+  return parseDeepLink(window.location.search)
+}
+
+function writeUrl(link: DeepLink, mode: 'push' | 'replace'): void {
+  const { pathname, hash } = window.location
+  const url = `${pathname}${formatDeepLink(link)}${hash}`
+  if (mode === 'push') window.history.pushState(null, '', url)
+  else window.history.replaceState(null, '', url)
+}
+
+function readView(map: MapboxMap): MapView {
+  const { lng, lat } = map.getCenter()
+  return { lon: lng, lat, zoom: map.getZoom() }
+}
+
+export interface DeepLinkState {
+  parcelId: string | null
+  debug: boolean
+  theme: LinkTheme
+}
+
+// Keeps the URL in step with the app. A new selection is a new history entry, so back and
+// forward step through selections; panning, zooming and mode toggles rewrite the current one.
+// `onNavigate` applies a link (the one the page opened with, once `ready`, then any the user goes
+// back or forward to) and returns false when its parcel could not be found.
+export function useDeepLink(
+  map: MapboxMap | null,
+  { parcelId, debug, theme }: DeepLinkState,
+  initialLink: DeepLink,
+  ready: boolean,
+  onNavigate: (link: DeepLink) => boolean,
+) {
+  const [view, setView] = useState<MapView | null>(initialLink.view)
+  // A link waiting for the parcel data (still loading, or failed and waiting for a retry). The URL
+  // is left alone until it has been applied, or until the user selects a parcel themselves.
+  const pendingRef = useRef<DeepLink | null>(initialLink.parcelId ? initialLink : null)
+  // What the current history entry holds, to tell a new selection from an edit of the same one.
+  const lastWrittenRef = useRef<DeepLink | null>(null)
+  const onNavigateRef = useRef(onNavigate)
+
+  useEffect(() => { onNavigateRef.current = onNavigate }, [onNavigate])
+
+  useEffect(() => {
+    if (!map) return undefined
+    const handleMoveEnd = () => setView(readView(map))
+    map.on('moveend', handleMoveEnd)
+    return () => {
+      map.off('moveend', handleMoveEnd)
+    }
+  }, [map])
+
+  // Declared before the restore below so that, in the commit that applies a link, this still sees
+  // the state from before it.
+  useEffect(() => {
+    const pending = pendingRef.current
+    if (pending) {
+      if (parcelId === null) return
+      // The user chose a parcel while the link waited; theirs wins and becomes a new entry.
+      pendingRef.current = null
+      lastWrittenRef.current = pending
+    }
+    const link: DeepLink = { parcelId, view, debug, theme }
+    const last = lastWrittenRef.current
+    lastWrittenRef.current = link
+    // Opening the app writes nothing until something changes.
+    if (!last) return
+    if (formatDeepLink(link) === window.location.search) return
+    writeUrl(link, link.parcelId !== last.parcelId ? 'push' : 'replace')
+  }, [parcelId, view, debug, theme])
+
+  useEffect(() => {
+    const apply = (link: DeepLink) => {
+      const found = onNavigateRef.current(link)
+      const applied = found ? link : { ...link, parcelId: null }
+      lastWrittenRef.current = applied
+      // A parcel that no longer exists is dropped so the entry does not keep pointing at it.
+      if (!found) writeUrl(applied, 'replace')
+    }
+
+    const pending = pendingRef.current
+    if (pending && ready) {
+      pendingRef.current = null
+      apply(pending)
+    }
+
+    const handlePopState = () => {
+      const link = readDeepLink()
+      if (!ready && link.parcelId) {
+        pendingRef.current = link
+        return
+      }
+      pendingRef.current = null
+      apply(link)
+    }
+    window.addEventListener('popstate', handlePopState)
+    return () => {
+      window.removeEventListener('popstate', handlePopState)
+    }
+  }, [ready])
+}
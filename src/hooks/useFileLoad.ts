@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react'
+import { LOADING_FILE, type FileLoadState, type FileProgress } from '../lib/data/fetchJson'
+
+export type FileLoader<T> = (onProgress: (progress: FileProgress) => void) => Promise<T>
+
+interface Loaded<T> {
+  file: FileLoadState
+  result: T | null
+}
+
+// Tracks one file's download so each can show its own progress and be retried on its own.
+// `load` should be stable; a new function starts a new download.
+export function useFileLoad<T>(load: FileLoader<T>) {
+  const [attempt, setAttempt] = useState(0)
+  // Tagged with the download it belongs to, so a retry starts from a clean state.
+  const [state, setState] = useState<(Loaded<T> & { load: FileLoader<T>; attempt: number }) | null>(
+    null,
+  )
+
+  useEffect(() => {
+    let cancelled = false
+    const update = (next: (current: Loaded<T>) => Loaded<T>) => {
+      if (cancelled) return
+      setState((current) => {
+        const base =
+          current?.load === load && current.attempt === attempt
+            ? current
+            : { file: LOADING_FILE, result: null }
+        return { ...next(base), load, attempt }
+      })
+    }
+
+    load((progress) => {
+      update((current) => ({ ...current, file: { ...current.file, progress } }))
+    }).then(
+      (result) => {
+        update((current) => ({ file: { ...current.file, status: 'ready' }, result }))
+      },
+      (error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error)
+        update((current) => ({
+          file: { ...current.file, status: 'error', error: message },
+          result: null,
+        }))
+      },
+    )
+
+    return () => {
+      cancelled = true
+    }
+  }, [load, attempt])
+
+  const retry = useCallback(() => {
+    setAttempt((count) => count + 1)
+  }, [])
+
+  const current = state?.load === load && state.attempt === attempt ? state : null
+  return { file: current?.file ?? LOADING_FILE, result: current?.result ?? null, retry }
+}
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react'
+import type { AnalysisConfig } from '../lib/geo/analysisConfig'
+import type { IntersectionQuery } from '../lib/search/intersectionQuery'
+import type { AnalysisClient } from '../lib/worker/analysisClient'
+import type { IntersectionMatch } from '../lib/worker/analysisProtocol'
+
+export type IntersectionSearch =
+  | { status: 'searching' }
+  // The worker has no road file to look in.
+  | { status: 'unavailable' }
+  | { status: 'failed' }
+  // A partial street name that reaches too many streets to search.
+  | { status: 'too-broad'; name: string }
+  | { status: 'done'; matches: IntersectionMatch[] }
+
+// `query` should be memoized; a new object starts a new search. Pass a null worker until the
+// road file has loaded, or a search made meanwhile reports it missing.
+export function useIntersectionSearch(
+  worker: AnalysisClient | null,
+  query: IntersectionQuery | null,
+  config: AnalysisConfig,
+): IntersectionSearch | null {
+  const [state, setState] = useState<{
+    query: IntersectionQuery
+    config: AnalysisConfig
+    search: IntersectionSearch
+  } | null>(null)
+
+  useEffect(() => {
+    if (!worker || !query) return undefined
+    let cancelled = false
+    worker.request('find-intersection', { ...query, config }).then(
+      (result) => {
+        if (cancelled) return
+        const search: IntersectionSearch = !result
+          ? { status: 'unavailable' }
+          : result.status === 'found'
+            ? { status: 'done', matches: result.matches }
+            : result
+        setState({ query, config, search })
+      },
+      () => {
+        if (!cancelled) setState({ query, config, search: { status: 'failed' } })
+      },
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [worker, query, config])
+
+  if (!query) return null
+  // Matches found for an earlier query or configuration are never shown.
+  if (!worker || state?.query !== query || state.config !== config) return { status: 'searching' }
+  return state.search
+}
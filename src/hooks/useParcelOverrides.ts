@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { EdgeType, LotType, ParcelOverride, ParcelRef } from '../types/parcel'
+import { downloadTextFile } from '../lib/browser/download'
+import type { AnalysisConfig } from '../lib/geo/analysisConfig'
+import { isEmptyOverride, withEdgeTypeOverride, withLotTypeOverride } from '../lib/geo/overrides'
+import type { AnalysisClient } from '../lib/worker/analysisClient'
+import {
+  deleteParcelOverride,
+  loadParcelOverrides,
+  saveParcelOverride,
+} from '../lib/storage/parcelOverrides'
+
+export function useParcelOverrides() {
+  const [overrides, setOverrides] = useState<Map<string, ParcelOverride>>(() => new Map())
+  const [storageError, setStorageError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    void loadParcelOverrides().then((loaded) => {
+      if (cancelled) return
+      setOverrides((current) => {
+        // Corrections made before the load finished win over stored ones.
+        const next = new Map(loaded.map((override) => [override.parcelId, override]))
+        for (const [parcelId, override] of current) next.set(parcelId, override)
+        return next
+      })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const commit = useCallback((parcelId: string, override: ParcelOverride) => {
+    const isEmpty = isEmptyOverride(override)
+    setOverrides((current) => {
+      const next = new Map(current)
+      if (isEmpty) {
+        next.delete(parcelId)
+      } else {
+        next.set(parcelId, override)
+      }
+      return next
+    })
+    const write = isEmpty ? deleteParcelOverride(parcelId) : saveParcelOverride(override)
+    write.then(
+      () => setStorageError(null),
+      () => setStorageError('Corrections could not be saved in this browser.'),
+    )
+  }, [])
+
+  const setEdgeType = useCallback(
+    (parcelId: string, edgeIndex: number, type: EdgeType | null) => {
+      commit(parcelId, withEdgeTypeOverride(overrides.get(parcelId) ?? null, parcelId, edgeIndex, type))
+    },
+    [overrides, commit],
+  )
+
+  const setLotType = useCallback(
+    (parcelId: string, lotType: LotType | null) => {
+      commit(parcelId, withLotTypeOverride(overrides.get(parcelId) ?? null, parcelId, lotType))
+    },
+    [overrides, commit],
+  )
+
+  const clearOverride = useCallback(
+    (parcelId: string) => {
+      commit(parcelId, { parcelId, lotType: null, edges: [], updatedAt: new Date().toISOString() })
+    },
+    [commit],
+  )
+
+  const exportLabels = useCallback(
+    async (
+      worker: AnalysisClient,
+      config: AnalysisConfig,
+      locate: (parcelId: string) => ParcelRef | null,
+    ) => {
+      // The worker re-analyzes each corrected parcel against its local centrelines.
+      const locations = [...overrides.keys()]
+        .map(locate)
+        .filter((ref): ref is ParcelRef => ref !== null)
+      const dataset = await worker.request('labelled-dataset', {
+        overrides: [...overrides.values()],
+        locations,
+        config,
+      })
+      downloadTextFile(
+        `unlockland-labels-${dataset.exportedAt.slice(0, 10)}.json`,
+        `${JSON.stringify(dataset, null, 2)}\n`,
+        'application/json',
+      )
+    },
+    [overrides],
+  )
+
+  return { overrides, storageError, setEdgeType, setLotType, clearOverride, exportLabels }
+}
@@ -1,59 +1,218 @@
-import { useCallback, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import type { Map as MapboxMap } from 'mapbox-gl'
-import { analyzeParcel } from '../lib/geo/parcelAnalysis'
-import type { ParcelAnalysis, ParcelFeature } from '../types/parcel'
-
-export function useParcelSelection(parcels: ParcelFeature[], map: MapboxMap | null) {
-  const [selectedParcelId, setSelectedParcelId] = useState<string | null>(null)
-  // Optional override used after map fly-to when rendered vectors are stable.
-  const [analysisOverride, setAnalysisOverride] = useState<{
-    parcelId: string
-    analysis: ParcelAnalysis
+import { DEFAULT_ANALYSIS_CONFIG, type AnalysisConfig } from '../lib/geo/analysisConfig'
+import type { SiteAssembly } from '../lib/geo/assembly'
+import { applyParcelOverride } from '../lib/geo/overrides'
+import { parcelBounds, type Bounds } from '../lib/geo/parcelGeometry'
+import { queryRenderedRoadCandidates } from '../lib/geo/roadNetwork'
+import type { AnalysisClient } from '../lib/worker/analysisClient'
+import type { SiteAnalysisResult } from '../lib/worker/analysisProtocol'
+import type { ParcelAnalysis, ParcelFeature, ParcelOverride, ParcelRef } from '../types/parcel'
+
+const NO_OVERRIDES = new Map<string, ParcelOverride>()
+const NO_PARCELS: ParcelFeature[] = []
+const IGNORE_ANALYZED = () => {}
+
+// Each parcel analyzed as part of a site, with its classified (uncorrected) result.
+function analyzedParcels(parcels: ParcelFeature[], result: SiteAnalysisResult) {
+  if (parcels.length === 1 && parcels[0]) {
+    return [{ id: parcels[0].properties.id, analysis: result.analysis }]
+  }
+  return parcels.flatMap((parcel, index) => {
+    const analysis = result.breakdown[index]
+    return analysis ? [{ id: parcel.properties.id, analysis }] : []
+  })
+}
+
+function mergedBounds(parcels: ParcelFeature[]): Bounds | null {
+  let merged: Bounds | null = null
+  for (const parcel of parcels) {
+    const bounds = parcelBounds(parcel.geometry)
+    if (!bounds) continue
+    merged = merged
+      ? [
+          Math.min(merged[0], bounds[0]),
+          Math.min(merged[1], bounds[1]),
+          Math.max(merged[2], bounds[2]),
+          Math.max(merged[3], bounds[3]),
+        ]
+      : bounds
+  }
+  return merged
+}
+
+export function useParcelSelection(
+  map: MapboxMap | null,
+  worker: AnalysisClient | null,
+  hasLocalRoads: boolean,
+  config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG,
+  overrides: Map<string, ParcelOverride> = NO_OVERRIDES,
+  // Should be stable; a new function re-runs the analysis.
+  onAnalyzed: (parcels: Array<{ id: string; analysis: ParcelAnalysis }>) => void = IGNORE_ANALYZED,
+) {
+  const [selectedRef, setSelectedRef] = useState<ParcelRef | null>(null)
+  // Parcels combined into one site; empty unless two or more are shift-selected.
+  const [assemblyRefs, setAssemblyRefs] = useState<ParcelRef[]>([])
+  // Bumped after map fly-to so rendered road vectors are re-read once they are stable.
+  const [refreshCount, setRefreshCount] = useState(0)
+  // Full geometry of the selected parcels, loaded from their tiles on demand.
+  const [loadedMembers, setLoadedMembers] = useState<{
+    key: string
+    parcels: ParcelFeature[]
+  } | null>(null)
+  // Latest worker answer, tagged with what it was computed for so stale answers are never shown.
+  const [siteResult, setSiteResult] = useState<{
+    key: string
+    config: AnalysisConfig
+    result: SiteAnalysisResult | null
   } | null>(null)
 
-  const parcelsById = useMemo(() => {
-    const byId = new Map<string, ParcelFeature>()
-    for (const parcel of parcels) {
-      byId.set(parcel.properties.id, parcel)
+  const selectedParcelId = selectedRef?.id ?? null
+  const targetRefs = useMemo(
+    () => (assemblyRefs.length > 1 ? assemblyRefs : selectedRef ? [selectedRef] : []),
+    [assemblyRefs, selectedRef],
+  )
+  const targetKey = targetRefs.map((ref) => ref.id).join('+')
+  const assemblyIds = useMemo(() => assemblyRefs.map((ref) => ref.id), [assemblyRefs])
+
+  useEffect(() => {
+    if (!worker || targetRefs.length === 0) return undefined
+    let cancelled = false
+    worker.request('get-parcels', targetRefs).then(
+      (parcels) => {
+        if (!cancelled) setLoadedMembers({ key: targetKey, parcels })
+      },
+      () => {
+        if (!cancelled) setLoadedMembers({ key: targetKey, parcels: [] })
+      },
+    )
+    return () => {
+      cancelled = true
     }
-    return byId
-  }, [parcels])
+  }, [worker, targetRefs, targetKey])
 
+  const members = useMemo(
+    () => (loadedMembers?.key === targetKey ? loadedMembers.parcels : NO_PARCELS),
+    [loadedMembers, targetKey],
+  )
   const selectedParcel = useMemo(
-    () => (selectedParcelId ? (parcelsById.get(selectedParcelId) ?? null) : null),
-    [parcelsById, selectedParcelId],
+    () => members.find((parcel) => parcel.properties.id === selectedParcelId) ?? null,
+    [members, selectedParcelId],
   )
 
-  const computedAnalysis = useMemo(() => {
-    if (!selectedParcel) return null
-    return analyzeParcel(selectedParcel, map ?? undefined)
-  }, [selectedParcel, map])
+  useEffect(() => {
+    if (!worker || members.length === 0) return undefined
+    let cancelled = false
 
-  const analysis = useMemo(() => {
-    if (!selectedParcelId) return null
-    // Prefer explicit post-fit analysis for the currently selected parcel.
-    if (analysisOverride?.parcelId === selectedParcelId) {
-      return analysisOverride.analysis
+    // Local centrelines live in the worker; without them, send the rendered roads around the site.
+    const bounds = mergedBounds(members)
+    const roadCandidates =
+      !hasLocalRoads && map && bounds ? queryRenderedRoadCandidates(map, bounds) : null
+
+    worker.request('analyze-site', { parcels: members, config, roadCandidates }).then(
+      (result) => {
+        if (cancelled) return
+        setSiteResult({ key: targetKey, config, result })
+        if (result) onAnalyzed(analyzedParcels(members, result))
+      },
+      () => {
+        if (!cancelled) setSiteResult({ key: targetKey, config, result: null })
+      },
+    )
+
+    return () => {
+      cancelled = true
     }
-    return computedAnalysis
-  }, [selectedParcelId, analysisOverride, computedAnalysis])
+  }, [worker, members, targetKey, config, hasLocalRoads, map, refreshCount, onAnalyzed])
+
+  const isCurrent = siteResult?.key === targetKey && siteResult.config === config
+  const current = isCurrent ? siteResult.result : null
+  const isAnalyzing = targetRefs.length > 0 && !isCurrent
+
+  const assembly = useMemo<SiteAssembly | null>(() => {
+    if (!current || members.length < 2) return null
+    return { site: current.site, parcels: members, partCount: current.partCount }
+  }, [current, members])
+
+  // The parcel or assembled site that the analysis runs on.
+  const site = assembly?.site ?? selectedParcel
+
+  const classifiedAnalysis = current?.analysis ?? null
+
+  // Manual corrections sit on top of whichever analysis is current; they are per parcel, so an
+  // assembled site is shown as classified.
+  const analysis = useMemo(() => {
+    if (!classifiedAnalysis || !selectedParcelId || assembly) return classifiedAnalysis
+    return applyParcelOverride(classifiedAnalysis, overrides.get(selectedParcelId))
+  }, [classifiedAnalysis, selectedParcelId, assembly, overrides])
+
+  const assemblyBreakdown = useMemo(() => {
+    if (!assembly || !current) return []
+    return assembly.parcels.flatMap((parcel, index) => {
+      const parcelAnalysis = current.breakdown[index]
+      if (!parcelAnalysis) return []
+      return [
+        {
+          parcel,
+          analysis: applyParcelOverride(parcelAnalysis, overrides.get(parcel.properties.id)),
+        },
+      ]
+    })
+  }, [assembly, current, overrides])
+
+  const select = useCallback((ref: ParcelRef) => {
+    setAssemblyRefs([])
+    setSelectedRef(ref)
+  }, [])
+
+  // Shift-click: the current selection seeds the assembly, and clicking a member again removes it.
+  const toggleAssembly = useCallback(
+    (ref: ParcelRef) => {
+      const base = assemblyRefs.length > 0 ? assemblyRefs : selectedRef ? [selectedRef] : []
+      const next = base.some((member) => member.id === ref.id)
+        ? base.filter((member) => member.id !== ref.id)
+        : [...base, ref]
+      // Dropping the selected parcel hands the selection to the first remaining member.
+      const nextSelected =
+        next.find((member) => member.id === selectedRef?.id) ?? next[0] ?? null
+      if (nextSelected?.id !== selectedRef?.id) setSelectedRef(nextSelected)
+      setAssemblyRefs(next.length > 1 ? next : [])
+    },
+    [assemblyRefs, selectedRef],
+  )
+
+  const clearAssembly = useCallback(() => {
+    setAssemblyRefs([])
+  }, [])
 
-  const select = useCallback((parcelId: string) => {
-    setAnalysisOverride(null)
-    setSelectedParcelId(parcelId)
+  const clearSelection = useCallback(() => {
+    setAssemblyRefs([])
+    setSelectedRef(null)
   }, [])
 
   const refreshAnalysis = useCallback(
-    (parcelId: string, currentMap: MapboxMap) => {
-      const parcel = parcelsById.get(parcelId)
-      if (!parcel) return
-      setAnalysisOverride({
-        parcelId,
-        analysis: analyzeParcel(parcel, currentMap),
-      })
+    (parcelId: string) => {
+      // Local road results do not depend on the viewport, so there is nothing to refresh.
+      if (hasLocalRoads || parcelId !== selectedParcelId) return
+      setRefreshCount((count) => count + 1)
     },
-    [parcelsById],
+    [hasLocalRoads, selectedParcelId],
   )
 
-  return { selectedParcelId, selectedParcel, analysis, select, parcelsById, refreshAnalysis }
+  return {
+    selectedParcelId,
+    selectedParcel,
+    site,
+    assembly,
+    assemblyIds,
+    assemblyBreakdown,
+    analysis,
+    classifiedAnalysis,
+    isAnalyzing,
+    select,
+    toggleAssembly,
+    clearAssembly,
+    clearSelection,
+    refreshAnalysis,
+  }
 }
@@ -1,11 +1,10 @@
-import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import type { Map as MapboxMap } from 'mapbox-gl'
-import {
-  buildParcelViewportIndex,
-  queryParcelsInBounds,
-} from '../lib/geo/parcelViewportIndex'
+import type { AnalysisClient } from '../lib/worker/analysisClient'
 import type { ParcelFeature } from '../types/parcel'
 
+const NO_PARCELS: ParcelFeature[] = []
+
 function maxParcelsForZoom(zoom: number): number {
   if (zoom < 11) return 2800
   if (zoom < 12) return 5000
@@ -14,45 +13,41 @@ function maxParcelsForZoom(zoom: number): number {
   return 22000
 }
 
-function sameParcelIdOrder(a: ParcelFeature[], b: ParcelFeature[]): boolean {
-  if (a.length !== b.length) return false
-  for (let i = 0; i < a.length; i += 1) {
-    if (a[i]?.properties.id !== b[i]?.properties.id) return false
-  }
-  return true
-}
-
-export function useRenderedParcels(parcels: ParcelFeature[], map: MapboxMap | null) {
-  const [renderedParcels, setRenderedParcels] = useState<ParcelFeature[]>([])
-  const viewportIndex = useMemo(() => buildParcelViewportIndex(parcels), [parcels])
+// Parcels come from whole tiles, so a pan only changes the map source when it crosses into
+// different tiles; the work per move depends on the viewport, not the size of the city.
+export function useRenderedParcels(map: MapboxMap | null, worker: AnalysisClient | null) {
+  const [rendered, setRendered] = useState<{ tileKey: string; parcels: ParcelFeature[] } | null>(
+    null,
+  )
+  // Only the latest viewport query may update the map; earlier answers are stale after a pan.
+  const latestQueryRef = useRef(0)
 
   const update = useCallback(() => {
-    if (parcels.length === 0) {
-      setRenderedParcels([])
-      return
-    }
-
-    if (!map) {
-      setRenderedParcels((current) => {
-        const fallback = parcels.slice(0, 4500)
-        return sameParcelIdOrder(current, fallback) ? current : fallback
-      })
-      return
-    }
+    latestQueryRef.current += 1
+    if (!map || !worker) return
 
     const bounds = map.getBounds()
     if (!bounds) return
 
     const center = map.getCenter()
-    // Query with padded bounds and a zoom-based cap to keep source updates lightweight.
-    const next = queryParcelsInBounds(viewportIndex, bounds, {
-      paddingRatio: 0.24,
-      maxFeatures: maxParcelsForZoom(map.getZoom()),
-      center: [center.lng, center.lat],
-    })
-
-    setRenderedParcels((current) => (sameParcelIdOrder(current, next) ? current : next))
-  }, [map, parcels, viewportIndex])
+    const queryId = latestQueryRef.current
+    worker
+      .request('query-viewport', {
+        bounds: [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()],
+        paddingRatio: 0.24,
+        maxFeatures: maxParcelsForZoom(map.getZoom()),
+        center: [center.lng, center.lat],
+      })
+      .then(
+        (next) => {
+          if (queryId !== latestQueryRef.current) return
+          setRendered((current) => (current?.tileKey === next.tileKey ? current : next))
+        },
+        () => {
+          // Keep the current parcels; the next move retries.
+        },
+      )
+  }, [map, worker])
 
   useEffect(() => {
     const frame = window.requestAnimationFrame(() => {
@@ -71,5 +66,5 @@ export function useRenderedParcels(parcels: ParcelFeature[], map: MapboxMap | nu
     }
   }, [map, update])
 
-  return renderedParcels
+  return rendered?.parcels ?? NO_PARCELS
 }
@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { downloadTextFile } from '../lib/browser/download'
+import {
+  mergeSavedParcels,
+  parseSavedParcelsImport,
+  parseTags,
+  toSavedParcelsCsv,
+  toSavedParcelsExport,
+} from '../lib/data/savedParcels'
+import { deleteSavedParcel, loadSavedParcels, putSavedParcels } from '../lib/storage/savedParcels'
+import type { LotType, ParcelRef, SavedParcel } from '../types/parcel'
+
+export interface SaveParcelInput extends ParcelRef {
+  address: string
+  lotType: LotType | null
+  areaM2: number | null
+}
+
+function exportFileName(extension: string): string {
+  return `unlockland-saved-parcels-${new Date().toISOString().slice(0, 10)}.${extension}`
+}
+
+export function useSavedParcels() {
+  const [savedParcels, setSavedParcels] = useState<Map<string, SavedParcel>>(() => new Map())
+  const [storageError, setStorageError] = useState<string | null>(null)
+  // The latest collection, written together with the state so that handlers running before the
+  // next render (two quick edits, an import that awaited the file) build on each other.
+  const latestRef = useRef(savedParcels)
+
+  const commit = useCallback((next: Map<string, SavedParcel>) => {
+    latestRef.current = next
+    setSavedParcels(next)
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    void loadSavedParcels().then((loaded) => {
+      if (cancelled) return
+      // Anything saved before the load finished is newer than the stored copy.
+      commit(
+        mergeSavedParcels(
+          new Map(loaded.map((parcel) => [parcel.id, parcel])),
+          [...latestRef.current.values()],
+        ),
+      )
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [commit])
+
+  const persist = useCallback((write: Promise<void>) => {
+    write.then(
+      () => setStorageError(null),
+      () => setStorageError('Saved parcels could not be stored in this browser.'),
+    )
+  }, [])
+
+  const save = useCallback(
+    ({ id, lon, lat, address, lotType, areaM2 }: SaveParcelInput) => {
+      const now = new Date().toISOString()
+      const parcel: SavedParcel = {
+        id,
+        address,
+        lon,
+        lat,
+        notes: '',
+        tags: [],
+        lotType,
+        areaM2,
+        savedAt: now,
+        updatedAt: now,
+      }
+      commit(new Map(latestRef.current).set(id, parcel))
+      persist(putSavedParcels([parcel]))
+    },
+    [commit, persist],
+  )
+
+  const update = useCallback(
+    (parcelId: string, changes: { notes?: string; tags?: string }) => {
+      const current = latestRef.current.get(parcelId)
+      if (!current) return
+      const parcel: SavedParcel = {
+        ...current,
+        notes: changes.notes ?? current.notes,
+        tags: changes.tags === undefined ? current.tags : parseTags(changes.tags),
+        updatedAt: new Date().toISOString(),
+      }
+      commit(new Map(latestRef.current).set(parcelId, parcel))
+      persist(putSavedParcels([parcel]))
+    },
+    [commit, persist],
+  )
+
+  const remove = useCallback(
+    (parcelId: string) => {
+      const next = new Map(latestRef.current)
+      next.delete(parcelId)
+      commit(next)
+      persist(deleteSavedParcel(parcelId))
+    },
+    [commit, persist],
+  )
+
+  const exportJson = useCallback(() => {
+    downloadTextFile(
+      exportFileName('json'),
+      `${JSON.stringify(toSavedParcelsExport([...savedParcels.values()]), null, 2)}\n`,
+      'application/json',
+    )
+  }, [savedParcels])
+
+  const exportCsv = useCallback(() => {
+    downloadTextFile(exportFileName('csv'), toSavedParcelsCsv([...savedParcels.values()]), 'text/csv')
+  }, [savedParcels])
+
+  // Resolves to the number of parcels read; throws when the file is neither format.
+  const importFile = useCallback(
+    async (file: File) => {
+      const imported = parseSavedParcelsImport(await file.text())
+      // Merged into the collection as it is once the file has been read, which includes the stored
+      // entries if they finished loading meanwhile.
+      const merged = mergeSavedParcels(latestRef.current, imported)
+      commit(merged)
+      persist(putSavedParcels(imported.flatMap((parcel) => merged.get(parcel.id) ?? [])))
+      return imported.length
+    },
+    [commit, persist],
+  )
+
+  return { savedParcels, storageError, save, update, remove, exportJson, exportCsv, importFile }
+}
@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { EdgeType } from '../types/parcel'
+import { DEFAULT_SETBACKS, type SetbackConfig } from '../lib/geo/setbacks'
+import { loadSetbacks, saveSetbacks } from '../lib/storage/setbacks'
+
+export function useSetbacks() {
+  const [setbacks, setSetbacks] = useState<SetbackConfig>(() => loadSetbacks())
+
+  useEffect(() => {
+    saveSetbacks(setbacks)
+  }, [setbacks])
+
+  const updateSetback = useCallback((edgeType: EdgeType, value: number) => {
+    if (!Number.isFinite(value) || value < 0) return
+    setSetbacks((current) =>
+      current[edgeType] === value ? current : { ...current, [edgeType]: value },
+    )
+  }, [])
+
+  const resetSetbacks = useCallback(() => {
+    setSetbacks(DEFAULT_SETBACKS)
+  }, [])
+
+  return { setbacks, updateSetback, resetSetbacks }
+}
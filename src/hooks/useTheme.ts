@@ -1,6 +1,6 @@
 import { useCallback, useEffect, useState } from 'react'
 
-type Theme = 'light' | 'dark'
+export type Theme = 'light' | 'dark'
 
 function getInitialTheme(): Theme {
   const stored = localStorage.getItem('theme') as Theme | null
@@ -9,18 +9,26 @@ function getInitialTheme(): Theme {
   return 'light'
 }
 
-export function useTheme() {
-  const [theme, setTheme] = useState<Theme>(getInitialTheme)
+// `linked` is a theme from a shared link. It applies for this visit only and never replaces the
+// stored preference; toggling the theme drops it.
+export function useTheme(linked: Theme | null = null) {
+  const [storedTheme, setStoredTheme] = useState<Theme>(getInitialTheme)
+  const [linkedTheme, setLinkedTheme] = useState<Theme | null>(linked)
+  const theme = linkedTheme ?? storedTheme
 
   useEffect(() => {
     // Tailwind dark mode uses a .dark class on <html>
     document.documentElement.classList.toggle('dark', theme === 'dark')
-    localStorage.setItem('theme', theme)
   }, [theme])
 
+  useEffect(() => {
+    localStorage.setItem('theme', storedTheme)
+  }, [storedTheme])
+
   const toggle = useCallback(() => {
-    setTheme((current) => (current === 'dark' ? 'light' : 'dark'))
-  }, [])
+    setStoredTheme(theme === 'dark' ? 'light' : 'dark')
+    setLinkedTheme(null)
+  }, [theme])
 
-  return { theme, isDark: theme === 'dark', toggle }
+  return { theme, isDark: theme === 'dark', toggle, setLinkedTheme }
 }
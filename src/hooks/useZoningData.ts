@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react'
+import { sanitizeZoningFeature } from '../lib/data/sanitize'
+import type { ZoningFeature, ZoningFeatureCollection } from '../types/parcel'
+
+// Zoning polygons are only needed for the overlay, so they load the first time it is switched on.
+export function useZoningData(enabled: boolean) {
+  const [zoning, setZoning] = useState<ZoningFeatureCollection | null>(null)
+  const isLoaded = zoning !== null
+
+  useEffect(() => {
+    if (!enabled || isLoaded) return undefined
+    let mounted = true
+
+    const loadZoning = async () => {
+      try {
+        const response = await fetch('/data/zoning.geojson')
+        if (!response.ok) return
+
+        const json = (await response.json()) as ZoningFeatureCollection
+        if (!mounted) return
+
+        const features = (json.features ?? [])
+          .map(sanitizeZoningFeature)
+          .filter((f): f is ZoningFeature => f !== null)
+        setZoning({ type: 'FeatureCollection', features })
+      } catch {
+        // Missing or malformed zoning data only disables the overlay.
+      }
+    }
+
+    void loadZoning()
+
+    return () => {
+      mounted = false
+    }
+  }, [enabled, isLoaded])
+
+  return zoning
+}
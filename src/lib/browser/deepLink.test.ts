@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { formatDeepLink, parseDeepLink, type DeepLink } from './deepLink'
+
+describe('deep links', () => {
+  it('round-trips a full link', () => {
+    const link: DeepLink = {
+      parcelId: '016-042-731',
+      view: { lon: -123.1207, lat: 49.2827, zoom: 16.5 },
+      debug: true,
+      theme: 'dark',
+    }
+    const search = formatDeepLink(link)
+    expect(search).toBe('?parcel=016-042-731&view=49.28270,-123.12070,16.50&debug=1&theme=dark')
+    expect(parseDeepLink(search)).toEqual(link)
+  })
+
+  it('leaves out what is unset', () => {
+    const empty: DeepLink = { parcelId: null, view: null, debug: false, theme: null }
+    expect(formatDeepLink(empty)).toBe('')
+    expect(parseDeepLink('')).toEqual(empty)
+  })
+
+  it('drops malformed values but keeps the rest', () => {
+    expect(parseDeepLink('?parcel=%20&view=49.28,-123.12&debug=yes&theme=blue')).toEqual({
+      parcelId: null,
+      view: null,
+      debug: false,
+      theme: null,
+    })
+    expect(parseDeepLink('?parcel=42&view=91,-123.1,15').view).toBeNull()
+    expect(parseDeepLink('?parcel=42&view=49.2,-123.1,30')).toMatchObject({ parcelId: '42', view: null })
+    expect(parseDeepLink('?view=49.2,,15').view).toBeNull()
+  })
+})
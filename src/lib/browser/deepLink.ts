@@ -0,0 +1,50 @@
+export type LinkTheme = 'light' | 'dark'
+
+export interface MapView {
+  lon: number
+  lat: number
+  zoom: number
+}
+
+// What a shared link carries: `?parcel=123&view=49.28270,-123.12070,16.5&debug=1&theme=dark`.
+export interface DeepLink {
+  parcelId: string | null
+  view: MapView | null
+  debug: boolean
+  // Null leaves the stored or system theme alone.
+  theme: LinkTheme | null
+}
+
+const MAX_ZOOM = 22
+
+function parseView(value: string | null): MapView | null {
+  const parts = value?.split(',').map((part) => (part.trim() ? Number(part) : Number.NaN))
+  if (parts?.length !== 3) return null
+  const [lat = Number.NaN, lon = Number.NaN, zoom = Number.NaN] = parts
+  if (![lat, lon, zoom].every(Number.isFinite)) return null
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180 || zoom < 0 || zoom > MAX_ZOOM) return null
+  return { lon, lat, zoom }
+}
+
+// Unknown or malformed values are dropped one by one, so a damaged link still restores what it can.
+export function parseDeepLink(search: string): DeepLink {
+  const params = new URLSearchParams(search)
+  const theme = params.get('theme')
+  return {
+    parcelId: params.get('parcel')?.trim() || null,
+    view: parseView(params.get('view')),
+    debug: params.get('debug') === '1',
+    theme: theme === 'light' || theme === 'dark' ? theme : null,
+  }
+}
+
+// The query string for a link, `?` included; empty when there is nothing to say.
+export function formatDeepLink({ parcelId, view, debug, theme }: DeepLink): string {
+  const params: string[] = []
+  if (parcelId) params.push(`parcel=${encodeURIComponent(parcelId)}`)
+  // Five decimals is about a metre, which is all a shared view needs.
+  if (view) params.push(`view=${view.lat.toFixed(5)},${view.lon.toFixed(5)},${view.zoom.toFixed(2)}`)
+  if (debug) params.push('debug=1')
+  if (theme) params.push(`theme=${theme}`)
+  return params.length > 0 ? `?${params.join('&')}` : ''
+}
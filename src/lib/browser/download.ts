@@ -0,0 +1,10 @@
+export function downloadTextFile(fileName: string, text: string, mimeType: string): void {
+  const blob = new Blob([text], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = fileName
+  anchor.click()
+  // Revoke on the next tick so the browser has started the download.
+  window.setTimeout(() => URL.revokeObjectURL(url), 0)
+}
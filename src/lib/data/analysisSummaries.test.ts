@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { sanitizeAnalysisSummaries } from './analysisSummaries'
+
+describe('sanitizeAnalysisSummaries', () => {
+  it('keeps well-formed entries and drops the rest', () => {
+    const summaries = sanitizeAnalysisSummaries({
+      version: 1,
+      generatedAt: '2026-10-19T08:00:00.000Z',
+      config: 'default preset',
+      parcels: {
+        '1001': { lotType: 'Corner Lot', confidence: 'low', areaM2: 612.4, frontageMeters: 15.2 },
+        '1002': { lotType: 'Corner', confidence: 'low', areaM2: 500 },
+        '1003': { lotType: 'Standard with Lane', confidence: 'high', areaM2: 'big' },
+      },
+    })
+    expect([...summaries]).toEqual([
+      [
+        '1001',
+        {
+          lotType: 'Corner Lot',
+          confidence: 'low',
+          areaM2: 612.4,
+          frontageMeters: 15.2,
+          depthMeters: null,
+        },
+      ],
+    ])
+  })
+
+  it('ignores files from another version', () => {
+    expect(sanitizeAnalysisSummaries({ version: 2, parcels: {} }).size).toBe(0)
+    expect(sanitizeAnalysisSummaries(null).size).toBe(0)
+  })
+})
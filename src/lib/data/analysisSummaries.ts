@@ -0,0 +1,70 @@
+import { LOT_TYPES } from '../geo/overrides'
+import type {
+  ConfidenceLevel,
+  LotType,
+  ParcelAnalysis,
+  ParcelAnalysisSummary,
+} from '../../types/parcel'
+
+// Written by `data:classify` next to its CSV, for filters on parcels nobody has opened yet.
+export interface AnalysisSummaryFile {
+  version: 1
+  generatedAt: string
+  // The preset or calibration file the batch ran with.
+  config: string
+  parcels: Record<string, ParcelAnalysisSummary>
+}
+
+const CONFIDENCE_LEVELS: ConfidenceLevel[] = ['high', 'medium', 'low']
+
+function roundTenth(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+export function summarizeAnalysis(analysis: ParcelAnalysis): ParcelAnalysisSummary {
+  const { frontageWidthMeters, averageDepthMeters } = analysis.dimensions
+  return {
+    lotType: analysis.lotType,
+    confidence: analysis.confidence,
+    areaM2: roundTenth(analysis.areaM2),
+    frontageMeters: frontageWidthMeters === null ? null : roundTenth(frontageWidthMeters),
+    depthMeters: averageDepthMeters === null ? null : roundTenth(averageDepthMeters),
+  }
+}
+
+function readMeters(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+function sanitizeSummary(raw: unknown): ParcelAnalysisSummary | null {
+  if (!raw || typeof raw !== 'object') return null
+  const entry = raw as Record<string, unknown>
+  const areaM2 = readMeters(entry.areaM2)
+  if (
+    !LOT_TYPES.includes(entry.lotType as LotType) ||
+    !CONFIDENCE_LEVELS.includes(entry.confidence as ConfidenceLevel) ||
+    areaM2 === null
+  ) {
+    return null
+  }
+  return {
+    lotType: entry.lotType as LotType,
+    confidence: entry.confidence as ConfidenceLevel,
+    areaM2,
+    frontageMeters: readMeters(entry.frontageMeters),
+    depthMeters: readMeters(entry.depthMeters),
+  }
+}
+
+export function sanitizeAnalysisSummaries(raw: unknown): Map<string, ParcelAnalysisSummary> {
+  const summaries = new Map<string, ParcelAnalysisSummary>()
+  if (!raw || typeof raw !== 'object') return summaries
+  const file = raw as { version?: unknown; parcels?: unknown }
+  if (file.version !== 1 || !file.parcels || typeof file.parcels !== 'object') return summaries
+
+  for (const [id, value] of Object.entries(file.parcels as Record<string, unknown>)) {
+    const summary = sanitizeSummary(value)
+    if (summary) summaries.set(id, summary)
+  }
+  return summaries
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest'
+import type { ParcelFeature } from '../../types/parcel'
+import {
+  conditionalHeaders,
+  diffParcels,
+  fetchIfModified,
+  sanitizeFetchState,
+  type SourceValidators,
+} from './datasetRefresh'
+import { fromParcelExportFeature } from './parcelExport'
+
+// Two trimmed parcel exports a release apart: one lot removed, one added (plus a new neighbour),
+// one re-surveyed, one readdressed, one re-serialized with sub-millimetre noise.
+const exportModules = import.meta.glob<{ features: unknown[] }>('./__fixtures__/refresh/*.json', {
+  eager: true,
+  import: 'default',
+})
+
+function exportPayload(name: string) {
+  const payload = exportModules[`./__fixtures__/refresh/${name}.json`]
+  if (!payload) throw new Error(`Missing fixture ${name}`)
+  return payload
+}
+
+function normalize(name: string): ParcelFeature[] {
+  return exportPayload(name)
+    .features.map(fromParcelExportFeature)
+    .filter((feature): feature is ParcelFeature => feature !== null)
+}
+
+const EXPORT_URL = 'https://example.test/parcels.geojson'
+
+// Answers like the open data portal: 304 when the client already has the current version.
+function createExportServer(name: string, etag: string, lastModified: string) {
+  const requests: Array<Record<string, string>> = []
+  const fetchImpl = (async (_url: string | URL | Request, init?: RequestInit) => {
+    const headers = (init?.headers ?? {}) as Record<string, string>
+    requests.push(headers)
+    if (headers['If-None-Match'] === etag) return new Response(null, { status: 304 })
+    return new Response(JSON.stringify(exportPayload(name)), {
+      status: 200,
+      headers: { ETag: etag, 'Last-Modified': lastModified, 'Content-Type': 'application/json' },
+    })
+  }) as typeof fetch
+  return { fetchImpl, requests }
+}
+
+describe('fromParcelExportFeature', () => {
+  it('normalizes export records and drops ones without a polygon', () => {
+    const parcels = normalize('parcel-export-before')
+    expect(parcels.map((parcel) => parcel.properties.id)).toEqual(['1001', '1002', '1003', '1004'])
+    expect(parcels[0]?.properties).toMatchObject({
+      siteId: '1001',
+      taxCoord: '01001',
+      fullAddress: '100 MAIN ST',
+      zoningCode: '',
+    })
+  })
+})
+
+describe('fetchIfModified', () => {
+  it('downloads without validators and skips the body once the server says nothing changed', async () => {
+    const server = createExportServer('parcel-export-before', '"v1"', 'Mon, 05 Oct 2026 08:00:00 GMT')
+
+    const first = await fetchIfModified(EXPORT_URL, undefined, server.fetchImpl)
+    if (first.status !== 'modified') throw new Error('Expected a download')
+    expect(first.validators).toEqual({ etag: '"v1"', lastModified: 'Mon, 05 Oct 2026 08:00:00 GMT' })
+    expect(await first.response.json()).toEqual(exportPayload('parcel-export-before'))
+    expect(server.requests[0]).toEqual({})
+
+    const second = await fetchIfModified(EXPORT_URL, first.validators, server.fetchImpl)
+    expect(second).toEqual({ status: 'unchanged' })
+    expect(server.requests[1]).toEqual({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Mon, 05 Oct 2026 08:00:00 GMT',
+    })
+  })
+
+  it('downloads again when the export has a new version', async () => {
+    const server = createExportServer('parcel-export-after', '"v2"', 'Mon, 12 Oct 2026 08:00:00 GMT')
+    const stale: SourceValidators = { etag: '"v1"', lastModified: null }
+    const result = await fetchIfModified(EXPORT_URL, stale, server.fetchImpl)
+    expect(result.status).toBe('modified')
+  })
+
+  it('fails on server errors', async () => {
+    const fetchImpl = (async () => new Response('busy', { status: 503 })) as typeof fetch
+    await expect(fetchIfModified(EXPORT_URL, undefined, fetchImpl)).rejects.toThrow(/503/)
+  })
+})
+
+describe('conditionalHeaders', () => {
+  it('only sends the validators that are known', () => {
+    expect(conditionalHeaders({ etag: null, lastModified: 'Mon, 05 Oct 2026 08:00:00 GMT' })).toEqual({
+      'If-Modified-Since': 'Mon, 05 Oct 2026 08:00:00 GMT',
+    })
+    expect(conditionalHeaders(undefined)).toEqual({})
+  })
+})
+
+describe('sanitizeFetchState', () => {
+  it('keeps sources with a validator and resets unknown versions', () => {
+    expect(
+      sanitizeFetchState({
+        version: 1,
+        sources: { parcels: { etag: '"v1"' }, roads: { etag: '' }, zoning: null },
+      }),
+    ).toEqual({ version: 1, sources: { parcels: { etag: '"v1"', lastModified: null } } })
+    expect(sanitizeFetchState({ version: 2, sources: {} }).sources).toEqual({})
+    expect(sanitizeFetchState(null).sources).toEqual({})
+  })
+})
+
+describe('diffParcels', () => {
+  it('reports added, removed and re-surveyed parcels by id', () => {
+    const report = diffParcels(
+      normalize('parcel-export-before'),
+      normalize('parcel-export-after'),
+      '2026-10-12T08:00:00.000Z',
+    )
+    expect(report).toEqual({
+      generatedAt: '2026-10-12T08:00:00.000Z',
+      previousCount: 4,
+      currentCount: 5,
+      added: [
+        { id: '1005', address: '140 MAIN ST' },
+        { id: '1006', address: '150 MAIN ST' },
+      ],
+      removed: [{ id: '1003', address: '120 MAIN ST' }],
+      geometryChanged: [{ id: '1004', address: '130 MAIN ST' }],
+    })
+  })
+
+  it('reports nothing for the same export', () => {
+    const parcels = normalize('parcel-export-before')
+    const report = diffParcels(parcels, parcels)
+    expect([...report.added, ...report.removed, ...report.geometryChanged]).toEqual([])
+  })
+})
@@ -0,0 +1,131 @@
+import type { ParcelFeature, ParcelGeometry } from '../../types/parcel'
+
+// What the server said about a download, sent back on the next run to ask whether it changed.
+export interface SourceValidators {
+  etag: string | null
+  lastModified: string | null
+}
+
+// Kept next to the generated files, so it disappears along with them.
+export interface FetchState {
+  version: 1
+  sources: Record<string, SourceValidators>
+}
+
+export type ConditionalFetchResult =
+  | { status: 'unchanged' }
+  | { status: 'modified'; response: Response; validators: SourceValidators }
+
+export interface ParcelChange {
+  id: string
+  address: string
+}
+
+export interface ParcelChangeReport {
+  generatedAt: string
+  previousCount: number
+  currentCount: number
+  added: ParcelChange[]
+  removed: ParcelChange[]
+  geometryChanged: ParcelChange[]
+}
+
+// About a centimetre; the export re-serializes coordinates and the last digits can wobble.
+const COORDINATE_PRECISION = 1e7
+
+export const EMPTY_FETCH_STATE: FetchState = { version: 1, sources: {} }
+
+function readHeader(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null
+}
+
+export function sanitizeFetchState(raw: unknown): FetchState {
+  if (!raw || typeof raw !== 'object') return EMPTY_FETCH_STATE
+  const state = raw as { version?: unknown; sources?: unknown }
+  if (state.version !== 1 || !state.sources || typeof state.sources !== 'object') {
+    return EMPTY_FETCH_STATE
+  }
+
+  const sources: Record<string, SourceValidators> = {}
+  for (const [key, value] of Object.entries(state.sources as Record<string, unknown>)) {
+    const entry = (value ?? {}) as { etag?: unknown; lastModified?: unknown }
+    const validators = { etag: readHeader(entry.etag), lastModified: readHeader(entry.lastModified) }
+    if (validators.etag || validators.lastModified) sources[key] = validators
+  }
+  return { version: 1, sources }
+}
+
+export function readValidators(response: Response): SourceValidators {
+  return {
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified'),
+  }
+}
+
+export function conditionalHeaders(validators: SourceValidators | undefined): Record<string, string> {
+  const headers: Record<string, string> = {}
+  if (validators?.etag) headers['If-None-Match'] = validators.etag
+  if (validators?.lastModified) headers['If-Modified-Since'] = validators.lastModified
+  return headers
+}
+
+// One conditional GET; a 304 means the copy from the previous run is still current.
+export async function fetchIfModified(
+  url: string,
+  validators: SourceValidators | undefined,
+  fetchImpl: typeof fetch = fetch,
+): Promise<ConditionalFetchResult> {
+  const response = await fetchImpl(url, { headers: conditionalHeaders(validators) })
+  if (response.status === 304) return { status: 'unchanged' }
+  if (!response.ok) throw new Error(`HTTP ${response.status} ${response.statusText}`)
+  return { status: 'modified', response, validators: readValidators(response) }
+}
+
+function geometryKey(geometry: ParcelGeometry): string {
+  return JSON.stringify(geometry, (_key, value: unknown) =>
+    typeof value === 'number' ? Math.round(value * COORDINATE_PRECISION) / COORDINATE_PRECISION : value,
+  )
+}
+
+function toChange(parcel: ParcelFeature): ParcelChange {
+  return { id: parcel.properties.id, address: parcel.properties.fullAddress }
+}
+
+function byId(a: ParcelChange, b: ParcelChange): number {
+  return a.id.localeCompare(b.id)
+}
+
+// Compares two exports by parcel id. Address and zoning edits are not reported; a parcel whose
+// outline moved is.
+export function diffParcels(
+  previous: ParcelFeature[],
+  current: ParcelFeature[],
+  generatedAt = new Date().toISOString(),
+): ParcelChangeReport {
+  const previousById = new Map(previous.map((parcel) => [parcel.properties.id, parcel]))
+  const currentIds = new Set<string>()
+  const added: ParcelChange[] = []
+  const geometryChanged: ParcelChange[] = []
+
+  for (const parcel of current) {
+    currentIds.add(parcel.properties.id)
+    const before = previousById.get(parcel.properties.id)
+    if (!before) {
+      added.push(toChange(parcel))
+    } else if (geometryKey(before.geometry) !== geometryKey(parcel.geometry)) {
+      geometryChanged.push(toChange(parcel))
+    }
+  }
+  const removed = previous
+    .filter((parcel) => !currentIds.has(parcel.properties.id))
+    .map(toChange)
+
+  return {
+    generatedAt,
+    previousCount: previous.length,
+    currentCount: current.length,
+    added: added.sort(byId),
+    removed: removed.sort(byId),
+    geometryChanged: geometryChanged.sort(byId),
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { readJsonWithProgress, type FileProgress } from './fetchJson'
+
+function streamed(text: string, chunkSize: number, headers: Record<string, string> = {}) {
+  const bytes = new TextEncoder().encode(text)
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let start = 0; start < bytes.length; start += chunkSize) {
+        controller.enqueue(bytes.slice(start, start + chunkSize))
+      }
+      controller.close()
+    },
+  })
+  return { response: new Response(body, { headers }), size: bytes.length }
+}
+
+describe('readJsonWithProgress', () => {
+  it('parses a chunked body and ends with the full byte count', async () => {
+    // Multi-byte characters split across chunks must survive decoding.
+    const value = { address: '1234 ÉCOLE ST', ids: Array.from({ length: 50 }, (_, i) => i) }
+    const text = JSON.stringify(value)
+    const { response, size } = streamed(text, 7, {
+      'content-length': String(new TextEncoder().encode(text).length),
+    })
+    const progress: FileProgress[] = []
+    expect(await readJsonWithProgress(response, (next) => progress.push(next))).toEqual(value)
+
+    expect(progress[0]).toEqual({ loadedBytes: 0, totalBytes: size })
+    expect(progress.at(-1)).toEqual({ loadedBytes: size, totalBytes: size })
+  })
+
+  it('leaves the total unknown without a usable content length', async () => {
+    const { response, size } = streamed('[1,2,3]', 2, { 'content-encoding': 'gzip' })
+    const progress: FileProgress[] = []
+    await readJsonWithProgress(response, (next) => progress.push(next))
+    expect(progress[0]?.totalBytes).toBeNull()
+    // Once the stream ends, what arrived is the total.
+    expect(progress.at(-1)).toEqual({ loadedBytes: size, totalBytes: size })
+  })
+
+  it('rejects malformed JSON', async () => {
+    const { response } = streamed('{"features": [', 4)
+    await expect(readJsonWithProgress(response)).rejects.toThrow(SyntaxError)
+  })
+})
@@ -0,0 +1,88 @@
+export interface FileProgress {
+  loadedBytes: number
+  // Null when the server does not send a usable Content-Length.
+  totalBytes: number | null
+}
+
+export type FileLoadStatus = 'loading' | 'ready' | 'error'
+
+export interface FileLoadState {
+  status: FileLoadStatus
+  progress: FileProgress
+  error: string | null
+}
+
+export const LOADING_FILE: FileLoadState = {
+  status: 'loading',
+  progress: { loadedBytes: 0, totalBytes: null },
+  error: null,
+}
+
+export interface FetchJsonOptions {
+  onProgress?: (progress: FileProgress) => void
+  // Optional files resolve to null instead of failing when they do not exist.
+  optional?: boolean
+}
+
+// Progress is reported per network chunk; this keeps a large file from re-rendering on every one.
+const PROGRESS_INTERVAL_MS = 100
+
+function totalBytesOf(response: Response): number | null {
+  // With Content-Encoding the header counts compressed bytes, but the stream yields decoded ones.
+  if (response.headers.get('content-encoding')) return null
+  const length = Number(response.headers.get('content-length') ?? '')
+  return Number.isFinite(length) && length > 0 ? length : null
+}
+
+export async function readJsonWithProgress(
+  response: Response,
+  onProgress?: (progress: FileProgress) => void,
+): Promise<unknown> {
+  const totalBytes = totalBytesOf(response)
+  if (!response.body) {
+    const text = await response.text()
+    onProgress?.({ loadedBytes: text.length, totalBytes })
+    return JSON.parse(text) as unknown
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  const parts: string[] = []
+  let loadedBytes = 0
+  let lastReport = 0
+  onProgress?.({ loadedBytes, totalBytes })
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    loadedBytes += value.byteLength
+    parts.push(decoder.decode(value, { stream: true }))
+    const now = Date.now()
+    if (now - lastReport >= PROGRESS_INTERVAL_MS) {
+      lastReport = now
+      onProgress?.({ loadedBytes, totalBytes })
+    }
+  }
+  parts.push(decoder.decode())
+  onProgress?.({ loadedBytes, totalBytes: totalBytes ?? loadedBytes })
+  return JSON.parse(parts.join('')) as unknown
+}
+
+export async function fetchJson(
+  url: string,
+  { onProgress, optional = false }: FetchJsonOptions = {},
+): Promise<unknown> {
+  const response = await fetch(url)
+  // The dev server answers unknown paths with index.html, so HTML counts as not found.
+  const isHtml = response.headers.get('content-type')?.includes('text/html') ?? false
+  if (optional && (response.status === 404 || (response.ok && isHtml))) return null
+  if (!response.ok) throw new Error(`Could not load ${url} (HTTP ${response.status}).`)
+  if (isHtml) throw new Error(`${url} was not found.`)
+
+  try {
+    return await readJsonWithProgress(response, onProgress)
+  } catch (error) {
+    if (error instanceof SyntaxError) throw new Error(`${url} is not valid JSON.`)
+    throw error
+  }
+}
@@ -0,0 +1,46 @@
+import type { ParcelFeature, ParcelGeometry } from '../../types/parcel'
+
+function readText(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value)
+}
+
+// Maps one record of the city's parcel polygon export to a ParcelFeature. Records without a
+// polygon or label point are dropped; the zoning code is joined in later.
+export function fromParcelExportFeature(raw: unknown): ParcelFeature | null {
+  if (!raw || typeof raw !== 'object') return null
+  const feature = raw as { geometry?: unknown; properties?: Record<string, unknown> | null }
+  const geometry = feature.geometry as { type?: unknown } | null | undefined
+  const properties = feature.properties ?? {}
+
+  // Split lots come through as MultiPolygon; holes stay as interior rings in either shape.
+  if (!geometry || (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon')) return null
+
+  const labelPoint = properties.geo_point_2d as { lon?: unknown; lat?: unknown } | null | undefined
+  const lon = Number(labelPoint?.lon)
+  const lat = Number(labelPoint?.lat)
+  if (Number.isNaN(lon) || Number.isNaN(lat)) return null
+
+  const civicNumber = readText(properties.civic_number)
+  const streetName = readText(properties.streetname)
+  const id =
+    properties.site_id === undefined || properties.site_id === null
+      ? `${readText(properties.tax_coord)}-${civicNumber}`
+      : String(properties.site_id)
+  if (!id) return null
+
+  return {
+    type: 'Feature',
+    geometry: geometry as ParcelGeometry,
+    properties: {
+      id,
+      siteId: readText(properties.site_id),
+      taxCoord: readText(properties.tax_coord),
+      civicNumber,
+      streetName,
+      fullAddress: `${civicNumber.trim()} ${streetName.trim()}`.trim(),
+      lon,
+      lat,
+      zoningCode: '',
+    },
+  }
+}
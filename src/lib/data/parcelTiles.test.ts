@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest'
+import type { Bounds } from '../geo/parcelGeometry'
+import type { ParcelFeature, Position } from '../../types/parcel'
+import {
+  buildParcelTiles,
+  createParcelTileStore,
+  quadkeyForPoint,
+  selectViewportTiles,
+  tileForPoint,
+  tileToQuadkey,
+} from './parcelTiles'
+import { sanitizeParcelTileManifest } from './sanitize'
+
+const LAT0 = 49.26
+const LON0 = -123.1
+const METRES_PER_DEG_LAT = 111320
+const METRES_PER_DEG_LON = 111320 * Math.cos((LAT0 * Math.PI) / 180)
+
+function at(x: number, y: number): Position {
+  return [LON0 + x / METRES_PER_DEG_LON, LAT0 + y / METRES_PER_DEG_LAT]
+}
+
+function box(x0: number, y0: number, x1: number, y1: number): Bounds {
+  return [...at(x0, y0), ...at(x1, y1)] as Bounds
+}
+
+function lot(id: string, x0: number, y0: number, x1: number, y1: number, label?: Position) {
+  const [lon, lat] = label ?? at((x0 + x1) / 2, (y0 + y1) / 2)
+  const parcel: ParcelFeature = {
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[at(x0, y0), at(x1, y0), at(x1, y1), at(x0, y1), at(x0, y0)]],
+    },
+    properties: {
+      id,
+      siteId: id,
+      taxCoord: '',
+      civicNumber: '',
+      streetName: '',
+      fullAddress: id,
+      lon,
+      lat,
+      zoningCode: '',
+    },
+  }
+  return parcel
+}
+
+function ref(parcel: ParcelFeature) {
+  const { id, lon, lat } = parcel.properties
+  return { id, lon, lat }
+}
+
+// Zoom 17 tiles are about 200 m wide here; the lots sit in one tile and its eastern neighbours.
+const ZOOM = 17
+const PARCELS = [
+  lot('a', 0, 0, 10, 30),
+  lot('b', 10, 0, 20, 30),
+  lot('east', 400, 0, 410, 30),
+  lot('far', 1200, 0, 1210, 30),
+]
+
+function serve(parcels: ParcelFeature[], zoom = ZOOM) {
+  const { manifest, tiles } = buildParcelTiles(parcels, zoom)
+  const loads: string[] = []
+  const loadTile = async (quadkey: string) => {
+    loads.push(quadkey)
+    return { type: 'FeatureCollection', features: tiles.get(quadkey) ?? [] }
+  }
+  return { manifest, loads, loadTile }
+}
+
+describe('quadkeys', () => {
+  it('matches the Bing Maps tile system', () => {
+    expect(tileToQuadkey({ x: 3, y: 5, z: 3 })).toBe('213')
+    expect(tileToQuadkey({ x: 0, y: 0, z: 1 })).toBe('0')
+    expect(tileToQuadkey({ x: 1, y: 1, z: 2 })).toBe('03')
+    expect(tileToQuadkey({ x: 0, y: 0, z: 0 })).toBe('')
+  })
+
+  it('places Vancouver in the north-west quadrant', () => {
+    expect(tileForPoint(LON0, LAT0, 1)).toEqual({ x: 0, y: 0, z: 1 })
+    expect(quadkeyForPoint(LON0, LAT0)).toHaveLength(15)
+    expect(quadkeyForPoint(LON0, LAT0).startsWith('0')).toBe(true)
+  })
+})
+
+describe('buildParcelTiles', () => {
+  it('groups parcels by label point and records each tile extent', () => {
+    const { manifest, tiles } = buildParcelTiles(PARCELS, ZOOM)
+    expect(manifest.parcelCount).toBe(4)
+    expect(manifest.zoom).toBe(ZOOM)
+    expect(manifest.tiles.map((entry) => entry.quadkey)).toEqual(
+      [...manifest.tiles.map((entry) => entry.quadkey)].sort(),
+    )
+
+    const home = quadkeyForPoint(PARCELS[0]!.properties.lon, PARCELS[0]!.properties.lat, ZOOM)
+    expect(tiles.get(home)?.map((parcel) => parcel.properties.id)).toEqual(['a', 'b'])
+    const entry = manifest.tiles.find((tile) => tile.quadkey === home)
+    expect(entry?.count).toBe(2)
+    expect(entry?.bounds[0]).toBeCloseTo(at(0, 0)[0], 9)
+    expect(entry?.bounds[2]).toBeCloseTo(at(20, 0)[0], 9)
+  })
+
+  it('lets a large parcel extend its tile past the tile edge', () => {
+    const wide = lot('wide', 0, 0, 600, 30, at(5, 15))
+    const { manifest } = buildParcelTiles([wide], ZOOM)
+    expect(manifest.tiles[0]?.bounds[2]).toBeCloseTo(at(600, 0)[0], 9)
+  })
+})
+
+describe('selectViewportTiles', () => {
+  const { manifest } = buildParcelTiles(PARCELS, ZOOM)
+  const everything = box(-50, -50, 1300, 80)
+
+  it('returns every overlapping tile within the budget', () => {
+    expect(selectViewportTiles(manifest, everything, at(0, 0), 100)).toHaveLength(
+      manifest.tiles.length,
+    )
+    expect(selectViewportTiles(manifest, box(-5, -5, 25, 35), at(10, 15), 100)).toHaveLength(1)
+  })
+
+  it('keeps the tiles nearest the centre when the budget runs out', () => {
+    const selected = selectViewportTiles(manifest, everything, at(1205, 15), 1)
+    expect(selected).toHaveLength(1)
+    expect(selected[0]?.quadkey).toBe(
+      quadkeyForPoint(PARCELS[3]!.properties.lon, PARCELS[3]!.properties.lat, ZOOM),
+    )
+  })
+})
+
+describe('createParcelTileStore', () => {
+  it('loads each tile once and resolves references across tiles', async () => {
+    const { manifest, loads, loadTile } = serve(PARCELS)
+    const store = createParcelTileStore(manifest, loadTile)
+
+    const parcels = await store.getParcels([ref(PARCELS[3]!), ref(PARCELS[0]!), ref(PARCELS[1]!)])
+    expect(parcels.map((parcel) => parcel.properties.id)).toEqual(['far', 'a', 'b'])
+    await store.getParcels([ref(PARCELS[1]!)])
+    expect(loads).toHaveLength(2)
+  })
+
+  it('skips references that are not in their tile', async () => {
+    const { manifest, loadTile } = serve(PARCELS)
+    const store = createParcelTileStore(manifest, loadTile)
+    const [lon, lat] = at(5, 15)
+    expect(await store.getParcels([{ id: 'missing', lon, lat }])).toEqual([])
+    expect(await store.getParcels([{ id: 'x', lon: 10, lat: 10 }])).toEqual([])
+  })
+
+  it('retries a tile whose load failed', async () => {
+    const { manifest, loadTile } = serve(PARCELS)
+    let failures = 1
+    const store = createParcelTileStore(manifest, async (quadkey) => {
+      if (failures > 0) {
+        failures -= 1
+        throw new Error('offline')
+      }
+      return loadTile(quadkey)
+    })
+    const quadkey = manifest.tiles[0]!.quadkey
+    await expect(store.getTile(quadkey)).rejects.toThrow('offline')
+    expect((await store.getTile(quadkey)).parcels.length).toBeGreaterThan(0)
+  })
+
+  it('evicts the least recently used tile', async () => {
+    const { manifest, loads, loadTile } = serve(PARCELS)
+    const store = createParcelTileStore(manifest, loadTile, 2)
+    const [first, second, third] = manifest.tiles.map((entry) => entry.quadkey) as [
+      string,
+      string,
+      string,
+    ]
+    await store.getTile(first)
+    await store.getTile(second)
+    await store.getTile(first)
+    await store.getTile(third)
+    await store.getTile(first)
+    expect(loads).toEqual([first, second, third])
+    await store.getTile(second)
+    expect(loads).toEqual([first, second, third, second])
+  })
+
+  it('finds a parcel whose label point sits in another tile', async () => {
+    const wide = lot('wide', 0, 100, 600, 130, at(5, 115))
+    const { manifest, loadTile } = serve([wide, ...PARCELS])
+    const store = createParcelTileStore(manifest, loadTile)
+    const [lon, lat] = at(405, 115)
+    expect((await store.findParcelAt(lon, lat))?.properties.id).toBe('wide')
+    const [lotLon, lotLat] = at(405, 15)
+    expect((await store.findParcelAt(lotLon, lotLat))?.properties.id).toBe('east')
+    const [gapLon, gapLat] = at(800, 15)
+    expect(await store.findParcelAt(gapLon, gapLat)).toBeNull()
+  })
+
+  it('lists parcels near a point across tiles, nearest first', async () => {
+    const wide = lot('wide', 0, 100, 600, 130, at(5, 115))
+    const { manifest, loadTile } = serve([wide, ...PARCELS])
+    const store = createParcelTileStore(manifest, loadTile)
+    const [lon, lat] = at(405, 60)
+    const near = await store.findParcelsNear(lon, lat, 45)
+    expect(near.map(({ parcel }) => parcel.properties.id)).toEqual(['east', 'wide'])
+    expect(near[0]?.distanceMeters).toBeCloseTo(30, 0)
+  })
+})
+
+describe('sanitizeParcelTileManifest', () => {
+  it('keeps well-formed tiles at the manifest zoom', () => {
+    const { manifest } = buildParcelTiles(PARCELS, ZOOM)
+    expect(sanitizeParcelTileManifest(JSON.parse(JSON.stringify(manifest)))).toEqual(manifest)
+    const mixed = {
+      ...manifest,
+      tiles: [...manifest.tiles, { quadkey: '0', count: 3, bounds: [0, 0, 1, 1] }],
+    }
+    expect(sanitizeParcelTileManifest(mixed)?.parcelCount).toBe(4)
+  })
+
+  it('rejects unknown versions', () => {
+    expect(sanitizeParcelTileManifest({ version: 2, zoom: 15, tiles: [] })).toBeNull()
+    expect(sanitizeParcelTileManifest(null)).toBeNull()
+  })
+})
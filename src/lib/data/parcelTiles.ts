@@ -0,0 +1,236 @@
+import { parcelBounds, type Bounds } from '../geo/parcelGeometry'
+import {
+  createParcelSpatialIndex,
+  type NearestParcel,
+  type ParcelSpatialIndex,
+} from '../geo/parcelSpatialIndex'
+import type {
+  ParcelFeature,
+  ParcelRef,
+  ParcelTileEntry,
+  ParcelTileManifest,
+  Position,
+} from '../../types/parcel'
+import { sanitizeParcelFeature } from './sanitize'
+
+// Zoom 15 tiles are roughly 800 m across in Vancouver: a few hundred lots each, a handful per screen.
+export const PARCEL_TILE_ZOOM = 15
+const DEFAULT_MAX_CACHED_TILES = 96
+const METRES_PER_DEGREE_LAT = 111320
+
+export interface TileCoordinate {
+  x: number
+  y: number
+  z: number
+}
+
+export function tileForPoint(lon: number, lat: number, zoom = PARCEL_TILE_ZOOM): TileCoordinate {
+  const scale = 2 ** zoom
+  const latRad = (Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180
+  const x = Math.floor(((lon + 180) / 360) * scale)
+  const y = Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * scale)
+  return {
+    x: Math.max(0, Math.min(scale - 1, x)),
+    y: Math.max(0, Math.min(scale - 1, y)),
+    z: zoom,
+  }
+}
+
+export function tileToQuadkey({ x, y, z }: TileCoordinate): string {
+  let quadkey = ''
+  for (let level = z; level > 0; level -= 1) {
+    const mask = 1 << (level - 1)
+    quadkey += String((x & mask ? 1 : 0) + (y & mask ? 2 : 0))
+  }
+  return quadkey
+}
+
+export function quadkeyForPoint(lon: number, lat: number, zoom = PARCEL_TILE_ZOOM): string {
+  return tileToQuadkey(tileForPoint(lon, lat, zoom))
+}
+
+function intersects(a: Bounds, b: Bounds): boolean {
+  return a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1]
+}
+
+function boxDistanceSq(bounds: Bounds, [lon, lat]: Position): number {
+  const dx = Math.max(bounds[0] - lon, 0, lon - bounds[2])
+  const dy = Math.max(bounds[1] - lat, 0, lat - bounds[3])
+  return dx * dx + dy * dy
+}
+
+// Groups parcels by the tile of their label point; used by the fetch script and the tests.
+export function buildParcelTiles(
+  parcels: ParcelFeature[],
+  zoom = PARCEL_TILE_ZOOM,
+): { manifest: ParcelTileManifest; tiles: Map<string, ParcelFeature[]> } {
+  const tiles = new Map<string, ParcelFeature[]>()
+  const extents = new Map<string, Bounds>()
+
+  for (const parcel of parcels) {
+    const bounds = parcelBounds(parcel.geometry)
+    if (!bounds) continue
+    const quadkey = quadkeyForPoint(parcel.properties.lon, parcel.properties.lat, zoom)
+    const members = tiles.get(quadkey)
+    if (members) {
+      members.push(parcel)
+    } else {
+      tiles.set(quadkey, [parcel])
+    }
+    const extent = extents.get(quadkey)
+    extents.set(
+      quadkey,
+      extent
+        ? [
+            Math.min(extent[0], bounds[0]),
+            Math.min(extent[1], bounds[1]),
+            Math.max(extent[2], bounds[2]),
+            Math.max(extent[3], bounds[3]),
+          ]
+        : bounds,
+    )
+  }
+
+  const entries: ParcelTileEntry[] = [...tiles].map(([quadkey, members]) => ({
+    quadkey,
+    count: members.length,
+    bounds: extents.get(quadkey) ?? [0, 0, 0, 0],
+  }))
+  entries.sort((a, b) => a.quadkey.localeCompare(b.quadkey))
+
+  let parcelCount = 0
+  for (const entry of entries) parcelCount += entry.count
+  return { manifest: { version: 1, zoom, parcelCount, tiles: entries }, tiles }
+}
+
+// Tiles overlapping the viewport, nearest the centre first until the feature budget is spent.
+// Returned in quadkey order so an unchanged set can be recognised by its keys.
+export function selectViewportTiles(
+  manifest: ParcelTileManifest,
+  bounds: Bounds,
+  center: Position,
+  maxFeatures: number,
+): ParcelTileEntry[] {
+  const hits = manifest.tiles.filter((entry) => intersects(entry.bounds, bounds))
+  let total = 0
+  for (const entry of hits) total += entry.count
+  if (total <= maxFeatures) return hits
+
+  const byDistance = [...hits].sort(
+    (a, b) => boxDistanceSq(a.bounds, center) - boxDistanceSq(b.bounds, center),
+  )
+  const selected: ParcelTileEntry[] = []
+  let budget = maxFeatures
+  for (const entry of byDistance) {
+    if (selected.length > 0 && entry.count > budget) break
+    selected.push(entry)
+    budget -= entry.count
+  }
+  return selected.sort((a, b) => a.quadkey.localeCompare(b.quadkey))
+}
+
+export interface LoadedParcelTile {
+  quadkey: string
+  parcels: ParcelFeature[]
+  byId: Map<string, ParcelFeature>
+  index: ParcelSpatialIndex
+}
+
+export interface ParcelTileStore {
+  manifest: ParcelTileManifest
+  getTile: (quadkey: string) => Promise<LoadedParcelTile>
+  // Full geometry for the given parcels; ids missing from their tile are skipped.
+  getParcels: (refs: ParcelRef[]) => Promise<ParcelFeature[]>
+  findParcelAt: (lon: number, lat: number) => Promise<ParcelFeature | null>
+  // Parcels within `radiusMeters` of the point, nearest first.
+  findParcelsNear: (lon: number, lat: number, radiusMeters: number) => Promise<NearestParcel[]>
+}
+
+// Lazily loads tiles through `loadTile` and keeps the most recently used ones in memory.
+export function createParcelTileStore(
+  manifest: ParcelTileManifest,
+  loadTile: (quadkey: string) => Promise<unknown>,
+  maxCachedTiles = DEFAULT_MAX_CACHED_TILES,
+): ParcelTileStore {
+  const known = new Set(manifest.tiles.map((entry) => entry.quadkey))
+  const cache = new Map<string, Promise<LoadedParcelTile>>()
+
+  const getTile = (quadkey: string): Promise<LoadedParcelTile> => {
+    const cached = cache.get(quadkey)
+    if (cached) {
+      // Re-insert so Map order tracks recency.
+      cache.delete(quadkey)
+      cache.set(quadkey, cached)
+      return cached
+    }
+
+    const pending = (async () => {
+      // Empty tiles are left out of the manifest, so there is nothing to fetch.
+      const raw = known.has(quadkey) ? await loadTile(quadkey) : null
+      const features = (raw as { features?: unknown } | null)?.features
+      const parcels = (Array.isArray(features) ? features : [])
+        .map(sanitizeParcelFeature)
+        .filter((feature): feature is ParcelFeature => feature !== null)
+      return {
+        quadkey,
+        parcels,
+        byId: new Map(parcels.map((parcel) => [parcel.properties.id, parcel])),
+        index: createParcelSpatialIndex(parcels),
+      }
+    })()
+    cache.set(quadkey, pending)
+    // A failed tile is forgotten so the next request retries it.
+    pending.catch(() => {
+      if (cache.get(quadkey) === pending) cache.delete(quadkey)
+    })
+
+    while (cache.size > maxCachedTiles) {
+      const oldest = cache.keys().next().value
+      if (oldest === undefined) break
+      cache.delete(oldest)
+    }
+    return pending
+  }
+
+  return {
+    manifest,
+    getTile,
+    getParcels: async (refs) => {
+      const tiles = await Promise.all(
+        refs.map((ref) => getTile(quadkeyForPoint(ref.lon, ref.lat, manifest.zoom))),
+      )
+      return refs.flatMap((ref, index) => {
+        const parcel = tiles[index]?.byId.get(ref.id)
+        return parcel ? [parcel] : []
+      })
+    },
+    findParcelAt: async (lon, lat) => {
+      const point: Bounds = [lon, lat, lon, lat]
+      const entries = manifest.tiles.filter((entry) => intersects(entry.bounds, point))
+      const tiles = await Promise.all(entries.map((entry) => getTile(entry.quadkey)))
+      const candidates = tiles.flatMap((tile) => {
+        const parcel = tile.index.findParcelAt(lon, lat)
+        return parcel ? [parcel] : []
+      })
+      // Neighbouring tiles can each hold a parcel at the point; the index picks the smallest.
+      return candidates.length > 1
+        ? createParcelSpatialIndex(candidates).findParcelAt(lon, lat)
+        : (candidates[0] ?? null)
+    },
+    findParcelsNear: async (lon, lat, radiusMeters) => {
+      const latPadding = radiusMeters / METRES_PER_DEGREE_LAT
+      const lonPadding = latPadding / Math.cos((lat * Math.PI) / 180)
+      const area: Bounds = [lon - lonPadding, lat - latPadding, lon + lonPadding, lat + latPadding]
+      const entries = manifest.tiles.filter((entry) => intersects(entry.bounds, area))
+      const tiles = await Promise.all(entries.map((entry) => getTile(entry.quadkey)))
+      return tiles
+        .flatMap((tile) =>
+          tile.index.nearest([lon, lat], {
+            limit: tile.parcels.length,
+            maxDistanceMeters: radiusMeters,
+          }),
+        )
+        .sort((a, b) => a.distanceMeters - b.distanceMeters)
+    },
+  }
+}
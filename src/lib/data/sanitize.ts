@@ -0,0 +1,219 @@
+import type {
+  ParcelFeature,
+  ParcelTileEntry,
+  ParcelTileManifest,
+  RoadFeature,
+  SearchRecord,
+  ZoningFeature,
+} from '../../types/parcel'
+import {
+  buildSearchIndex,
+  SEARCH_FIELDS,
+  type SearchField,
+  type SearchIndexData,
+  type SearchTokenTable,
+} from '../search/addressSearch'
+
+function asNumber(value: unknown): number {
+  return typeof value === 'number' ? value : Number(value)
+}
+
+export function sanitizeParcelFeature(raw: unknown): ParcelFeature | null {
+  // Defensive parsing so malformed records do not break the app at runtime.
+  if (!raw || typeof raw !== 'object') return null
+  const feature = raw as {
+    type?: unknown
+    geometry?: unknown
+    properties?: Record<string, unknown>
+  }
+  if (feature.type !== 'Feature') return null
+  if (!feature.geometry || typeof feature.geometry !== 'object') return null
+
+  const geometry = feature.geometry as { type?: unknown; coordinates?: unknown }
+  if (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon') return null
+  if (!Array.isArray(geometry.coordinates) || geometry.coordinates.length === 0) return null
+
+  const properties = feature.properties ?? {}
+  const id = String(properties.id ?? '').trim()
+  const fullAddress = String(properties.fullAddress ?? '').trim()
+  const streetName = String(properties.streetName ?? '').trim()
+  const lon = asNumber(properties.lon)
+  const lat = asNumber(properties.lat)
+  if (!id || !fullAddress || Number.isNaN(lon) || Number.isNaN(lat)) return null
+
+  return {
+    type: 'Feature',
+    geometry:
+      geometry.type === 'MultiPolygon'
+        ? {
+            type: 'MultiPolygon',
+            coordinates: geometry.coordinates as [number, number][][][],
+          }
+        : {
+            type: 'Polygon',
+            coordinates: geometry.coordinates as [number, number][][],
+          },
+    properties: {
+      id,
+      siteId: String(properties.siteId ?? ''),
+      taxCoord: String(properties.taxCoord ?? ''),
+      civicNumber: String(properties.civicNumber ?? ''),
+      streetName,
+      fullAddress,
+      lon,
+      lat,
+      zoningCode: String(properties.zoningCode ?? '').trim(),
+    },
+  }
+}
+
+export function sanitizeSearchRecord(raw: unknown): SearchRecord | null {
+  // Keep search index strict; skip anything missing id/address/coordinates.
+  if (!raw || typeof raw !== 'object') return null
+  const item = raw as Record<string, unknown>
+  const id = String(item.id ?? '').trim()
+  const address = String(item.address ?? '').trim()
+  const lon = asNumber(item.lon)
+  const lat = asNumber(item.lat)
+  const streetName = String(item.streetName ?? '').trim()
+  // Older indexes and saved history predate zoning, so a missing code is just empty.
+  const zoningCode = String(item.zoningCode ?? '').trim()
+  const siteId = String(item.siteId ?? '').trim()
+  const taxCoord = String(item.taxCoord ?? '').trim()
+  if (!id || !address || Number.isNaN(lon) || Number.isNaN(lat)) return null
+  return { id, address, lon, lat, streetName, zoningCode, siteId, taxCoord }
+}
+
+function sanitizeTokenTable(raw: unknown, recordCount: number): SearchTokenTable | null {
+  if (!raw || typeof raw !== 'object') return null
+  const { tokens, postings } = raw as { tokens?: unknown; postings?: unknown }
+  if (!Array.isArray(tokens) || !Array.isArray(postings) || tokens.length !== postings.length) {
+    return null
+  }
+  // Lookups binary-search the tokens, so an unsorted table would silently miss matches.
+  const sorted = tokens.every(
+    (token, index) => typeof token === 'string' && (index === 0 || tokens[index - 1] < token),
+  )
+  const inRange = postings.every(
+    (list) =>
+      Array.isArray(list) &&
+      list.every((index) => Number.isInteger(index) && index >= 0 && index < recordCount),
+  )
+  if (!sorted || !inRange) return null
+  return { tokens: tokens as string[], postings: postings as number[][] }
+}
+
+// Accepts the token index written by the fetch pipeline, or a plain record list from before it
+// existed. Postings point at record positions, so the tables are rebuilt whenever a record is
+// dropped or a table does not check out.
+export function sanitizeSearchIndex(raw: unknown): SearchIndexData {
+  const index = (raw && typeof raw === 'object' ? raw : {}) as {
+    version?: unknown
+    records?: unknown
+    fields?: Record<string, unknown>
+  }
+  const rawRecords = Array.isArray(raw) ? raw : Array.isArray(index.records) ? index.records : []
+  const records = rawRecords
+    .map(sanitizeSearchRecord)
+    .filter((record): record is SearchRecord => record !== null)
+  if (Array.isArray(raw) || index.version !== 1 || records.length !== rawRecords.length) {
+    return buildSearchIndex(records)
+  }
+
+  const fields = {} as Record<SearchField, SearchTokenTable>
+  for (const field of SEARCH_FIELDS) {
+    const table = sanitizeTokenTable(index.fields?.[field], records.length)
+    if (!table) return buildSearchIndex(records)
+    fields[field] = table
+  }
+  return { version: 1, records, fields }
+}
+
+export function sanitizeZoningFeature(raw: unknown): ZoningFeature | null {
+  if (!raw || typeof raw !== 'object') return null
+  const feature = raw as {
+    type?: unknown
+    geometry?: unknown
+    properties?: Record<string, unknown>
+  }
+  if (feature.type !== 'Feature') return null
+  if (!feature.geometry || typeof feature.geometry !== 'object') return null
+
+  const geometry = feature.geometry as { type?: unknown; coordinates?: unknown }
+  if (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon') return null
+  if (!Array.isArray(geometry.coordinates) || geometry.coordinates.length === 0) return null
+
+  const properties = feature.properties ?? {}
+  const zoningCode = String(properties.zoningCode ?? '').trim()
+  if (!zoningCode) return null
+  return {
+    type: 'Feature',
+    geometry: feature.geometry as ZoningFeature['geometry'],
+    properties: {
+      zoningCode,
+      category: String(properties.category ?? '').trim(),
+    },
+  }
+}
+
+export function sanitizeRoadFeature(raw: unknown): RoadFeature | null {
+  if (!raw || typeof raw !== 'object') return null
+  const feature = raw as {
+    type?: unknown
+    geometry?: unknown
+    properties?: Record<string, unknown>
+  }
+  if (feature.type !== 'Feature') return null
+  if (!feature.geometry || typeof feature.geometry !== 'object') return null
+
+  const geometry = feature.geometry as { type?: unknown; coordinates?: unknown }
+  if (geometry.type !== 'LineString' && geometry.type !== 'MultiLineString') return null
+  if (!Array.isArray(geometry.coordinates)) return null
+
+  const properties = feature.properties ?? {}
+  return {
+    type: 'Feature',
+    geometry: feature.geometry as RoadFeature['geometry'],
+    properties: {
+      name: String(properties.name ?? '').trim(),
+      roadClass: String(properties.roadClass ?? '').trim(),
+      kind: properties.kind === 'lane' ? 'lane' : 'street',
+    },
+  }
+}
+
+function sanitizeParcelTileEntry(raw: unknown): ParcelTileEntry | null {
+  if (!raw || typeof raw !== 'object') return null
+  const entry = raw as Record<string, unknown>
+  const quadkey = String(entry.quadkey ?? '').trim()
+  const count = asNumber(entry.count)
+  const bounds = Array.isArray(entry.bounds) ? entry.bounds.map(asNumber) : []
+  const [west, south, east, north] = bounds
+  if (!/^[0-3]+$/.test(quadkey) || !Number.isFinite(count) || count <= 0) return null
+  if (
+    west === undefined ||
+    south === undefined ||
+    east === undefined ||
+    north === undefined ||
+    bounds.some((value) => !Number.isFinite(value))
+  ) {
+    return null
+  }
+  return { quadkey, count, bounds: [west, south, east, north] }
+}
+
+export function sanitizeParcelTileManifest(raw: unknown): ParcelTileManifest | null {
+  if (!raw || typeof raw !== 'object') return null
+  const manifest = raw as Record<string, unknown>
+  if (manifest.version !== 1) return null
+  const zoom = asNumber(manifest.zoom)
+  if (!Number.isInteger(zoom) || zoom < 0 || zoom > 22) return null
+
+  const tiles = (Array.isArray(manifest.tiles) ? manifest.tiles : [])
+    .map(sanitizeParcelTileEntry)
+    // Tiles from another zoom would be fetched under the wrong key.
+    .filter((entry): entry is ParcelTileEntry => entry !== null && entry.quadkey.length === zoom)
+  let parcelCount = 0
+  for (const entry of tiles) parcelCount += entry.count
+  return { version: 1, zoom, parcelCount, tiles }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import type { SavedParcel } from '../../types/parcel'
+import {
+  filterSavedParcels,
+  mergeSavedParcels,
+  parseSavedParcelsImport,
+  parseTags,
+  savedParcelTags,
+  toSavedParcelsCsv,
+  toSavedParcelsExport,
+} from './savedParcels'
+
+function saved(id: string, overrides: Partial<SavedParcel> = {}): SavedParcel {
+  return {
+    id,
+    address: `${id} MAIN ST`,
+    lon: -123.1,
+    lat: 49.26,
+    notes: '',
+    tags: [],
+    lotType: 'Corner Lot',
+    areaM2: 612.4,
+    savedAt: '2026-10-01T08:00:00.000Z',
+    updatedAt: '2026-10-01T08:00:00.000Z',
+    ...overrides,
+  }
+}
+
+const PARCELS = [
+  saved('100', { tags: ['follow up', 'rt-7'], notes: 'Owner called, "maybe" in spring.\nCheck lane.' }),
+  saved('200', { tags: ['rt-7'], lotType: null, areaM2: null, savedAt: '2026-10-02T08:00:00.000Z' }),
+]
+
+describe('parseTags', () => {
+  it('splits on commas or semicolons and folds case and repeats', () => {
+    expect(parseTags('Follow  up, RT-7;  follow up,')).toEqual(['follow up', 'rt-7'])
+  })
+})
+
+describe('saved parcel files', () => {
+  it('round-trips through CSV, quoted notes included', () => {
+    const csv = toSavedParcelsCsv(PARCELS)
+    expect(csv.split('\n')[0]).toBe('id,address,lon,lat,lotType,areaM2,tags,notes,savedAt,updatedAt')
+    expect(parseSavedParcelsImport(csv)).toEqual(PARCELS)
+  })
+
+  it('reads the JSON export or a bare list and skips entries without a location', () => {
+    const exported = JSON.stringify(toSavedParcelsExport(PARCELS))
+    expect(parseSavedParcelsImport(exported)).toEqual(PARCELS)
+    expect(
+      parseSavedParcelsImport(JSON.stringify([{ id: '300', lon: -123.1 }, { ...PARCELS[1], tags: 'a; b' }])),
+    ).toEqual([{ ...PARCELS[1], tags: ['a', 'b'] }])
+  })
+
+  it('rejects files in neither format', () => {
+    expect(() => parseSavedParcelsImport('address,notes\n1 MAIN ST,hi')).toThrow(/id column/)
+    expect(() => parseSavedParcelsImport('{"parcels": 3}')).toThrow(/no saved parcels/)
+  })
+})
+
+describe('mergeSavedParcels', () => {
+  it('keeps the more recently edited entry and combines tags', () => {
+    const current = new Map(PARCELS.map((parcel) => [parcel.id, parcel]))
+    const merged = mergeSavedParcels(current, [
+      saved('100', { notes: 'older', tags: ['corner'], updatedAt: '2026-09-01T00:00:00.000Z' }),
+      saved('200', { notes: 'newer', tags: ['corner'], updatedAt: '2026-10-05T00:00:00.000Z' }),
+      saved('300'),
+    ])
+    expect(merged.get('100')?.notes).toBe(PARCELS[0]?.notes)
+    expect(merged.get('100')?.tags).toEqual(['follow up', 'rt-7', 'corner'])
+    expect(merged.get('200')?.notes).toBe('newer')
+    expect([...merged.keys()]).toEqual(['100', '200', '300'])
+  })
+})
+
+describe('filterSavedParcels', () => {
+  it('matches words against address, notes and tags, newest first', () => {
+    const ids = (text: string, tag: string | null = null) =>
+      filterSavedParcels(PARCELS, { text, tag }).map((parcel) => parcel.id)
+    expect(ids('')).toEqual(['200', '100'])
+    expect(ids('main lane')).toEqual(['100'])
+    expect(ids('', 'rt-7')).toEqual(['200', '100'])
+    expect(ids('200', 'follow up')).toEqual([])
+    expect(savedParcelTags(PARCELS)).toEqual(['rt-7', 'follow up'])
+  })
+})
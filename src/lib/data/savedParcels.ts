@@ -0,0 +1,213 @@
+import { LOT_TYPES } from '../geo/overrides'
+import type { LotType, SavedParcel } from '../../types/parcel'
+
+export interface SavedParcelsExport {
+  version: 1
+  exportedAt: string
+  parcels: SavedParcel[]
+}
+
+export interface SavedParcelFilter {
+  // Every word must appear in the address, notes or tags.
+  text: string
+  // Null shows every tag.
+  tag: string | null
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'address',
+  'lon',
+  'lat',
+  'lotType',
+  'areaM2',
+  'tags',
+  'notes',
+  'savedAt',
+  'updatedAt',
+] as const
+type CsvColumn = (typeof CSV_COLUMNS)[number]
+// Tags are joined with this in one CSV cell; commas are left for the CSV itself.
+const CSV_TAG_SEPARATOR = ';'
+
+function readText(value: unknown): string {
+  return typeof value === 'string' ? value : ''
+}
+
+function readNumber(value: unknown): number | null {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value
+  return typeof number === 'number' && Number.isFinite(number) ? number : null
+}
+
+// "Follow up, RT-7;  follow up" -> ['follow up', 'rt-7'].
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(/[,;]/)
+    .map((tag) => tag.trim().replace(/\s+/g, ' ').toLowerCase())
+    .filter(Boolean)
+  return [...new Set(tags)]
+}
+
+export function sanitizeSavedParcel(raw: unknown): SavedParcel | null {
+  if (!raw || typeof raw !== 'object') return null
+  const source = raw as Record<string, unknown>
+  const id = readText(source.id).trim()
+  const lon = readNumber(source.lon)
+  const lat = readNumber(source.lat)
+  if (!id || lon === null || lat === null) return null
+
+  const tags = Array.isArray(source.tags)
+    ? parseTags(source.tags.filter((tag) => typeof tag === 'string').join(','))
+    : parseTags(readText(source.tags))
+  const savedAt = readText(source.savedAt)
+  return {
+    id,
+    address: readText(source.address).trim(),
+    lon,
+    lat,
+    notes: readText(source.notes),
+    tags,
+    lotType: LOT_TYPES.includes(source.lotType as LotType) ? (source.lotType as LotType) : null,
+    areaM2: readNumber(source.areaM2),
+    savedAt,
+    updatedAt: readText(source.updatedAt) || savedAt,
+  }
+}
+
+export function toSavedParcelsExport(parcels: SavedParcel[]): SavedParcelsExport {
+  return { version: 1, exportedAt: new Date().toISOString(), parcels }
+}
+
+function escapeCsv(value: string): string {
+  if (!/[",\r\n]/.test(value)) return value
+  return `"${value.replace(/"/g, '""')}"`
+}
+
+export function toSavedParcelsCsv(parcels: SavedParcel[]): string {
+  const rows = parcels.map((parcel) => {
+    const row: Record<CsvColumn, string> = {
+      id: parcel.id,
+      address: parcel.address,
+      lon: String(parcel.lon),
+      lat: String(parcel.lat),
+      lotType: parcel.lotType ?? '',
+      areaM2: parcel.areaM2 === null ? '' : parcel.areaM2.toFixed(1),
+      tags: parcel.tags.join(CSV_TAG_SEPARATOR),
+      notes: parcel.notes,
+      savedAt: parcel.savedAt,
+      updatedAt: parcel.updatedAt,
+    }
+    return CSV_COLUMNS.map((column) => escapeCsv(row[column])).join(',')
+  })
+  return `${[CSV_COLUMNS.join(','), ...rows].join('\n')}\n`
+}
+
+// RFC 4180: quoted cells may hold commas, doubled quotes and line breaks.
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index]
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"'
+        index += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index += 1
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows.filter((cells) => cells.some((value) => value.trim()))
+}
+
+function fromCsv(text: string): unknown[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''))
+  const columns = (header ?? []).map((name) => name.trim())
+  if (!columns.includes('id')) throw new Error('The CSV has no id column.')
+  return rows.map((cells) =>
+    Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ''])),
+  )
+}
+
+// Reads a JSON export (or a bare list) or a CSV with a header row. Rows without an id and a
+// location are skipped; a file that is neither format throws.
+export function parseSavedParcelsImport(text: string): SavedParcel[] {
+  const trimmed = text.trim()
+  let raw: unknown[]
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const parsed = JSON.parse(trimmed) as unknown
+    const parcels = Array.isArray(parsed) ? parsed : (parsed as { parcels?: unknown }).parcels
+    if (!Array.isArray(parcels)) throw new Error('The file has no saved parcels.')
+    raw = parcels
+  } else {
+    raw = fromCsv(text)
+  }
+  return raw
+    .map(sanitizeSavedParcel)
+    .filter((parcel): parcel is SavedParcel => parcel !== null)
+}
+
+// Imported entries replace saved ones only when they were edited more recently; tags are combined.
+export function mergeSavedParcels(
+  current: Map<string, SavedParcel>,
+  imported: SavedParcel[],
+): Map<string, SavedParcel> {
+  const next = new Map(current)
+  for (const parcel of imported) {
+    const existing = next.get(parcel.id)
+    if (!existing) {
+      next.set(parcel.id, parcel)
+      continue
+    }
+    const newer = parcel.updatedAt > existing.updatedAt ? parcel : existing
+    next.set(parcel.id, { ...newer, tags: parseTags([...existing.tags, ...parcel.tags].join(',')) })
+  }
+  return next
+}
+
+// Newest first.
+export function filterSavedParcels(
+  parcels: Iterable<SavedParcel>,
+  { text, tag }: SavedParcelFilter,
+): SavedParcel[] {
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean)
+  return [...parcels]
+    .filter((parcel) => {
+      if (tag !== null && !parcel.tags.includes(tag)) return false
+      const haystack = [parcel.address, parcel.notes, ...parcel.tags].join(' ').toLowerCase()
+      return words.every((word) => haystack.includes(word))
+    })
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+}
+
+// Every tag in use, most used first.
+export function savedParcelTags(parcels: Iterable<SavedParcel>): string[] {
+  const counts = new Map<string, number>()
+  for (const parcel of parcels) {
+    for (const tag of parcel.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1)
+  }
+  return [...counts]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag)
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ANALYSIS_CONFIG_FIELDS,
+  ANALYSIS_PRESETS,
+  DEFAULT_ANALYSIS_CONFIG,
+  matchAnalysisPreset,
+  sanitizeAnalysisConfig,
+} from './analysisConfig'
+
+describe('sanitizeAnalysisConfig', () => {
+  it('fills missing keys from the default preset', () => {
+    expect(sanitizeAnalysisConfig({ roadProximityMeters: 12 })).toEqual({
+      ...DEFAULT_ANALYSIS_CONFIG,
+      roadProximityMeters: 12,
+    })
+  })
+
+  it('ignores negative, non-numeric and unknown values', () => {
+    expect(
+      sanitizeAnalysisConfig({
+        roadProximityMeters: -1,
+        laneProximityMeters: '30',
+        orientationWeight: null,
+        somethingElse: 4,
+      }),
+    ).toEqual(DEFAULT_ANALYSIS_CONFIG)
+  })
+
+  it('returns the defaults for non-objects', () => {
+    expect(sanitizeAnalysisConfig('nope')).toEqual(DEFAULT_ANALYSIS_CONFIG)
+  })
+})
+
+describe('matchAnalysisPreset', () => {
+  it('recognises each named preset', () => {
+    expect(matchAnalysisPreset({ ...ANALYSIS_PRESETS.strict })).toBe('strict')
+    expect(matchAnalysisPreset({ ...ANALYSIS_PRESETS.default })).toBe('default')
+    expect(matchAnalysisPreset({ ...ANALYSIS_PRESETS.permissive })).toBe('permissive')
+  })
+
+  it('returns null for a custom calibration', () => {
+    expect(matchAnalysisPreset({ ...DEFAULT_ANALYSIS_CONFIG, orientationWeight: 0.5 })).toBeNull()
+  })
+})
+
+describe('ANALYSIS_CONFIG_FIELDS', () => {
+  it('has a slider for every config key', () => {
+    expect(ANALYSIS_CONFIG_FIELDS.map((field) => field.key).sort()).toEqual(
+      Object.keys(DEFAULT_ANALYSIS_CONFIG).sort(),
+    )
+  })
+})
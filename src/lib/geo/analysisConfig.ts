@@ -0,0 +1,154 @@
+export interface AnalysisConfig {
+  roadProximityMeters: number
+  laneProximityMeters: number
+  roadOrientationDeg: number
+  laneOrientationDeg: number
+  relaxedFrontageStreetDistanceMeters: number
+  relaxedFrontageStreetOrientationDeg: number
+  relaxedFlankageStreetDistanceMeters: number
+  relaxedFlankageStreetOrientationDeg: number
+  relaxedLaneDistanceMeters: number
+  relaxedLaneOrientationDeg: number
+  oppositeEdgeStrictOrientationDeg: number
+  oppositeEdgeRelaxedOrientationDeg: number
+  edgeSelectionDistanceTieMeters: number
+  edgeSelectionLengthTieMeters: number
+  // Metres of distance one degree of orientation difference is worth when ranking road candidates.
+  orientationWeight: number
+  // Share of frontage-to-edge midpoint distance added to perpendicular distance when picking the opposite edge.
+  oppositeMidpointWeight: number
+  // Consecutive ring segments turning by at most this much are merged into one lot side.
+  edgeMergeToleranceDeg: number
+  // Ring segments shorter than this are folded into a neighbouring side.
+  edgeMinSegmentMeters: number
+}
+
+export type AnalysisConfigKey = keyof AnalysisConfig
+export type AnalysisPresetName = 'strict' | 'default' | 'permissive'
+
+export const ANALYSIS_PRESET_NAMES: AnalysisPresetName[] = ['strict', 'default', 'permissive']
+
+export const ANALYSIS_PRESETS: Record<AnalysisPresetName, AnalysisConfig> = {
+  strict: {
+    roadProximityMeters: 15,
+    laneProximityMeters: 22,
+    roadOrientationDeg: 40,
+    laneOrientationDeg: 70,
+    relaxedFrontageStreetDistanceMeters: 24,
+    relaxedFrontageStreetOrientationDeg: 70,
+    relaxedFlankageStreetDistanceMeters: 18,
+    relaxedFlankageStreetOrientationDeg: 55,
+    relaxedLaneDistanceMeters: 32,
+    relaxedLaneOrientationDeg: 90,
+    oppositeEdgeStrictOrientationDeg: 30,
+    oppositeEdgeRelaxedOrientationDeg: 50,
+    edgeSelectionDistanceTieMeters: 2,
+    edgeSelectionLengthTieMeters: 1,
+    orientationWeight: 0.6,
+    oppositeMidpointWeight: 0.2,
+    edgeMergeToleranceDeg: 5,
+    edgeMinSegmentMeters: 0.3,
+  },
+  // Tuned for MVP balance: stricter street proximity to reduce frontage/flankage false positives.
+  default: {
+    roadProximityMeters: 20,
+    laneProximityMeters: 28,
+    roadOrientationDeg: 55,
+    laneOrientationDeg: 85,
+    relaxedFrontageStreetDistanceMeters: 30,
+    relaxedFrontageStreetOrientationDeg: 85,
+    relaxedFlankageStreetDistanceMeters: 24,
+    relaxedFlankageStreetOrientationDeg: 70,
+    relaxedLaneDistanceMeters: 42,
+    relaxedLaneOrientationDeg: 110,
+    oppositeEdgeStrictOrientationDeg: 38,
+    oppositeEdgeRelaxedOrientationDeg: 62,
+    edgeSelectionDistanceTieMeters: 3,
+    edgeSelectionLengthTieMeters: 1,
+    orientationWeight: 0.45,
+    oppositeMidpointWeight: 0.2,
+    edgeMergeToleranceDeg: 8,
+    edgeMinSegmentMeters: 0.5,
+  },
+  permissive: {
+    roadProximityMeters: 26,
+    laneProximityMeters: 34,
+    roadOrientationDeg: 65,
+    laneOrientationDeg: 90,
+    relaxedFrontageStreetDistanceMeters: 38,
+    relaxedFrontageStreetOrientationDeg: 90,
+    relaxedFlankageStreetDistanceMeters: 30,
+    relaxedFlankageStreetOrientationDeg: 80,
+    relaxedLaneDistanceMeters: 50,
+    relaxedLaneOrientationDeg: 110,
+    oppositeEdgeStrictOrientationDeg: 45,
+    oppositeEdgeRelaxedOrientationDeg: 70,
+    edgeSelectionDistanceTieMeters: 4,
+    edgeSelectionLengthTieMeters: 1.5,
+    orientationWeight: 0.35,
+    oppositeMidpointWeight: 0.2,
+    edgeMergeToleranceDeg: 12,
+    edgeMinSegmentMeters: 1,
+  },
+}
+
+export const DEFAULT_ANALYSIS_CONFIG: AnalysisConfig = ANALYSIS_PRESETS.default
+
+export interface AnalysisConfigField {
+  key: AnalysisConfigKey
+  label: string
+  min: number
+  max: number
+  step: number
+  unit: 'm' | 'deg' | ''
+}
+
+// Slider ranges for the debug panel; values outside these ranges are still accepted on import.
+export const ANALYSIS_CONFIG_FIELDS: AnalysisConfigField[] = [
+  { key: 'roadProximityMeters', label: 'Street distance', min: 0, max: 60, step: 1, unit: 'm' },
+  { key: 'roadOrientationDeg', label: 'Street angle', min: 0, max: 90, step: 1, unit: 'deg' },
+  { key: 'laneProximityMeters', label: 'Lane distance', min: 0, max: 60, step: 1, unit: 'm' },
+  { key: 'laneOrientationDeg', label: 'Lane angle', min: 0, max: 120, step: 1, unit: 'deg' },
+  { key: 'relaxedFrontageStreetDistanceMeters', label: 'Relaxed frontage distance', min: 0, max: 80, step: 1, unit: 'm' },
+  { key: 'relaxedFrontageStreetOrientationDeg', label: 'Relaxed frontage angle', min: 0, max: 120, step: 1, unit: 'deg' },
+  { key: 'relaxedFlankageStreetDistanceMeters', label: 'Relaxed flankage distance', min: 0, max: 80, step: 1, unit: 'm' },
+  { key: 'relaxedFlankageStreetOrientationDeg', label: 'Relaxed flankage angle', min: 0, max: 120, step: 1, unit: 'deg' },
+  { key: 'relaxedLaneDistanceMeters', label: 'Relaxed lane distance', min: 0, max: 80, step: 1, unit: 'm' },
+  { key: 'relaxedLaneOrientationDeg', label: 'Relaxed lane angle', min: 0, max: 120, step: 1, unit: 'deg' },
+  { key: 'oppositeEdgeStrictOrientationDeg', label: 'Opposite edge angle', min: 0, max: 90, step: 1, unit: 'deg' },
+  { key: 'oppositeEdgeRelaxedOrientationDeg', label: 'Opposite edge relaxed angle', min: 0, max: 90, step: 1, unit: 'deg' },
+  { key: 'edgeSelectionDistanceTieMeters', label: 'Distance tie', min: 0, max: 10, step: 0.5, unit: 'm' },
+  { key: 'edgeSelectionLengthTieMeters', label: 'Length tie', min: 0, max: 10, step: 0.5, unit: 'm' },
+  { key: 'orientationWeight', label: 'Orientation weight', min: 0, max: 2, step: 0.05, unit: '' },
+  { key: 'oppositeMidpointWeight', label: 'Opposite midpoint weight', min: 0, max: 1, step: 0.05, unit: '' },
+  { key: 'edgeMergeToleranceDeg', label: 'Edge merge angle', min: 0, max: 30, step: 1, unit: 'deg' },
+  { key: 'edgeMinSegmentMeters', label: 'Min edge segment', min: 0, max: 3, step: 0.1, unit: 'm' },
+]
+
+export function isAnalysisPresetName(value: unknown): value is AnalysisPresetName {
+  return value === 'strict' || value === 'default' || value === 'permissive'
+}
+
+export function sanitizeAnalysisConfig(raw: unknown): AnalysisConfig {
+  // Unknown or missing keys fall back to the default preset so older exports keep loading.
+  const config: AnalysisConfig = { ...DEFAULT_ANALYSIS_CONFIG }
+  if (!raw || typeof raw !== 'object') return config
+
+  const source = raw as Record<string, unknown>
+  for (const key of Object.keys(config) as AnalysisConfigKey[]) {
+    const value = source[key]
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      config[key] = value
+    }
+  }
+  return config
+}
+
+export function matchAnalysisPreset(config: AnalysisConfig): AnalysisPresetName | null {
+  for (const name of ANALYSIS_PRESET_NAMES) {
+    const preset = ANALYSIS_PRESETS[name]
+    const keys = Object.keys(preset) as AnalysisConfigKey[]
+    if (keys.every((key) => preset[key] === config[key])) return name
+  }
+  return null
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import type { ParcelFeature, Position, RoadFeature } from '../../types/parcel'
+import { assembleParcels } from './assembly'
+import { analyzeParcel } from './parcelAnalysis'
+import { createLocalRoadNetwork } from './roadNetwork'
+
+// Local metres around Vancouver, same origin as the classification fixtures.
+const LAT0 = 49.26
+const LON0 = -123.1
+const METRES_PER_DEG_LAT = 111320
+const METRES_PER_DEG_LON = 111320 * Math.cos((LAT0 * Math.PI) / 180)
+
+function at(x: number, y: number): Position {
+  return [LON0 + x / METRES_PER_DEG_LON, LAT0 + y / METRES_PER_DEG_LAT]
+}
+
+function lot(id: string, civicNumber: string, x0: number, x1: number): ParcelFeature {
+  const [lon, lat] = at((x0 + x1) / 2, 18)
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[at(x0, 0), at(x1, 0), at(x1, 36), at(x0, 36), at(x0, 0)]],
+    },
+    properties: {
+      id,
+      siteId: id,
+      taxCoord: '',
+      civicNumber,
+      streetName: 'MAIN ST',
+      fullAddress: `${civicNumber} MAIN ST`,
+      lon,
+      lat,
+      zoningCode: 'RS-1',
+    },
+  }
+}
+
+function road(name: string, kind: 'street' | 'lane', y: number): RoadFeature {
+  return {
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: [at(-100, y), at(200, y)] },
+    properties: { name, roadClass: kind, kind },
+  }
+}
+
+const roads = createLocalRoadNetwork({
+  type: 'FeatureCollection',
+  features: [road('MAIN ST', 'street', -10), road('LANE', 'lane', 39)],
+})
+
+describe('assembleParcels', () => {
+  it('needs at least two parcels', () => {
+    expect(assembleParcels([lot('a', '100', 0, 10)])).toBeNull()
+  })
+
+  it('merges adjacent lots into one site and analyzes it as a whole', () => {
+    const assembly = assembleParcels([lot('a', '100', 0, 10), lot('b', '110', 10, 20)])
+    expect(assembly?.partCount).toBe(1)
+    expect(assembly?.site.properties.streetName).toBe('MAIN ST')
+    expect(assembly?.site.properties.zoningCode).toBe('RS-1')
+    if (!assembly) return
+
+    const analysis = analyzeParcel(assembly.site, roads)
+    expect(analysis.areaM2).toBeCloseTo(720, -1)
+    expect(analysis.lotType).toBe('Standard with Lane')
+    expect(analysis.primaryStreet).toBe('MAIN ST')
+    // The shared lot line disappears, so the frontage spans both lots.
+    expect(analysis.edges).toHaveLength(4)
+    expect(analysis.dimensions.frontageWidthMeters).toBeCloseTo(20, 1)
+  })
+
+  it('reports lots that do not touch as separate pieces', () => {
+    const assembly = assembleParcels([lot('a', '100', 0, 10), lot('c', '130', 30, 40)])
+    expect(assembly?.partCount).toBe(2)
+  })
+})
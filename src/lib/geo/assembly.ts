@@ -0,0 +1,72 @@
+import { featureCollection, pointOnFeature, union } from '@turf/turf'
+import type { Feature, MultiPolygon, Polygon } from 'geojson'
+import type { ParcelFeature, ParcelGeometry } from '../../types/parcel'
+
+export const ASSEMBLY_ID_PREFIX = 'assembly:'
+
+export interface SiteAssembly {
+  // The combined site, shaped like a parcel so it runs through the same analysis.
+  site: ParcelFeature
+  parcels: ParcelFeature[]
+  // More than one when some selected parcels do not touch the rest.
+  partCount: number
+}
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>()
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1)
+  }
+  let best = ''
+  let bestCount = 0
+  // Ties go to the earliest selected parcel.
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value
+      bestCount = count
+    }
+  }
+  return best
+}
+
+export function assembleParcels(parcels: ParcelFeature[]): SiteAssembly | null {
+  if (parcels.length < 2) return null
+
+  const merged = union(
+    featureCollection<Polygon | MultiPolygon>(
+      parcels.map((parcel) => ({
+        type: 'Feature',
+        geometry: parcel.geometry as Polygon | MultiPolygon,
+        properties: {},
+      })),
+    ),
+  )
+  if (!merged) return null
+
+  const geometry = merged.geometry as ParcelGeometry
+  const [lon, lat] = pointOnFeature(merged as Feature<Polygon | MultiPolygon>).geometry
+    .coordinates as [number, number]
+  const zoningCodes = [...new Set(parcels.map((parcel) => parcel.properties.zoningCode).filter(Boolean))]
+
+  return {
+    site: {
+      type: 'Feature',
+      geometry,
+      properties: {
+        id: `${ASSEMBLY_ID_PREFIX}${parcels.map((parcel) => parcel.properties.id).join('+')}`,
+        siteId: '',
+        taxCoord: '',
+        civicNumber: '',
+        // The street most of the lots are addressed on drives primary-street matching; the
+        // address has no civic number, so the analysis falls back to it.
+        streetName: mostCommon(parcels.map((parcel) => parcel.properties.streetName)),
+        fullAddress: `Assembly of ${parcels.length} parcels`,
+        lon,
+        lat,
+        zoningCode: zoningCodes.join(' / '),
+      },
+    },
+    parcels,
+    partCount: geometry.type === 'MultiPolygon' ? geometry.coordinates.length : 1,
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import type { ParcelFeature, Position, RoadFeature } from '../../types/parcel'
+import { computeBuildableEnvelope } from './buildableEnvelope'
+import { analyzeParcel } from './parcelAnalysis'
+import { createLocalRoadNetwork } from './roadNetwork'
+import { DEFAULT_SETBACKS, type SetbackConfig } from './setbacks'
+
+// Local metres around Vancouver, same origin as the classification fixtures.
+const LAT0 = 49.26
+const LON0 = -123.1
+const METRES_PER_DEG_LAT = 111320
+const METRES_PER_DEG_LON = 111320 * Math.cos((LAT0 * Math.PI) / 180)
+
+function at(x: number, y: number): Position {
+  return [LON0 + x / METRES_PER_DEG_LON, LAT0 + y / METRES_PER_DEG_LAT]
+}
+
+function road(name: string, kind: 'street' | 'lane', from: [number, number], to: [number, number]): RoadFeature {
+  return {
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: [at(...from), at(...to)] },
+    properties: { name, roadClass: kind === 'lane' ? 'lane' : 'arterial', kind },
+  }
+}
+
+function lot(...points: Array<[number, number]>): ParcelFeature {
+  const ring = points.map(([x, y]) => at(x, y))
+  return {
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: [[...ring, ring[0]!]] },
+    properties: {
+      id: 'envelope-test',
+      siteId: 'envelope-test',
+      taxCoord: '',
+      civicNumber: '120',
+      streetName: 'MAIN ST',
+      fullAddress: '120 MAIN ST',
+      lon: ring[0]![0],
+      lat: ring[0]![1],
+      zoningCode: '',
+    },
+  }
+}
+
+const roads = createLocalRoadNetwork({
+  type: 'FeatureCollection',
+  features: [
+    road('MAIN ST', 'street', [-100, -10], [100, -10]),
+    road('', 'lane', [-5, 39], [100, 39]),
+  ],
+})
+
+function envelopeFor(parcel: ParcelFeature, setbacks: SetbackConfig = DEFAULT_SETBACKS) {
+  return computeBuildableEnvelope(parcel, analyzeParcel(parcel, roads), setbacks)
+}
+
+describe('computeBuildableEnvelope', () => {
+  it('offsets each edge by the setback for its type', () => {
+    // 10 m x 36 m standard lot with a lane: (10 - 2 x 1.2) x (36 - 6 - 10.7).
+    const envelope = envelopeFor(lot([0, 0], [10, 0], [10, 36], [0, 36]))
+    expect(envelope.areaM2).toBeCloseTo(7.6 * 19.3, 0)
+    expect(envelope.coverageRatio).toBeCloseTo((7.6 * 19.3) / 360, 2)
+  })
+
+  it('returns the whole lot when every setback is zero', () => {
+    const zero: SetbackConfig = { Frontage: 0, Flankage: 0, 'Rear Lane': 0, Rear: 0, Side: 0 }
+    const envelope = envelopeFor(lot([0, 0], [10, 0], [10, 36], [0, 36]), zero)
+    expect(envelope.coverageRatio).toBeCloseTo(1, 5)
+  })
+
+  it('reports no envelope when the setbacks cover the lot', () => {
+    const envelope = envelopeFor(lot([0, 0], [10, 0], [10, 12], [0, 12]))
+    expect(envelope.geometry).toBeNull()
+    expect(envelope.areaM2).toBe(0)
+  })
+
+  it('keeps the setback around a reflex corner', () => {
+    // L-shaped lot; the envelope must stay 1.2 m clear of the inner corner at (10, 20).
+    const envelope = envelopeFor(lot([0, 0], [20, 0], [20, 20], [10, 20], [10, 36], [0, 36]))
+    expect(envelope.geometry).not.toBeNull()
+    const coordinates =
+      envelope.geometry?.type === 'Polygon' ? envelope.geometry.coordinates.flat() : []
+    const corner = at(10, 20)
+    for (const [lon, lat] of coordinates) {
+      const dx = (lon - corner[0]) * METRES_PER_DEG_LON
+      const dy = (lat - corner[1]) * METRES_PER_DEG_LAT
+      expect(Math.hypot(dx, dy)).toBeGreaterThan(1.19)
+    }
+  })
+})
@@ -0,0 +1,100 @@
+import { area, difference, featureCollection } from '@turf/turf'
+import type { Feature, MultiPolygon, Polygon } from 'geojson'
+import type {
+  BuildableEnvelope,
+  ParcelAnalysis,
+  ParcelFeature,
+  ParcelGeometry,
+  Position,
+} from '../../types/parcel'
+import { createLocalProjection, type LocalPoint, type LocalProjection } from './localProjection'
+import type { SetbackConfig } from './setbacks'
+
+const CAP_SEGMENTS = 16
+
+function toPolygonFeature(ring: Position[]): Feature<Polygon> {
+  return {
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: [ring] },
+    properties: {},
+  }
+}
+
+// Everything within `setback` metres of one lot-line segment: a rectangle with round ends.
+function segmentSetbackZone(
+  start: Position,
+  end: Position,
+  setback: number,
+  projection: LocalProjection,
+): Feature<Polygon>[] {
+  const a = projection.toLocal(start)
+  const b = projection.toLocal(end)
+  const length = Math.hypot(b[0] - a[0], b[1] - a[1])
+  if (length === 0) return []
+
+  const nx = (-(b[1] - a[1]) / length) * setback
+  const ny = ((b[0] - a[0]) / length) * setback
+  const strip: LocalPoint[] = [
+    [a[0] + nx, a[1] + ny],
+    [b[0] + nx, b[1] + ny],
+    [b[0] - nx, b[1] - ny],
+    [a[0] - nx, a[1] - ny],
+    [a[0] + nx, a[1] + ny],
+  ]
+
+  // The round caps keep reflex corners covered where two strips would leave a wedge.
+  const caps = [a, b].map((centre) => {
+    const ring: LocalPoint[] = []
+    for (let step = 0; step <= CAP_SEGMENTS; step += 1) {
+      const angle = (2 * Math.PI * (step % CAP_SEGMENTS)) / CAP_SEGMENTS
+      ring.push([centre[0] + Math.cos(angle) * setback, centre[1] + Math.sin(angle) * setback])
+    }
+    return ring
+  })
+
+  return [strip, ...caps].map((ring) => toPolygonFeature(ring.map(projection.toPosition)))
+}
+
+// The buildable area is every point of the lot that is at least the setback for its type away
+// from each classified edge. Holes stay holes; they carry no setback of their own.
+export function computeBuildableEnvelope(
+  parcel: ParcelFeature,
+  analysis: ParcelAnalysis,
+  setbacks: SetbackConfig,
+): BuildableEnvelope {
+  const lot: Feature<Polygon | MultiPolygon> = {
+    type: 'Feature',
+    geometry: parcel.geometry,
+    properties: {},
+  }
+  const origin = analysis.edges[0]?.start
+  if (!origin) {
+    return { geometry: parcel.geometry, areaM2: analysis.areaM2, coverageRatio: 1 }
+  }
+
+  const projection = createLocalProjection(origin)
+  const zones: Feature<Polygon>[] = []
+  for (const edge of analysis.edges) {
+    const setback = setbacks[edge.type]
+    if (!(setback > 0)) continue
+    for (let index = 0; index < edge.vertices.length - 1; index += 1) {
+      const start = edge.vertices[index]
+      const end = edge.vertices[index + 1]
+      if (!start || !end) continue
+      zones.push(...segmentSetbackZone(start, end, setback, projection))
+    }
+  }
+
+  const envelope = zones.length > 0 ? difference(featureCollection([lot, ...zones])) : lot
+  if (!envelope) {
+    return { geometry: null, areaM2: 0, coverageRatio: 0 }
+  }
+
+  const areaM2 = area(envelope)
+  return {
+    // Clipping only produces 2D positions, so the result fits the parcel geometry type.
+    geometry: envelope.geometry as ParcelGeometry,
+    areaM2,
+    coverageRatio: analysis.areaM2 > 0 ? areaM2 / analysis.areaM2 : 0,
+  }
+}
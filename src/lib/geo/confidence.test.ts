@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import type { ConfidenceEvidence } from '../../types/parcel'
+import { confidenceLevel, marginImpact, scoreEvidence, topNegativeEvidence } from './confidence'
+
+function item(label: string, impact: number): ConfidenceEvidence {
+  return { factor: 'relaxed-match', label, impact }
+}
+
+describe('scoreEvidence', () => {
+  it('starts at 1 and clamps to 0', () => {
+    expect(scoreEvidence([])).toBe(1)
+    expect(scoreEvidence([item('a', -0.25)])).toBeCloseTo(0.75, 5)
+    expect(scoreEvidence([item('a', -0.6), item('b', -0.6)])).toBe(0)
+  })
+})
+
+describe('confidenceLevel', () => {
+  it('buckets the score', () => {
+    expect(confidenceLevel(0.8)).toBe('high')
+    expect(confidenceLevel(0.79)).toBe('medium')
+    expect(confidenceLevel(0.5)).toBe('medium')
+    expect(confidenceLevel(0.49)).toBe('low')
+  })
+})
+
+describe('marginImpact', () => {
+  it('only penalises the far half of the allowed range', () => {
+    expect(marginImpact(5, 20, -0.1)).toBe(0)
+    expect(marginImpact(15, 20, -0.1)).toBeCloseTo(-0.05, 5)
+    expect(marginImpact(20, 20, -0.1)).toBeCloseTo(-0.1, 5)
+    expect(marginImpact(30, 20, -0.1)).toBeCloseTo(-0.1, 5)
+  })
+})
+
+describe('topNegativeEvidence', () => {
+  it('returns the most damaging factors first', () => {
+    const evidence = [item('neutral', 0), item('small', -0.05), item('large', -0.25), item('mid', -0.1)]
+    expect(topNegativeEvidence(evidence, 2).map((entry) => entry.label)).toEqual(['large', 'mid'])
+  })
+})
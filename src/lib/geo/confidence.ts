@@ -0,0 +1,48 @@
+import type { ConfidenceEvidence, ConfidenceLevel } from '../../types/parcel'
+
+// Score changes per piece of evidence. A clean strict match on the primary street keeps 1.
+export const CONFIDENCE_IMPACTS = {
+  primaryStreetMismatch: -0.25,
+  noStreetEvidence: -0.6,
+  relaxedMatch: -0.2,
+  // Largest penalty for a match right at its distance or angle limit.
+  distanceMargin: -0.1,
+  orientationMargin: -0.1,
+  conflictingCandidate: -0.15,
+  unusedStreetNearby: -0.1,
+}
+
+const HIGH_CONFIDENCE_MIN_SCORE = 0.8
+const MEDIUM_CONFIDENCE_MIN_SCORE = 0.5
+// Margin penalties below this are noise and are not reported.
+const MIN_REPORTED_IMPACT = 0.005
+
+export function scoreEvidence(evidence: ConfidenceEvidence[]): number {
+  const total = evidence.reduce((sum, item) => sum + item.impact, 1)
+  return Math.min(1, Math.max(0, total))
+}
+
+export function confidenceLevel(score: number): ConfidenceLevel {
+  if (score >= HIGH_CONFIDENCE_MIN_SCORE) return 'high'
+  if (score >= MEDIUM_CONFIDENCE_MIN_SCORE) return 'medium'
+  return 'low'
+}
+
+// No penalty in the nearer half of the allowed range, then a linear ramp to `maxImpact` at the limit.
+export function marginImpact(value: number, limit: number, maxImpact: number): number {
+  if (!(limit > 0)) return 0
+  const usage = Math.min(1, Math.max(0, (value / limit - 0.5) / 0.5))
+  const impact = maxImpact * usage
+  return Math.abs(impact) < MIN_REPORTED_IMPACT ? 0 : impact
+}
+
+// Most damaging first; evidence that did not lower the score is left out.
+export function topNegativeEvidence(
+  evidence: ConfidenceEvidence[],
+  count: number,
+): ConfidenceEvidence[] {
+  return evidence
+    .filter((item) => item.impact < 0)
+    .sort((a, b) => a.impact - b.impact)
+    .slice(0, count)
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { formatCoordinate, parseCoordinateInput, utmToLonLat } from './coordinateInput'
+
+// Vancouver City Centre, in every format colleagues tend to paste.
+const LAT = 49.2827
+const LON = -123.1207
+
+function expectVancouver(input: string, format: string, digits = 4) {
+  const parsed = parseCoordinateInput(input)
+  expect(parsed?.format).toBe(format)
+  expect(parsed?.lat).toBeCloseTo(LAT, digits)
+  expect(parsed?.lon).toBeCloseTo(LON, digits)
+}
+
+describe('parseCoordinateInput', () => {
+  it('reads decimal degrees in either order', () => {
+    expectVancouver('49.2827, -123.1207', 'decimal')
+    expectVancouver('49.2827 -123.1207', 'decimal')
+    expectVancouver('-123.1207, 49.2827', 'decimal')
+  })
+
+  it('reads degrees, minutes and seconds with hemisphere letters', () => {
+    expectVancouver(`49°16'57.72"N 123°07'14.52"W`, 'dms')
+    expectVancouver('49° 16′ 57.72″ N, 123° 7′ 14.52″ W', 'dms')
+    expectVancouver('N 49 16 57.72 W 123 7 14.52', 'dms')
+    expectVancouver('49.2827N 123.1207W', 'dms')
+    expectVancouver(`49°16.962'N 123°07.242'W`, 'dms')
+  })
+
+  it('reads UTM zone 10 with or without the zone prefix', () => {
+    expectVancouver('10U 491222 5458890', 'utm')
+    expectVancouver('UTM 10N 491221.8E 5458890.0N', 'utm')
+    expectVancouver('491222 5458890', 'utm')
+  })
+
+  it('reads common map links', () => {
+    expectVancouver('https://www.google.com/maps/@49.2827,-123.1207,17z', 'url')
+    expectVancouver(
+      'https://www.google.com/maps/place/Vancouver/@49.29,-123.13,15z/data=!3m1!4b1!4m5!3m4!1s0x0:0x0!8m2!3d49.2827!4d-123.1207',
+      'url',
+    )
+    expectVancouver('https://maps.google.com/?q=49.2827,-123.1207', 'url')
+    expectVancouver('https://www.openstreetmap.org/#map=18/49.2827/-123.1207', 'url')
+    expectVancouver('https://www.openstreetmap.org/?mlat=49.2827&mlon=-123.1207', 'url')
+    expectVancouver('https://maps.apple.com/?ll=49.2827,-123.1207&z=17', 'url')
+    expectVancouver('https://www.bing.com/maps?cp=49.2827~-123.1207&lvl=17', 'url')
+  })
+
+  it('leaves addresses and out-of-range values alone', () => {
+    expect(parseCoordinateInput('1234 MAIN ST')).toBeNull()
+    expect(parseCoordinateInput('1200 12')).toBeNull()
+    expect(parseCoordinateInput('W 4TH AVE')).toBeNull()
+    expect(parseCoordinateInput('120.5, 200.1')).toBeNull()
+    expect(parseCoordinateInput('https://example.com/about')).toBeNull()
+    expect(parseCoordinateInput('')).toBeNull()
+  })
+})
+
+describe('utmToLonLat', () => {
+  it('puts the zone 10 central meridian at -123 degrees', () => {
+    const [lon, lat] = utmToLonLat(10, 500000, 0)
+    expect(lon).toBeCloseTo(-123, 9)
+    expect(lat).toBeCloseTo(0, 9)
+  })
+
+  it('handles southern-hemisphere northings', () => {
+    const [lon, lat] = utmToLonLat(10, 500000, 10000000, false)
+    expect(lon).toBeCloseTo(-123, 9)
+    expect(lat).toBeCloseTo(0, 9)
+  })
+})
+
+describe('formatCoordinate', () => {
+  it('prints latitude first', () => {
+    expect(formatCoordinate({ lon: LON, lat: LAT })).toBe('49.282700, -123.120700')
+  })
+})
@@ -0,0 +1,212 @@
+import type { Position } from '../../types/parcel'
+
+export type CoordinateFormat = 'decimal' | 'dms' | 'utm' | 'url'
+
+export interface ParsedCoordinate {
+  lon: number
+  lat: number
+  format: CoordinateFormat
+}
+
+// Vancouver sits in UTM zone 10 north, so bare easting/northing pairs are read in that zone.
+const DEFAULT_UTM_ZONE = 10
+
+const WGS84_A = 6378137
+const WGS84_F = 1 / 298.257223563
+const UTM_SCALE = 0.9996
+const UTM_FALSE_EASTING = 500000
+const UTM_FALSE_NORTHING_SOUTH = 10000000
+
+const DECIMAL_PATTERN = /^(-?\d{1,3}(?:\.\d+)?)\s*(?:,|;|\s)\s*(-?\d{1,3}(?:\.\d+)?)$/
+const UTM_PATTERN =
+  /^(?:(\d{1,2})\s*([C-HJ-NP-X])?\s+)?(\d{6}(?:\.\d+)?)\s*(?:m\s*)?E?\s*[,\s]\s*(\d{7}(?:\.\d+)?)\s*(?:m\s*)?N?$/i
+const DMS_PART_PATTERN =
+  /^([NSEW])?\s*(-?\d{1,3}(?:\.\d+)?)\s*(?:°|\s)?\s*(?:(\d{1,2}(?:\.\d+)?)\s*(?:'|\s)?\s*)?(?:(\d{1,2}(?:\.\d+)?)\s*"?\s*)?([NSEW])?$/i
+
+function isValid(lon: number, lat: number): boolean {
+  return (
+    Number.isFinite(lon) &&
+    Number.isFinite(lat) &&
+    Math.abs(lat) <= 90 &&
+    Math.abs(lon) <= 180
+  )
+}
+
+function result(lon: number, lat: number, format: CoordinateFormat): ParsedCoordinate | null {
+  return isValid(lon, lat) ? { lon, lat, format } : null
+}
+
+// "lat, lon" is the usual order; a first value outside ±90 can only be a longitude.
+function fromPair(first: number, second: number, format: CoordinateFormat) {
+  if (Math.abs(first) > 90 && Math.abs(second) <= 90) return result(first, second, format)
+  return result(second, first, format)
+}
+
+// Inverse transverse Mercator on WGS84 (Snyder's series), accurate to well under a metre.
+export function utmToLonLat(
+  zone: number,
+  easting: number,
+  northing: number,
+  northern = true,
+): Position {
+  const e2 = WGS84_F * (2 - WGS84_F)
+  const ep2 = e2 / (1 - e2)
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2))
+
+  const x = easting - UTM_FALSE_EASTING
+  const y = northern ? northing : northing - UTM_FALSE_NORTHING_SOUTH
+  const mu =
+    y / UTM_SCALE / (WGS84_A * (1 - e2 / 4 - (3 * e2 ** 2) / 64 - (5 * e2 ** 3) / 256))
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu)
+
+  const sinPhi = Math.sin(phi1)
+  const cosPhi = Math.cos(phi1)
+  const tanPhi = Math.tan(phi1)
+  const n1 = WGS84_A / Math.sqrt(1 - e2 * sinPhi ** 2)
+  const t1 = tanPhi ** 2
+  const c1 = ep2 * cosPhi ** 2
+  const r1 = (WGS84_A * (1 - e2)) / (1 - e2 * sinPhi ** 2) ** 1.5
+  const d = x / (n1 * UTM_SCALE)
+
+  const lat =
+    phi1 -
+    ((n1 * tanPhi) / r1) *
+      (d ** 2 / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * ep2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * ep2 - 3 * c1 ** 2) * d ** 6) / 720)
+  const lon =
+    (d -
+      ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * ep2 + 24 * t1 ** 2) * d ** 5) / 120) /
+    cosPhi
+
+  const centralMeridian = (zone - 1) * 6 - 180 + 3
+  return [centralMeridian + (lon * 180) / Math.PI, (lat * 180) / Math.PI]
+}
+
+function parseUtm(text: string): ParsedCoordinate | null {
+  const match = UTM_PATTERN.exec(text.replace(/^utm\s*/i, '').replace(/^zone\s*/i, ''))
+  if (!match) return null
+  const zone = match[1] ? Number(match[1]) : DEFAULT_UTM_ZONE
+  if (zone < 1 || zone > 60) return null
+  // Latitude bands C to M are south of the equator.
+  const band = match[2]?.toUpperCase()
+  const northern = !band || band >= 'N'
+  const [lon, lat] = utmToLonLat(zone, Number(match[3]), Number(match[4]), northern)
+  return result(lon, lat, 'utm')
+}
+
+function parseDmsPart(part: string): { value: number; axis: 'lat' | 'lon' | null } | null {
+  const match = DMS_PART_PATTERN.exec(part.trim())
+  if (!match) return null
+  const [, before, degreesText = '', minutesText, secondsText, after] = match
+  if (before && after) return null
+  const hemisphere = (before ?? after)?.toUpperCase()
+  const degrees = Number(degreesText)
+  const minutes = minutesText ? Number(minutesText) : 0
+  const seconds = secondsText ? Number(secondsText) : 0
+  if (minutes >= 60 || seconds >= 60) return null
+
+  const magnitude = Math.abs(degrees) + minutes / 60 + seconds / 3600
+  const negative = degrees < 0 || degreesText.startsWith('-') || hemisphere === 'S' || hemisphere === 'W'
+  const axis = hemisphere === 'N' || hemisphere === 'S' ? 'lat' : hemisphere ? 'lon' : null
+  return { value: negative ? -magnitude : magnitude, axis }
+}
+
+// Splits "49°16'57.7"N 123°07'14.5"W" (or the comma-separated form) into its two halves.
+function splitDms(text: string): [string, string] | null {
+  const byComma = text.split(/\s*[,;]\s*/)
+  if (byComma.length === 2 && byComma[0] && byComma[1]) return [byComma[0], byComma[1]]
+  const trailing = /^(.+?[NS])\s*(.+)$/i.exec(text)
+  if (trailing?.[1] && trailing[2]) return [trailing[1], trailing[2]]
+  const leading = /^([NS].+?)\s*([EW].+)$/i.exec(text)
+  if (leading?.[1] && leading[2]) return [leading[1], leading[2]]
+  const bySymbol = /^(.+?["'])\s*(-?\d.*)$/.exec(text)
+  if (bySymbol?.[1] && bySymbol[2]) return [bySymbol[1], bySymbol[2]]
+  return null
+}
+
+function parseDms(text: string): ParsedCoordinate | null {
+  // Without a degree/minute symbol or a hemisphere letter this is a plain decimal pair.
+  if (!/[°'"NSEW]/i.test(text)) return null
+  const halves = splitDms(text)
+  if (!halves) return null
+  const first = parseDmsPart(halves[0])
+  const second = parseDmsPart(halves[1])
+  if (!first || !second) return null
+  if (first.axis && first.axis === second.axis) return null
+
+  if (first.axis === 'lon' || second.axis === 'lat') return result(first.value, second.value, 'dms')
+  return result(second.value, first.value, 'dms')
+}
+
+function parseDecimal(text: string): ParsedCoordinate | null {
+  const match = DECIMAL_PATTERN.exec(text)
+  if (!match?.[1] || !match[2]) return null
+  // Two bare integers are more likely part of an address than a coordinate.
+  if (!text.includes('.') && !text.includes(',')) return null
+  return fromPair(Number(match[1]), Number(match[2]), 'decimal')
+}
+
+function readPair(value: string | null, separator: RegExp): ParsedCoordinate | null {
+  if (!value) return null
+  const parts = value.split(separator).map((part) => Number(part.trim()))
+  const [first, second] = parts
+  if (parts.length < 2 || first === undefined || second === undefined) return null
+  return result(second, first, 'url')
+}
+
+// Google Maps, Apple Maps, OpenStreetMap and Bing links, including the lat/lon pairs in their paths.
+function parseUrl(text: string): ParsedCoordinate | null {
+  if (!/^https?:\/\//i.test(text)) return null
+  let url: URL
+  try {
+    url = new URL(text)
+  } catch {
+    return null
+  }
+  const decoded = decodeURIComponent(url.href)
+
+  // A dropped pin (!3d…!4d…) is more precise than the map centre (@lat,lon).
+  const pin = /!3d(-?\d+(?:\.\d+)?)!4d(-?\d+(?:\.\d+)?)/.exec(decoded)
+  if (pin?.[1] && pin[2]) return result(Number(pin[2]), Number(pin[1]), 'url')
+
+  const params = url.searchParams
+  const mlat = params.get('mlat')
+  const mlon = params.get('mlon')
+  if (mlat && mlon) return result(Number(mlon), Number(mlat), 'url')
+
+  for (const key of ['q', 'query', 'll', 'sll', 'destination', 'daddr', 'center']) {
+    const parsed = readPair(params.get(key), /,/)
+    if (parsed) return parsed
+  }
+  const bing = readPair(params.get('cp'), /~/)
+  if (bing) return bing
+
+  const centre = /@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/.exec(decoded)
+  if (centre?.[1] && centre[2]) return result(Number(centre[2]), Number(centre[1]), 'url')
+
+  const osm = /#map=\d+(?:\.\d+)?\/(-?\d+(?:\.\d+)?)\/(-?\d+(?:\.\d+)?)/.exec(decoded)
+  if (osm?.[1] && osm[2]) return result(Number(osm[2]), Number(osm[1]), 'url')
+
+  return null
+}
+
+export function parseCoordinateInput(input: string): ParsedCoordinate | null {
+  const text = input
+    .trim()
+    .replace(/[′’‘]/g, "'")
+    .replace(/[″”“]|''/g, '"')
+    .replace(/º/g, '°')
+  if (!text) return null
+  return parseUrl(text) ?? parseUtm(text) ?? parseDecimal(text) ?? parseDms(text)
+}
+
+export function formatCoordinate({ lon, lat }: { lon: number; lat: number }): string {
+  return `${lat.toFixed(6)}, ${lon.toFixed(6)}`
+}
@@ -3,7 +3,14 @@ import type { ParcelAnalysis } from '../../types/parcel'
 
 export type EdgeLineFeatureCollection = FeatureCollection<
   LineString,
-  { edgeType: string; label: string }
+  {
+    index: number
+    edgeType: string
+    label: string
+    partIndex: number
+    segmentCount: number
+    overridden: boolean
+  }
 >
 
 export function toEdgeFeatureCollection(
@@ -22,11 +29,17 @@ export function toEdgeFeatureCollection(
       type: 'Feature',
       geometry: {
         type: 'LineString',
-        coordinates: [edge.start, edge.end],
+        // Draw through the digitised vertices so merged sides still follow the lot line.
+        coordinates: edge.vertices,
       },
       properties: {
+        index: edge.index,
         edgeType: edge.type,
-        label: `${edge.index + 1} ${edge.type}`,
+        // An asterisk marks a manual correction.
+        label: `${edge.index + 1} ${edge.type}${edge.isOverridden ? ' *' : ''}`,
+        partIndex: edge.partIndex,
+        segmentCount: edge.vertices.length - 1,
+        overridden: edge.isOverridden,
       },
     })),
   }
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import type { Position } from '../../types/parcel'
+import { groupRingSegments, segmentsMidpoint, toRingSegments } from './edgeNormalization'
+
+// Local metres around Vancouver, same origin as the classification fixtures.
+const LAT0 = 49.26
+const LON0 = -123.1
+const METRES_PER_DEG_LAT = 111320
+const METRES_PER_DEG_LON = 111320 * Math.cos((LAT0 * Math.PI) / 180)
+
+function at(x: number, y: number): Position {
+  return [LON0 + x / METRES_PER_DEG_LON, LAT0 + y / METRES_PER_DEG_LAT]
+}
+
+const OPTIONS = { toleranceDeg: 8, minLengthMeters: 0.5 }
+
+describe('groupRingSegments', () => {
+  it('keeps a plain rectangle as four sides', () => {
+    const ring = [at(0, 0), at(10, 0), at(10, 36), at(0, 36), at(0, 0)]
+    const groups = groupRingSegments(toRingSegments(ring), OPTIONS)
+    expect(groups.map((group) => group.length)).toEqual([1, 1, 1, 1])
+  })
+
+  it('merges near-collinear vertices into one side', () => {
+    const ring = [at(0, 0), at(5, 0.1), at(10, 0), at(10, 36), at(0, 36), at(0, 0)]
+    const groups = groupRingSegments(toRingSegments(ring), OPTIONS)
+    expect(groups.map((group) => group.length)).toEqual([2, 1, 1, 1])
+  })
+
+  it('starts at a real corner when the ring begins mid-side', () => {
+    const ring = [at(5, 0), at(10, 0), at(10, 36), at(0, 36), at(0, 0), at(5, 0)]
+    const groups = groupRingSegments(toRingSegments(ring), OPTIONS)
+    expect(groups).toHaveLength(4)
+    expect(groups[groups.length - 1]?.map((segment) => segment.end)).toEqual([at(5, 0), at(10, 0)])
+  })
+
+  it('folds a short sliver into a neighbouring side', () => {
+    const ring = [at(0, 0), at(10, 0), at(10, 35.7), at(9.7, 36), at(0, 36), at(0, 0)]
+    const groups = groupRingSegments(toRingSegments(ring), OPTIONS)
+    expect(groups.map((group) => group.length)).toEqual([1, 2, 1, 1])
+  })
+
+  it('keeps every segment when too few corners remain', () => {
+    const ring = [at(0, 0), at(10, 0), at(10, 10), at(0, 10), at(0, 0)]
+    const groups = groupRingSegments(toRingSegments(ring), { ...OPTIONS, toleranceDeg: 90 })
+    expect(groups.map((group) => group.length)).toEqual([1, 1, 1, 1])
+  })
+
+  it('skips repeated vertices', () => {
+    const ring = [at(0, 0), at(10, 0), at(10, 0), at(10, 36), at(0, 36), at(0, 0)]
+    expect(toRingSegments(ring)).toHaveLength(4)
+  })
+})
+
+describe('segmentsMidpoint', () => {
+  it('returns the point halfway along the merged path', () => {
+    const ring = [at(0, 0), at(2, 0), at(10, 0)]
+    const midpoint = segmentsMidpoint(toRingSegments(ring))
+    expect(midpoint?.[0]).toBeCloseTo(at(5, 0)[0], 7)
+    expect(midpoint?.[1]).toBeCloseTo(at(5, 0)[1], 7)
+  })
+})
@@ -0,0 +1,106 @@
+import { bearing, distance, point } from '@turf/turf'
+import type { Position } from '../../types/parcel'
+
+export interface RingSegment {
+  start: Position
+  end: Position
+  lengthMeters: number
+  bearingDeg: number
+}
+
+export interface EdgeNormalizationOptions {
+  // Consecutive segments whose direction changes by at most this much become one logical edge.
+  toleranceDeg: number
+  // Segments shorter than this are folded into a neighbour instead of getting their own label.
+  minLengthMeters: number
+}
+
+function turnAngleDeg(from: RingSegment, to: RingSegment): number {
+  const raw = Math.abs(from.bearingDeg - to.bearingDeg) % 360
+  return raw > 180 ? 360 - raw : raw
+}
+
+export function toRingSegments(ring: Position[]): RingSegment[] {
+  const segments: RingSegment[] = []
+  for (let index = 0; index < ring.length - 1; index += 1) {
+    const start = ring[index]
+    const end = ring[index + 1]
+    if (!start || !end) continue
+    const lengthMeters = distance(point(start), point(end), { units: 'meters' })
+    // Drop repeated vertices; they have no direction and would break the turn-angle test.
+    if (lengthMeters === 0) continue
+    const result = bearing(point(start), point(end))
+    segments.push({
+      start,
+      end,
+      lengthMeters,
+      bearingDeg: Number.isFinite(result) ? result : 0,
+    })
+  }
+  return segments
+}
+
+// Groups the segments of a closed ring into logical lot sides. Each group is a run of
+// consecutive segments in ring order; the first group starts at a real corner.
+export function groupRingSegments(
+  segments: RingSegment[],
+  options: EdgeNormalizationOptions,
+): RingSegment[][] {
+  const count = segments.length
+  if (count <= 3) return segments.map((segment) => [segment])
+
+  const at = (index: number): RingSegment => segments[((index % count) + count) % count]!
+
+  // isCorner[i] marks the vertex where segment i starts.
+  const isCorner = segments.map(
+    (segment, index) => turnAngleDeg(at(index - 1), segment) > options.toleranceDeg,
+  )
+
+  for (let index = 0; index < count; index += 1) {
+    if (at(index).lengthMeters >= options.minLengthMeters) continue
+    // A sliver joins whichever neighbour it bends away from least.
+    const turnIn = turnAngleDeg(at(index - 1), at(index))
+    const turnOut = turnAngleDeg(at(index), at(index + 1))
+    if (turnIn <= turnOut) {
+      isCorner[index] = false
+    } else {
+      isCorner[(index + 1) % count] = false
+    }
+  }
+
+  const firstCorner = isCorner.indexOf(true)
+  const cornerCount = isCorner.filter(Boolean).length
+  // Fewer than three corners cannot describe a lot; keep the digitised segments instead.
+  if (firstCorner < 0 || cornerCount < 3) return segments.map((segment) => [segment])
+
+  const groups: RingSegment[][] = []
+  for (let offset = 0; offset < count; offset += 1) {
+    const index = (firstCorner + offset) % count
+    const segment = at(index)
+    const current = groups[groups.length - 1]
+    if (isCorner[index] || !current) {
+      groups.push([segment])
+    } else {
+      current.push(segment)
+    }
+  }
+  return groups
+}
+
+// Point halfway along a run of segments, so a bent side's midpoint stays on the lot line.
+export function segmentsMidpoint(group: RingSegment[]): Position | null {
+  const totalMeters = group.reduce((sum, segment) => sum + segment.lengthMeters, 0)
+  let remaining = totalMeters / 2
+  for (const segment of group) {
+    if (remaining <= segment.lengthMeters) {
+      const ratio = segment.lengthMeters > 0 ? remaining / segment.lengthMeters : 0
+      return [
+        segment.start[0] + (segment.end[0] - segment.start[0]) * ratio,
+        segment.start[1] + (segment.end[1] - segment.start[1]) * ratio,
+      ]
+    }
+    remaining -= segment.lengthMeters
+  }
+  const last = group[group.length - 1]
+  return last ? last.end : null
+}
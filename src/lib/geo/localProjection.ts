@@ -0,0 +1,25 @@
+import type { Position } from '../../types/parcel'
+
+export type LocalPoint = [number, number]
+
+const METRES_PER_DEGREE_LAT = 111320
+
+// Lots are small enough that an equirectangular projection around one vertex is accurate to centimetres.
+export interface LocalProjection {
+  toLocal: (position: Position) => LocalPoint
+  toPosition: (local: LocalPoint) => Position
+}
+
+export function createLocalProjection(origin: Position): LocalProjection {
+  const metresPerDegreeLon = METRES_PER_DEGREE_LAT * Math.cos((origin[1] * Math.PI) / 180)
+  return {
+    toLocal: ([lon, lat]) => [
+      (lon - origin[0]) * metresPerDegreeLon,
+      (lat - origin[1]) * METRES_PER_DEGREE_LAT,
+    ],
+    toPosition: ([x, y]) => [
+      origin[0] + x / metresPerDegreeLon,
+      origin[1] + y / METRES_PER_DEGREE_LAT,
+    ],
+  }
+}
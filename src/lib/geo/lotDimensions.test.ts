@@ -0,0 +1,117 @@
+import { area } from '@turf/turf'
+import { describe, expect, it } from 'vitest'
+import type { EdgeAnalysis, ParcelGeometry, Position } from '../../types/parcel'
+import { averageDepthMeters, measureLotDimensions, minimumBoundingRectangle } from './lotDimensions'
+
+// Local metres around Vancouver, same origin as the classification fixtures.
+const LAT0 = 49.26
+const LON0 = -123.1
+const METRES_PER_DEG_LAT = 111320
+const METRES_PER_DEG_LON = 111320 * Math.cos((LAT0 * Math.PI) / 180)
+
+function at(x: number, y: number): Position {
+  return [LON0 + x / METRES_PER_DEG_LON, LAT0 + y / METRES_PER_DEG_LAT]
+}
+
+function polygon(...points: Array<[number, number]>): ParcelGeometry {
+  const ring = points.map(([x, y]) => at(x, y))
+  return { type: 'Polygon', coordinates: [[...ring, ring[0]!]] }
+}
+
+function edge(index: number, type: EdgeAnalysis['type'], ...points: Array<[number, number]>): EdgeAnalysis {
+  const vertices = points.map(([x, y]) => at(x, y))
+  let lengthMeters = 0
+  for (let i = 0; i < points.length - 1; i += 1) {
+    const [ax, ay] = points[i]!
+    const [bx, by] = points[i + 1]!
+    lengthMeters += Math.hypot(bx - ax, by - ay)
+  }
+  return {
+    index,
+    partIndex: 0,
+    start: vertices[0]!,
+    end: vertices[vertices.length - 1]!,
+    vertices,
+    midpoint: vertices[0]!,
+    lengthMeters,
+    type,
+    roadKind: null,
+    roadName: '',
+    roadClass: '',
+    roadDistanceMeters: null,
+    orientationDiffDeg: null,
+    isRoadAdjacent: false,
+    confidenceScore: 1,
+    evidence: [],
+    isOverridden: false,
+    debug: '',
+  }
+}
+
+function areaOf(geometry: ParcelGeometry): number {
+  return area({ type: 'Feature', geometry, properties: {} })
+}
+
+describe('minimumBoundingRectangle', () => {
+  it('fits an axis-aligned lot exactly', () => {
+    const rectangle = minimumBoundingRectangle(polygon([0, 0], [10, 0], [10, 36], [0, 36]))
+    expect(rectangle?.widthMeters).toBeCloseTo(10, 1)
+    expect(rectangle?.lengthMeters).toBeCloseTo(36, 1)
+    expect(rectangle?.orientationDeg).toBeCloseTo(0, 0)
+  })
+
+  it('rotates to fit a skewed lot', () => {
+    const c = Math.cos(Math.PI / 6)
+    const s = Math.sin(Math.PI / 6)
+    const rotate = (x: number, y: number): [number, number] => [x * c + y * s, -x * s + y * c]
+    const rectangle = minimumBoundingRectangle(
+      polygon(rotate(0, 0), rotate(10, 0), rotate(10, 36), rotate(0, 36)),
+    )
+    expect(rectangle?.widthMeters).toBeCloseTo(10, 1)
+    expect(rectangle?.lengthMeters).toBeCloseTo(36, 1)
+    expect(rectangle?.orientationDeg).toBeCloseTo(30, 0)
+    expect(rectangle?.corners).toHaveLength(5)
+  })
+})
+
+describe('averageDepthMeters', () => {
+  it('averages the depth of a lot whose rear line is angled', () => {
+    const frontage = edge(0, 'Frontage', [0, 0], [10, 0])
+    const rear = edge(2, 'Rear', [10, 40], [0, 30])
+    expect(averageDepthMeters(frontage, rear)).toBeCloseTo(35, 1)
+  })
+})
+
+describe('measureLotDimensions', () => {
+  const rectangle = polygon([0, 0], [10, 0], [10, 36], [0, 36])
+  const edges = [
+    edge(0, 'Frontage', [0, 0], [10, 0]),
+    edge(1, 'Side', [10, 0], [10, 36]),
+    edge(2, 'Rear Lane', [10, 36], [0, 36]),
+    edge(3, 'Side', [0, 36], [0, 0]),
+  ]
+
+  it('reports width, depth and rectangularity for a standard lot', () => {
+    const dimensions = measureLotDimensions(rectangle, areaOf(rectangle), edges, 0, 2)
+    expect(dimensions.frontageWidthMeters).toBeCloseTo(10, 5)
+    expect(dimensions.averageDepthMeters).toBeCloseTo(36, 1)
+    expect(dimensions.rectangularity).toBeCloseTo(1, 2)
+  })
+
+  it('does not count a double-fronting rear frontage as width', () => {
+    const doubleFronting = edges.map((item) =>
+      item.index === 2 ? { ...item, type: 'Frontage' as const } : item,
+    )
+    const dimensions = measureLotDimensions(rectangle, areaOf(rectangle), doubleFronting, 0, 2)
+    expect(dimensions.frontageWidthMeters).toBeCloseTo(10, 5)
+  })
+
+  it('scores an L-shaped lot below a rectangle', () => {
+    const lShape = polygon([0, 0], [20, 0], [20, 10], [10, 10], [10, 36], [0, 36])
+    const dimensions = measureLotDimensions(lShape, areaOf(lShape), [], -1, -1)
+    // 460 m² of lot in a 20 m x 36 m rectangle.
+    expect(dimensions.rectangularity).toBeCloseTo(460 / 720, 2)
+    expect(dimensions.averageDepthMeters).toBeNull()
+    expect(dimensions.frontageWidthMeters).toBeNull()
+  })
+})
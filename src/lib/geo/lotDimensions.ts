@@ -0,0 +1,191 @@
+import type {
+  BoundingRectangle,
+  EdgeAnalysis,
+  LotDimensions,
+  ParcelGeometry,
+  Position,
+} from '../../types/parcel'
+import { createLocalProjection, type LocalPoint } from './localProjection'
+import { parcelOuterRings } from './parcelGeometry'
+
+type Point = LocalPoint
+
+const DEPTH_SAMPLE_COUNT = 9
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0])
+}
+
+// Andrew's monotone chain; returns the hull counter-clockwise without repeating the first point.
+function convexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1])
+  if (sorted.length < 3) return sorted
+
+  const lower: Point[] = []
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2]!, lower[lower.length - 1]!, p) <= 0) {
+      lower.pop()
+    }
+    lower.push(p)
+  }
+  const upper: Point[] = []
+  for (let index = sorted.length - 1; index >= 0; index -= 1) {
+    const p = sorted[index]!
+    while (upper.length >= 2 && cross(upper[upper.length - 2]!, upper[upper.length - 1]!, p) <= 0) {
+      upper.pop()
+    }
+    upper.push(p)
+  }
+  lower.pop()
+  upper.pop()
+  return [...lower, ...upper]
+}
+
+// The minimum-area rectangle has one side on a hull edge, so trying each hull edge direction is enough.
+export function minimumBoundingRectangle(geometry: ParcelGeometry): BoundingRectangle | null {
+  const rings = parcelOuterRings(geometry)
+  const origin = rings[0]?.[0]
+  if (!origin) return null
+
+  const projection = createLocalProjection(origin)
+  const hull = convexHull(rings.flat().map(projection.toLocal))
+  if (hull.length < 3) return null
+
+  let best: {
+    areaM2: number
+    axis: Point
+    normal: Point
+    minU: number
+    maxU: number
+    minV: number
+    maxV: number
+  } | null = null
+
+  for (let index = 0; index < hull.length; index += 1) {
+    const a = hull[index]!
+    const b = hull[(index + 1) % hull.length]!
+    const length = Math.hypot(b[0] - a[0], b[1] - a[1])
+    if (length === 0) continue
+
+    const axis: Point = [(b[0] - a[0]) / length, (b[1] - a[1]) / length]
+    const normal: Point = [-axis[1], axis[0]]
+    let minU = Infinity
+    let maxU = -Infinity
+    let minV = Infinity
+    let maxV = -Infinity
+    for (const p of hull) {
+      const u = p[0] * axis[0] + p[1] * axis[1]
+      const v = p[0] * normal[0] + p[1] * normal[1]
+      minU = Math.min(minU, u)
+      maxU = Math.max(maxU, u)
+      minV = Math.min(minV, v)
+      maxV = Math.max(maxV, v)
+    }
+
+    const areaM2 = (maxU - minU) * (maxV - minV)
+    if (!best || areaM2 < best.areaM2) {
+      best = { areaM2, axis, normal, minU, maxU, minV, maxV }
+    }
+  }
+  if (!best) return null
+
+  const { axis, normal, minU, maxU, minV, maxV } = best
+  const corner = (u: number, v: number): Position =>
+    projection.toPosition([axis[0] * u + normal[0] * v, axis[1] * u + normal[1] * v])
+  const alongAxis = maxU - minU
+  const alongNormal = maxV - minV
+  const longSide = alongAxis >= alongNormal ? axis : normal
+  const orientationDeg = ((Math.atan2(longSide[0], longSide[1]) * 180) / Math.PI + 360) % 180
+
+  return {
+    corners: [
+      corner(minU, minV),
+      corner(maxU, minV),
+      corner(maxU, maxV),
+      corner(minU, maxV),
+      corner(minU, minV),
+    ],
+    widthMeters: Math.min(alongAxis, alongNormal),
+    lengthMeters: Math.max(alongAxis, alongNormal),
+    areaM2: best.areaM2,
+    orientationDeg,
+  }
+}
+
+function pathLength(path: Point[]): number {
+  let total = 0
+  for (let index = 0; index < path.length - 1; index += 1) {
+    const a = path[index]!
+    const b = path[index + 1]!
+    total += Math.hypot(b[0] - a[0], b[1] - a[1])
+  }
+  return total
+}
+
+function samplePath(path: Point[], count: number): Point[] {
+  const total = pathLength(path)
+  const samples: Point[] = []
+  for (let sample = 0; sample < count; sample += 1) {
+    let remaining = (total * sample) / (count - 1)
+    for (let index = 0; index < path.length - 1; index += 1) {
+      const a = path[index]!
+      const b = path[index + 1]!
+      const length = Math.hypot(b[0] - a[0], b[1] - a[1])
+      if (remaining <= length || index === path.length - 2) {
+        const ratio = length > 0 ? Math.min(remaining / length, 1) : 0
+        samples.push([a[0] + (b[0] - a[0]) * ratio, a[1] + (b[1] - a[1]) * ratio])
+        break
+      }
+      remaining -= length
+    }
+  }
+  return samples
+}
+
+// Depth is measured square to the frontage: samples along the opposite edge are projected onto
+// the frontage line, so a slanted rear line averages out instead of being cut short.
+export function averageDepthMeters(frontage: EdgeAnalysis, opposite: EdgeAnalysis): number | null {
+  const projection = createLocalProjection(frontage.start)
+  const start = projection.toLocal(frontage.start)
+  const end = projection.toLocal(frontage.end)
+  const length = Math.hypot(end[0] - start[0], end[1] - start[1])
+  const oppositePath = opposite.vertices.map(projection.toLocal)
+  if (length === 0 || oppositePath.length < 2) return null
+
+  const normal: Point = [-(end[1] - start[1]) / length, (end[0] - start[0]) / length]
+  const distances = samplePath(oppositePath, DEPTH_SAMPLE_COUNT).map((p) =>
+    Math.abs((p[0] - start[0]) * normal[0] + (p[1] - start[1]) * normal[1]),
+  )
+  return distances.reduce((sum, value) => sum + value, 0) / distances.length
+}
+
+export function measureLotDimensions(
+  geometry: ParcelGeometry,
+  areaM2: number,
+  edges: EdgeAnalysis[],
+  frontageIndex: number,
+  oppositeIndex: number,
+): LotDimensions {
+  const frontage = edges.find((edge) => edge.index === frontageIndex) ?? null
+  const opposite = edges.find((edge) => edge.index === oppositeIndex) ?? null
+
+  // A double-fronting lot's second frontage is the opposite side, not extra width.
+  const frontageEdges = edges.filter(
+    (edge) => edge.type === 'Frontage' && edge.index !== oppositeIndex,
+  )
+  const frontageWidthMeters =
+    frontageEdges.length > 0
+      ? frontageEdges.reduce((sum, edge) => sum + edge.lengthMeters, 0)
+      : null
+
+  const boundingRectangle = minimumBoundingRectangle(geometry)
+  const rectangularity =
+    boundingRectangle && boundingRectangle.areaM2 > 0 ? areaM2 / boundingRectangle.areaM2 : null
+
+  return {
+    frontageWidthMeters,
+    averageDepthMeters: frontage && opposite ? averageDepthMeters(frontage, opposite) : null,
+    boundingRectangle,
+    rectangularity,
+  }
+}
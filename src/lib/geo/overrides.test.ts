@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import type { ParcelFeature, RoadFeature } from '../../types/parcel'
+import {
+  applyParcelOverride,
+  hasOverrides,
+  sanitizeParcelOverride,
+  toLabelledFixture,
+  withEdgeTypeOverride,
+  withLotTypeOverride,
+} from './overrides'
+import { analyzeParcel } from './parcelAnalysis'
+import { createLocalRoadNetwork } from './roadNetwork'
+
+const fixtureModules = import.meta.glob<{ parcel: ParcelFeature; roads: RoadFeature[] }>(
+  './__fixtures__/classification/standard-with-lane.json',
+  { eager: true, import: 'default' },
+)
+const fixture = Object.values(fixtureModules)[0]
+if (!fixture) throw new Error('missing standard-with-lane fixture')
+
+const roads = createLocalRoadNetwork({ type: 'FeatureCollection', features: fixture.roads })
+const classified = analyzeParcel(fixture.parcel, roads)
+const parcelId = fixture.parcel.properties.id
+
+describe('applyParcelOverride', () => {
+  it('returns the classified analysis when there is nothing to apply', () => {
+    expect(applyParcelOverride(classified, null)).toBe(classified)
+    expect(hasOverrides(classified)).toBe(false)
+  })
+
+  it('replaces edge and lot types and marks them', () => {
+    const override = withLotTypeOverride(
+      withEdgeTypeOverride(null, parcelId, 1, 'Flankage'),
+      parcelId,
+      'Corner Lot',
+    )
+    const corrected = applyParcelOverride(classified, override)
+    expect(corrected.lotType).toBe('Corner Lot')
+    expect(corrected.isLotTypeOverridden).toBe(true)
+    expect(corrected.edges[1]?.type).toBe('Flankage')
+    expect(corrected.edges[1]?.isOverridden).toBe(true)
+    expect(corrected.edges[0]?.isOverridden).toBe(false)
+    expect(hasOverrides(corrected)).toBe(true)
+  })
+
+  it('drops an edge correction when it is cleared', () => {
+    const override = withEdgeTypeOverride(
+      withEdgeTypeOverride(null, parcelId, 1, 'Flankage'),
+      parcelId,
+      1,
+      null,
+    )
+    expect(override.edges).toEqual([])
+    expect(hasOverrides(applyParcelOverride(classified, override))).toBe(false)
+  })
+})
+
+describe('sanitizeParcelOverride', () => {
+  it('keeps valid entries and drops the rest', () => {
+    const override = sanitizeParcelOverride({
+      parcelId: 'abc',
+      lotType: 'Not a lot type',
+      edges: [{ index: 0, type: 'Rear' }, { index: 'x', type: 'Side' }, { index: 2, type: 'Alley' }],
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    })
+    expect(override).toEqual({
+      parcelId: 'abc',
+      lotType: null,
+      edges: [{ index: 0, type: 'Rear' }],
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    })
+    expect(sanitizeParcelOverride({ edges: [] })).toBeNull()
+  })
+})
+
+describe('toLabelledFixture', () => {
+  it('exports a fixture that classifies the same way on its own roads', () => {
+    const corrected = applyParcelOverride(
+      classified,
+      withEdgeTypeOverride(null, parcelId, 3, 'Flankage'),
+    )
+    const exported = toLabelledFixture(fixture.parcel, corrected, roads)
+    expect(exported.expected.edgeTypes[3]).toBe('Flankage')
+    expect(exported.roads.length).toBeGreaterThan(0)
+
+    const replayed = analyzeParcel(
+      exported.parcel,
+      createLocalRoadNetwork({ type: 'FeatureCollection', features: exported.roads }),
+    )
+    expect(replayed.edges.map((edge) => edge.type)).toEqual(classified.edges.map((edge) => edge.type))
+  })
+})
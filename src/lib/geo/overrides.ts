@@ -0,0 +1,175 @@
+import type {
+  EdgeType,
+  LotType,
+  ParcelAnalysis,
+  ParcelFeature,
+  ParcelOverride,
+  RoadFeature,
+} from '../../types/parcel'
+import type { RoadNetworkProvider } from './roadNetwork'
+
+export const EDGE_TYPES: EdgeType[] = ['Frontage', 'Flankage', 'Rear Lane', 'Rear', 'Side']
+
+export const LOT_TYPES: LotType[] = [
+  'Corner Lot',
+  'Double Fronting',
+  'Standard with Lane',
+  'Standard without Lane',
+]
+
+// Same shape as the files in `__fixtures__/classification/`, so an export can be dropped in as-is.
+export interface LabelledParcelFixture {
+  name: string
+  description: string
+  parcel: ParcelFeature
+  roads: RoadFeature[]
+  expected: {
+    lotType: LotType
+    confidence: ParcelAnalysis['confidence']
+    edgeTypes: EdgeType[]
+    areaM2: number
+  }
+}
+
+export interface LabelledDataset {
+  version: 1
+  exportedAt: string
+  fixtures: LabelledParcelFixture[]
+}
+
+function isEdgeType(value: unknown): value is EdgeType {
+  return EDGE_TYPES.includes(value as EdgeType)
+}
+
+function isLotType(value: unknown): value is LotType {
+  return LOT_TYPES.includes(value as LotType)
+}
+
+export function sanitizeParcelOverride(raw: unknown): ParcelOverride | null {
+  if (!raw || typeof raw !== 'object') return null
+  const source = raw as Record<string, unknown>
+  const parcelId = typeof source.parcelId === 'string' ? source.parcelId.trim() : ''
+  if (!parcelId) return null
+
+  const edges = Array.isArray(source.edges)
+    ? source.edges.filter(
+        (edge): edge is ParcelOverride['edges'][number] =>
+          !!edge &&
+          typeof edge === 'object' &&
+          Number.isInteger((edge as { index?: unknown }).index) &&
+          isEdgeType((edge as { type?: unknown }).type),
+      )
+    : []
+
+  return {
+    parcelId,
+    lotType: isLotType(source.lotType) ? source.lotType : null,
+    edges: edges.map(({ index, type }) => ({ index, type })),
+    updatedAt: typeof source.updatedAt === 'string' ? source.updatedAt : '',
+  }
+}
+
+export function isEmptyOverride(override: ParcelOverride): boolean {
+  return override.lotType === null && override.edges.length === 0
+}
+
+// Corrections replace types only; road matches, evidence and dimensions stay as classified.
+export function applyParcelOverride(
+  analysis: ParcelAnalysis,
+  override: ParcelOverride | null | undefined,
+): ParcelAnalysis {
+  if (!override || isEmptyOverride(override)) return analysis
+
+  const edgeTypes = new Map(override.edges.map((edge) => [edge.index, edge.type]))
+  return {
+    ...analysis,
+    lotType: override.lotType ?? analysis.lotType,
+    isLotTypeOverridden: override.lotType !== null,
+    edges: analysis.edges.map((edge) => {
+      const type = edgeTypes.get(edge.index)
+      return type ? { ...edge, type, isOverridden: true } : edge
+    }),
+  }
+}
+
+export function hasOverrides(analysis: ParcelAnalysis): boolean {
+  return analysis.isLotTypeOverridden || analysis.edges.some((edge) => edge.isOverridden)
+}
+
+// Null `type` clears the correction for that edge.
+export function withEdgeTypeOverride(
+  override: ParcelOverride | null,
+  parcelId: string,
+  index: number,
+  type: EdgeType | null,
+): ParcelOverride {
+  const edges = (override?.edges ?? []).filter((edge) => edge.index !== index)
+  if (type) edges.push({ index, type })
+  edges.sort((a, b) => a.index - b.index)
+  return {
+    parcelId,
+    lotType: override?.lotType ?? null,
+    edges,
+    updatedAt: new Date().toISOString(),
+  }
+}
+
+export function withLotTypeOverride(
+  override: ParcelOverride | null,
+  parcelId: string,
+  lotType: LotType | null,
+): ParcelOverride {
+  return {
+    parcelId,
+    lotType,
+    edges: override?.edges ?? [],
+    updatedAt: new Date().toISOString(),
+  }
+}
+
+// Road candidates carry their geometry, so the fixture can be rebuilt without the full road file.
+function nearbyRoadFeatures(analysis: ParcelAnalysis, roads: RoadNetworkProvider): RoadFeature[] {
+  const features = new Map<string, RoadFeature>()
+  for (const edge of analysis.edges) {
+    for (const candidate of roads.findCandidatesNearEdge(edge)) {
+      const key = `${candidate.kind}|${candidate.name}|${JSON.stringify(candidate.lines[0]?.[0] ?? null)}`
+      if (features.has(key)) continue
+      features.set(key, {
+        type: 'Feature',
+        geometry: { type: 'MultiLineString', coordinates: candidate.lines },
+        properties: { name: candidate.name, roadClass: candidate.className, kind: candidate.kind },
+      })
+    }
+  }
+  return [...features.values()]
+}
+
+export function toLabelledFixture(
+  parcel: ParcelFeature,
+  analysis: ParcelAnalysis,
+  roads: RoadNetworkProvider | null,
+): LabelledParcelFixture {
+  return {
+    name: `corrected-${parcel.properties.id}`,
+    description: `Manual correction for ${parcel.properties.fullAddress}.`,
+    parcel,
+    roads: roads ? nearbyRoadFeatures(analysis, roads) : [],
+    expected: {
+      lotType: analysis.lotType,
+      confidence: analysis.confidence,
+      edgeTypes: analysis.edges.map((edge) => edge.type),
+      areaM2: Number(analysis.areaM2.toFixed(1)),
+    },
+  }
+}
+
+export function toLabelledDataset(
+  corrections: Array<{ parcel: ParcelFeature; analysis: ParcelAnalysis }>,
+  roads: RoadNetworkProvider | null,
+): LabelledDataset {
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    fixtures: corrections.map(({ parcel, analysis }) => toLabelledFixture(parcel, analysis, roads)),
+  }
+}
@@ -0,0 +1,164 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import type {
+  EdgeType,
+  LotType,
+  ParcelAnalysis,
+  ParcelFeature,
+  RoadFeature,
+} from '../../types/parcel'
+import { ANALYSIS_PRESETS } from './analysisConfig'
+import { analyzeParcel } from './parcelAnalysis'
+import { createLocalRoadNetwork } from './roadNetwork'
+
+// Hand-labelled parcels with the road centrelines around them. Each fixture pins the
+// expected edge types (in ring order), lot type and confidence.
+interface ClassificationFixture {
+  name: string
+  description: string
+  parcel: ParcelFeature
+  roads: RoadFeature[]
+  expected: {
+    lotType: LotType
+    confidence: ParcelAnalysis['confidence']
+    edgeTypes: EdgeType[]
+    // Optional; checked to within 1% when present.
+    areaM2?: number
+  }
+}
+
+const fixtureModules = import.meta.glob<ClassificationFixture>(
+  './__fixtures__/classification/*.json',
+  { eager: true, import: 'default' },
+)
+const fixtures = Object.values(fixtureModules).sort((a, b) => a.name.localeCompare(b.name))
+
+function classify(fixture: ClassificationFixture): ParcelAnalysis {
+  const roads = createLocalRoadNetwork({ type: 'FeatureCollection', features: fixture.roads })
+  return analyzeParcel(fixture.parcel, roads)
+}
+
+describe('analyzeParcel golden fixtures', () => {
+  it('loads fixtures', () => {
+    expect(fixtures.length).toBeGreaterThan(0)
+  })
+
+  it('covers every lot-type branch', () => {
+    const covered = new Set(fixtures.map((fixture) => fixture.expected.lotType))
+    const lotTypes: LotType[] = [
+      'Corner Lot',
+      'Double Fronting',
+      'Standard with Lane',
+      'Standard without Lane',
+    ]
+    for (const lotType of lotTypes) {
+      expect(covered, `no fixture expects ${lotType}`).toContain(lotType)
+    }
+  })
+
+  describe.each(fixtures.map((fixture) => [fixture.name, fixture] as const))(
+    '%s',
+    (_name, fixture) => {
+      // Classified per fixture before its tests, so one that throws fails only its own tests.
+      let analysis: ParcelAnalysis
+      beforeAll(() => {
+        analysis = classify(fixture)
+      })
+
+      it('classifies each edge', () => {
+        expect(
+          analysis.edges.map((edge) => edge.type),
+          fixture.description,
+        ).toEqual(fixture.expected.edgeTypes)
+      })
+
+      it('determines the lot type', () => {
+        expect(analysis.lotType, analysis.reason).toBe(fixture.expected.lotType)
+      })
+
+      it('reports the confidence', () => {
+        expect(analysis.confidence, analysis.reason).toBe(fixture.expected.confidence)
+      })
+
+      it('does not depend on the order of the road data', () => {
+        const reordered = classify({ ...fixture, roads: [...fixture.roads].reverse() })
+        expect(reordered.edges.map((edge) => edge.type)).toEqual(analysis.edges.map((edge) => edge.type))
+        expect(reordered.lotType).toBe(analysis.lotType)
+        expect(reordered.confidence).toBe(analysis.confidence)
+      })
+    },
+  )
+
+  // Only the fixtures with holes or several parts pin an area, so only they get an area test.
+  const measured = fixtures.flatMap((fixture) => {
+    const { areaM2 } = fixture.expected
+    return areaM2 === undefined ? [] : [[fixture.name, fixture, areaM2] as const]
+  })
+
+  it.each(measured)('%s measures the area', (_name, fixture, expectedArea) => {
+    expect(Math.abs(classify(fixture).areaM2 - expectedArea)).toBeLessThan(expectedArea * 0.01)
+  })
+})
+
+describe('analyzeParcel config', () => {
+  const fixture = fixtures.find((candidate) => candidate.name === 'relaxed-lane-fallback')
+
+  it('uses the default preset when no config is passed', () => {
+    if (!fixture) throw new Error('missing relaxed-lane-fallback fixture')
+    const roads = createLocalRoadNetwork({ type: 'FeatureCollection', features: fixture.roads })
+    expect(analyzeParcel(fixture.parcel, roads)).toEqual(
+      analyzeParcel(fixture.parcel, roads, ANALYSIS_PRESETS.default),
+    )
+  })
+
+  it('treats a 30 m lane as strictly adjacent under the permissive preset', () => {
+    if (!fixture) throw new Error('missing relaxed-lane-fallback fixture')
+    const roads = createLocalRoadNetwork({ type: 'FeatureCollection', features: fixture.roads })
+    const analysis = analyzeParcel(fixture.parcel, roads, ANALYSIS_PRESETS.permissive)
+    expect(analysis.lotType).toBe('Standard with Lane')
+    expect(analysis.confidence).toBe('high')
+  })
+
+  it('drops the lane once it is beyond the relaxed lane distance', () => {
+    if (!fixture) throw new Error('missing relaxed-lane-fallback fixture')
+    const roads = createLocalRoadNetwork({ type: 'FeatureCollection', features: fixture.roads })
+    const analysis = analyzeParcel(fixture.parcel, roads, {
+      ...ANALYSIS_PRESETS.strict,
+      relaxedLaneDistanceMeters: 25,
+    })
+    expect(analysis.lotType).toBe('Standard without Lane')
+  })
+})
+
+describe('analyzeParcel confidence evidence', () => {
+  function classifyNamed(name: string): ParcelAnalysis {
+    const fixture = fixtures.find((candidate) => candidate.name === name)
+    if (!fixture) throw new Error(`missing ${name} fixture`)
+    return classify(fixture)
+  }
+
+  it('keeps a full score for a clean strict match', () => {
+    const analysis = classifyNamed('standard-with-lane')
+    expect(analysis.confidenceScore).toBe(1)
+    expect(analysis.edges.every((edge) => edge.confidenceScore === 1)).toBe(true)
+  })
+
+  it('scores down the edge that needed relaxed thresholds', () => {
+    const analysis = classifyNamed('relaxed-flankage-corner')
+    const flankage = analysis.edges.find((edge) => edge.type === 'Flankage')
+    expect(flankage?.evidence.map((item) => item.factor)).toContain('relaxed-match')
+    expect(flankage?.confidenceScore).toBeLessThan(1)
+    expect(analysis.confidenceScore).toBeCloseTo(flankage?.confidenceScore ?? 0, 5)
+  })
+
+  it('flags a frontage that does not face the primary street', () => {
+    const analysis = classifyNamed('primary-street-mismatch')
+    expect(analysis.evidence.map((item) => item.factor)).toContain('primary-street-mismatch')
+    expect(analysis.confidenceScore).toBeCloseTo(0.75, 5)
+  })
+
+  it('falls to low confidence without any road evidence', () => {
+    const analysis = classifyNamed('no-road-data')
+    expect(analysis.evidence.map((item) => item.factor)).toContain('no-street-evidence')
+    expect(analysis.confidenceScore).toBeLessThan(0.5)
+  })
+})
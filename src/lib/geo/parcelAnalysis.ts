@@ -6,44 +6,27 @@ import {
   point,
   pointToLineDistance,
 } from '@turf/turf'
-import type { Feature, Polygon } from 'geojson'
-import type { GeoJSONFeature, Map as MapboxMap } from 'mapbox-gl'
 import type {
+  ConfidenceEvidence,
   EdgeAnalysis,
   EdgeType,
   LotType,
   ParcelAnalysis,
   ParcelFeature,
   Position,
-  RoadKind,
 } from '../../types/parcel'
-
-// Tuned for MVP balance: stricter street proximity to reduce frontage/flankage false positives.
-const ROAD_PROXIMITY_THRESHOLD_METERS = 20
-const LANE_PROXIMITY_THRESHOLD_METERS = 28
-const ROAD_ORIENTATION_THRESHOLD_DEG = 55
-const LANE_ORIENTATION_THRESHOLD_DEG = 85
-const RELAXED_FRONTAGE_STREET_DISTANCE_METERS = 30
-const RELAXED_FRONTAGE_STREET_ORIENTATION_DEG = 85
-const RELAXED_FLANKAGE_STREET_DISTANCE_METERS = 24
-const RELAXED_FLANKAGE_STREET_ORIENTATION_DEG = 70
-const RELAXED_LANE_DISTANCE_METERS = 42
-const RELAXED_LANE_ORIENTATION_DEG = 110
-const EDGE_QUERY_BUFFER_METERS = 52
-const MIN_QUERY_PADDING_PX = 38
-const MAX_QUERY_PADDING_PX = 220
-const OPPOSITE_EDGE_STRICT_ORIENTATION_DEG = 38
-const OPPOSITE_EDGE_RELAXED_ORIENTATION_DEG = 62
-const EDGE_SELECTION_DISTANCE_TIE_METERS = 3
-const EDGE_SELECTION_LENGTH_TIE_METERS = 1
-
-interface RoadCandidate {
-  name: string
-  kind: Exclude<RoadKind, null>
-  className: string
-  sourceLayer: string
-  lines: Position[][]
-}
+import { DEFAULT_ANALYSIS_CONFIG, type AnalysisConfig } from './analysisConfig'
+import {
+  CONFIDENCE_IMPACTS,
+  confidenceLevel,
+  marginImpact,
+  scoreEvidence,
+} from './confidence'
+import { groupRingSegments, segmentsMidpoint, toRingSegments } from './edgeNormalization'
+import { measureLotDimensions } from './lotDimensions'
+import { parcelPolygons } from './parcelGeometry'
+import type { RoadCandidate, RoadNetworkProvider } from './roadNetwork'
+import { normalizeStreetName } from './streetNames'
 
 interface EvaluatedRoadCandidate extends RoadCandidate {
   distanceMeters: number
@@ -52,24 +35,6 @@ interface EvaluatedRoadCandidate extends RoadCandidate {
   isAdjacent: boolean
 }
 
-function normalizeStreetName(value: string): string {
-  return value
-    .toLowerCase()
-    .replace(/[.,]/g, ' ')
-    .replace(/\bst\b/g, 'street')
-    .replace(/\bave\b/g, 'avenue')
-    .replace(/\bblvd\b/g, 'boulevard')
-    .replace(/\brd\b/g, 'road')
-    .replace(/\bdr\b/g, 'drive')
-    .replace(/\bln\b/g, 'lane')
-    .replace(/\bn\b/g, 'north')
-    .replace(/\bs\b/g, 'south')
-    .replace(/\be\b/g, 'east')
-    .replace(/\bw\b/g, 'west')
-    .replace(/\s+/g, ' ')
-    .trim()
-}
-
 function extractPrimaryStreet(address: string, fallbackStreetName: string): string {
   const trimmed = address.trim()
   if (!trimmed) return fallbackStreetName
@@ -83,43 +48,35 @@ function extractPrimaryStreet(address: string, fallbackStreetName: string): stri
   return fallbackStreetName || trimmed
 }
 
-function suffixRoadKindFromName(name: string): RoadKind {
-  const normalized = normalizeStreetName(name)
-  if (!normalized) return null
-  if (normalized.endsWith(' lane')) return 'lane'
-  if (normalized.endsWith(' street')) return 'street'
-  return null
-}
-
-function isBikeOrPedestrianWay(
-  name: string,
-  className: string,
-  sourceLayer: string,
-): boolean {
-  const joined = `${name} ${className} ${sourceLayer}`.toLowerCase()
-  return /(cycleway|bike[\s_-]?lane|bikeway|greenway|shared[\s_-]?use|multi[\s_-]?use|footway|sidewalk|pedestrian|crossing|steps|\bpath\b)/.test(
-    joined,
-  )
-}
-
-function toRingEdges(coordinates: Position[]): EdgeAnalysis[] {
+function toRingEdges(
+  coordinates: Position[],
+  partIndex: number,
+  firstIndex: number,
+  config: AnalysisConfig,
+): EdgeAnalysis[] {
   const edges: EdgeAnalysis[] = []
   if (coordinates.length < 2) return edges
 
-  const lastIndex = coordinates.length - 1
-  for (let index = 0; index < lastIndex; index += 1) {
-    const start = coordinates[index]
-    const end = coordinates[index + 1]
-    if (!start || !end) continue
+  // Classify real lot sides: near-collinear vertices and short slivers collapse into one edge.
+  const groups = groupRingSegments(toRingSegments(coordinates), {
+    toleranceDeg: config.edgeMergeToleranceDeg,
+    minLengthMeters: config.edgeMinSegmentMeters,
+  })
+  for (const group of groups) {
+    const first = group[0]
+    const last = group[group.length - 1]
+    const midpoint = segmentsMidpoint(group)
+    if (!first || !last || !midpoint) continue
 
-    const midpoint: Position = [(start[0] + end[0]) / 2, (start[1] + end[1]) / 2]
-    const lengthMeters = distance(point(start), point(end), { units: 'meters' })
     edges.push({
-      index,
-      start,
-      end,
+      // Indices run across all parts so every edge of a split lot has a unique label.
+      index: firstIndex + edges.length,
+      partIndex,
+      start: first.start,
+      end: last.end,
+      vertices: [first.start, ...group.map((segment) => segment.end)],
       midpoint,
-      lengthMeters,
+      lengthMeters: group.reduce((sum, segment) => sum + segment.lengthMeters, 0),
       type: 'Side',
       roadKind: null,
       roadName: '',
@@ -127,6 +84,9 @@ function toRingEdges(coordinates: Position[]): EdgeAnalysis[] {
       roadDistanceMeters: null,
       orientationDiffDeg: null,
       isRoadAdjacent: false,
+      confidenceScore: 1,
+      evidence: [],
+      isOverridden: false,
       debug: 'No road candidate found.',
     })
   }
@@ -134,125 +94,6 @@ function toRingEdges(coordinates: Position[]): EdgeAnalysis[] {
   return edges
 }
 
-function isLineGeometry(geometry: unknown): boolean {
-  if (!geometry || typeof geometry !== 'object') return false
-  const type = (geometry as { type?: unknown }).type
-  return type === 'LineString' || type === 'MultiLineString'
-}
-
-function readStringProperty(
-  properties: Record<string, unknown>,
-  keys: string[],
-): string {
-  for (const key of keys) {
-    const value = properties[key]
-    if (typeof value === 'string' && value.trim().length > 0) {
-      return value.trim()
-    }
-  }
-  return ''
-}
-
-function toPosition(value: unknown): Position | null {
-  if (!Array.isArray(value) || value.length < 2) return null
-  const lon = Number(value[0])
-  const lat = Number(value[1])
-  if (!Number.isFinite(lon) || !Number.isFinite(lat)) return null
-  return [lon, lat]
-}
-
-function normalizeLine(rawLine: unknown): Position[] {
-  if (!Array.isArray(rawLine)) return []
-  const coordinates: Position[] = []
-  for (const coordinate of rawLine) {
-    const position = toPosition(coordinate)
-    if (position) coordinates.push(position)
-  }
-  return coordinates
-}
-
-function extractLineCollections(geometry: GeoJSONFeature['geometry']): Position[][] {
-  if (!geometry || typeof geometry !== 'object') return []
-
-  if (geometry.type === 'LineString') {
-    const line = normalizeLine(geometry.coordinates)
-    return line.length >= 2 ? [line] : []
-  }
-
-  if (geometry.type === 'MultiLineString') {
-    if (!Array.isArray(geometry.coordinates)) return []
-    return geometry.coordinates
-      .map((line) => normalizeLine(line))
-      .filter((line) => line.length >= 2)
-  }
-
-  return []
-}
-
-function toRoadCandidate(feature: GeoJSONFeature): RoadCandidate | null {
-  if (!isLineGeometry(feature.geometry)) return null
-
-  const properties = (feature.properties ?? {}) as Record<string, unknown>
-  const name = readStringProperty(properties, ['name', 'name_en', 'streetname', 'ref'])
-  const className = readStringProperty(properties, ['class', 'type', 'road_class', 'kind'])
-  const sourceLayer = feature.sourceLayer ?? ''
-  const joined = `${name} ${className} ${sourceLayer}`.toLowerCase()
-  const classJoined = `${className} ${sourceLayer}`.toLowerCase()
-
-  const looksRoadLike =
-    /(road|street|motorway|residential|service|highway|primary|secondary|tertiary|trunk|avenue|boulevard|lane|alley)/.test(
-      joined,
-    )
-  if (!looksRoadLike) return null
-  // Prevent bike/ped/path vectors from being treated as parcel-adjacent roads.
-  if (isBikeOrPedestrianWay(name, className, sourceLayer)) return null
-
-  const lines = extractLineCollections(feature.geometry)
-  if (lines.length === 0) return null
-
-  const suffixKind = suffixRoadKindFromName(name)
-  const normalizedName = normalizeStreetName(name)
-  const explicitLaneName = /\b(lane|alley|alleyway)\b/.test(normalizedName)
-  const explicitStreetName =
-    /\b(street|avenue|road|drive|boulevard|highway|parkway|way|place|court|crescent|trail|terrace|connector)\b/.test(
-      normalizedName,
-    )
-  const laneLikeClass = /(lane|alley|driveway|access)/.test(classJoined)
-  const serviceClass = /\bservice\b/.test(classJoined)
-  const laneLike = explicitLaneName || laneLikeClass || (serviceClass && !explicitStreetName)
-
-  let kind: Exclude<RoadKind, null>
-  if (suffixKind === 'lane') {
-    kind = 'lane'
-  } else if (suffixKind === 'street') {
-    kind = 'street'
-  } else {
-    kind = laneLike ? 'lane' : 'street'
-  }
-
-  return {
-    name,
-    kind,
-    className,
-    sourceLayer,
-    lines,
-  }
-}
-
-function uniqueCandidates(candidates: RoadCandidate[]): RoadCandidate[] {
-  const seen = new Set<string>()
-  const output: RoadCandidate[] = []
-
-  for (const candidate of candidates) {
-    const key = `${candidate.name.toLowerCase()}|${candidate.className.toLowerCase()}|${candidate.kind}|${candidate.sourceLayer.toLowerCase()}|${candidate.lines.length}`
-    if (seen.has(key)) continue
-    seen.add(key)
-    output.push(candidate)
-  }
-
-  return output
-}
-
 function bearingDegrees(start: Position, end: Position): number {
   const result = bearing(point(start), point(end))
   return Number.isFinite(result) ? result : 0
@@ -266,28 +107,10 @@ function parallelOrientationDiffDeg(a: number, b: number): number {
   return wrappedDiff > 90 ? 180 - wrappedDiff : wrappedDiff
 }
 
-function metersPerPixel(latitude: number, zoom: number): number {
-  const earthCircumferenceMeters = 40075016.686
-  return (
-    (earthCircumferenceMeters * Math.cos((latitude * Math.PI) / 180)) /
-    Math.pow(2, zoom + 8)
-  )
-}
-
-function edgeQueryPaddingPx(map: MapboxMap, edge: EdgeAnalysis): number {
-  const mpp = metersPerPixel(edge.midpoint[1], map.getZoom())
-  if (!Number.isFinite(mpp) || mpp <= 0) return MIN_QUERY_PADDING_PX
-
-  const targetPadding = Math.ceil(EDGE_QUERY_BUFFER_METERS / mpp)
-  return Math.max(
-    MIN_QUERY_PADDING_PX,
-    Math.min(MAX_QUERY_PADDING_PX, targetPadding),
-  )
-}
-
 function evaluateRoadCandidateForEdge(
   edge: EdgeAnalysis,
   candidate: RoadCandidate,
+  config: AnalysisConfig,
 ): EvaluatedRoadCandidate | null {
   const midpointFeature = point(edge.midpoint)
   const edgeBearing = bearingDegrees(edge.start, edge.end)
@@ -307,9 +130,9 @@ function evaluateRoadCandidateForEdge(
       })
       const segmentBearing = bearingDegrees(segmentStart, segmentEnd)
       const orientationDiff = parallelOrientationDiffDeg(edgeBearing, segmentBearing)
-      const score = segmentDistance + orientationDiff * 0.45
+      const score = segmentDistance + orientationDiff * config.orientationWeight
 
-      const bestScore = bestDistance + bestOrientation * 0.45
+      const bestScore = bestDistance + bestOrientation * config.orientationWeight
       if (score < bestScore) {
         bestDistance = segmentDistance
         bestOrientation = orientationDiff
@@ -322,56 +145,33 @@ function evaluateRoadCandidateForEdge(
 
   const distanceThreshold =
     candidate.kind === 'lane'
-      ? LANE_PROXIMITY_THRESHOLD_METERS
-      : ROAD_PROXIMITY_THRESHOLD_METERS
+      ? config.laneProximityMeters
+      : config.roadProximityMeters
   const orientationThreshold =
     candidate.kind === 'lane'
-      ? LANE_ORIENTATION_THRESHOLD_DEG
-      : ROAD_ORIENTATION_THRESHOLD_DEG
+      ? config.laneOrientationDeg
+      : config.roadOrientationDeg
 
   return {
     ...candidate,
     distanceMeters: bestDistance,
     orientationDiffDeg: bestOrientation,
-    score: bestDistance + bestOrientation * 0.45,
+    score: bestDistance + bestOrientation * config.orientationWeight,
     isAdjacent: bestDistance <= distanceThreshold && bestOrientation <= orientationThreshold,
   }
 }
 
-function queryRoadCandidatesForEdge(map: MapboxMap, edge: EdgeAnalysis): RoadCandidate[] {
-  const startPx = map.project(edge.start)
-  const endPx = map.project(edge.end)
-  const paddingPx = edgeQueryPaddingPx(map, edge)
-
-  const queryGeometry: [[number, number], [number, number]] = [
-    [
-      Math.min(startPx.x, endPx.x) - paddingPx,
-      Math.min(startPx.y, endPx.y) - paddingPx,
-    ],
-    [
-      Math.max(startPx.x, endPx.x) + paddingPx,
-      Math.max(startPx.y, endPx.y) + paddingPx,
-    ],
-  ]
-
-  const features = map.queryRenderedFeatures(queryGeometry)
-  const candidates = features
-    .map((feature) => toRoadCandidate(feature))
-    .filter((candidate): candidate is RoadCandidate => candidate !== null)
-
-  return uniqueCandidates(candidates)
-}
-
 function findEvaluatedRoadCandidatesForEdge(
-  map: MapboxMap,
+  roads: RoadNetworkProvider,
   edge: EdgeAnalysis,
+  config: AnalysisConfig,
 ): EvaluatedRoadCandidate[] {
-  const candidates = queryRoadCandidatesForEdge(map, edge)
+  const candidates = roads.findCandidatesNearEdge(edge)
   if (candidates.length === 0) return []
 
   const evaluated: EvaluatedRoadCandidate[] = []
   for (const candidate of candidates) {
-    const match = evaluateRoadCandidateForEdge(edge, candidate)
+    const match = evaluateRoadCandidateForEdge(edge, candidate, config)
     if (match) evaluated.push(match)
   }
 
@@ -399,39 +199,44 @@ type StreetRelaxMode = 'frontage' | 'flankage'
 function isRelaxedStreetCandidateForMode(
   candidate: EvaluatedRoadCandidate,
   mode: StreetRelaxMode,
+  config: AnalysisConfig,
 ): boolean {
   if (candidate.kind !== 'street') return false
 
   if (mode === 'frontage') {
     return (
-      candidate.distanceMeters <= RELAXED_FRONTAGE_STREET_DISTANCE_METERS &&
-      candidate.orientationDiffDeg <= RELAXED_FRONTAGE_STREET_ORIENTATION_DEG
+      candidate.distanceMeters <= config.relaxedFrontageStreetDistanceMeters &&
+      candidate.orientationDiffDeg <= config.relaxedFrontageStreetOrientationDeg
     )
   }
 
   return (
-    candidate.distanceMeters <= RELAXED_FLANKAGE_STREET_DISTANCE_METERS &&
-    candidate.orientationDiffDeg <= RELAXED_FLANKAGE_STREET_ORIENTATION_DEG
+    candidate.distanceMeters <= config.relaxedFlankageStreetDistanceMeters &&
+    candidate.orientationDiffDeg <= config.relaxedFlankageStreetOrientationDeg
   )
 }
 
-function isRelaxedLaneCandidate(candidate: EvaluatedRoadCandidate): boolean {
+function isRelaxedLaneCandidate(
+  candidate: EvaluatedRoadCandidate,
+  config: AnalysisConfig,
+): boolean {
   if (candidate.kind !== 'lane') return false
   return (
-    candidate.distanceMeters <= RELAXED_LANE_DISTANCE_METERS &&
-    candidate.orientationDiffDeg <= RELAXED_LANE_ORIENTATION_DEG
+    candidate.distanceMeters <= config.relaxedLaneDistanceMeters &&
+    candidate.orientationDiffDeg <= config.relaxedLaneOrientationDeg
   )
 }
 
 function firstAdjacentStreet(
   candidates: EvaluatedRoadCandidate[],
+  config: AnalysisConfig,
   allowRelaxed = false,
   relaxMode: StreetRelaxMode = 'frontage',
 ): EvaluatedRoadCandidate | null {
   for (const candidate of candidates) {
     if (candidate.kind !== 'street') continue
     if (candidate.isAdjacent) return candidate
-    if (allowRelaxed && isRelaxedStreetCandidateForMode(candidate, relaxMode)) {
+    if (allowRelaxed && isRelaxedStreetCandidateForMode(candidate, relaxMode, config)) {
       return candidate
     }
   }
@@ -440,12 +245,13 @@ function firstAdjacentStreet(
 
 function firstAdjacentLane(
   candidates: EvaluatedRoadCandidate[],
+  config: AnalysisConfig,
   allowRelaxed = false,
 ): EvaluatedRoadCandidate | null {
   for (const candidate of candidates) {
     if (candidate.kind !== 'lane') continue
     if (candidate.isAdjacent) return candidate
-    if (allowRelaxed && isRelaxedLaneCandidate(candidate)) return candidate
+    if (allowRelaxed && isRelaxedLaneCandidate(candidate, config)) return candidate
   }
   return null
 }
@@ -453,6 +259,7 @@ function firstAdjacentLane(
 function firstAdjacentStreetByName(
   candidates: EvaluatedRoadCandidate[],
   normalizedStreet: string,
+  config: AnalysisConfig,
   allowRelaxed = false,
   relaxMode: StreetRelaxMode = 'frontage',
 ): EvaluatedRoadCandidate | null {
@@ -461,7 +268,7 @@ function firstAdjacentStreetByName(
     if (candidate.kind !== 'street') continue
     if (normalizeStreetName(candidate.name) !== normalizedStreet) continue
     if (candidate.isAdjacent) return candidate
-    if (allowRelaxed && isRelaxedStreetCandidateForMode(candidate, relaxMode)) {
+    if (allowRelaxed && isRelaxedStreetCandidateForMode(candidate, relaxMode, config)) {
       return candidate
     }
   }
@@ -471,6 +278,7 @@ function firstAdjacentStreetByName(
 function firstDifferentStreetCandidate(
   candidates: EvaluatedRoadCandidate[],
   normalizedBaseStreet: string,
+  config: AnalysisConfig,
   allowRelaxed = false,
 ): EvaluatedRoadCandidate | null {
   for (const candidate of candidates) {
@@ -484,15 +292,19 @@ function firstDifferentStreetCandidate(
       continue
     }
     if (candidate.isAdjacent) return candidate
-    if (allowRelaxed && isRelaxedStreetCandidateForMode(candidate, 'flankage')) {
+    if (allowRelaxed && isRelaxedStreetCandidateForMode(candidate, 'flankage', config)) {
       return candidate
     }
   }
   return null
 }
 
-function findOppositeEdgeIndex(edges: EdgeAnalysis[], frontageIndex: number): number {
-  const frontage = edges[frontageIndex]
+function findOppositeEdgeIndex(
+  edges: EdgeAnalysis[],
+  frontageIndex: number,
+  config: AnalysisConfig,
+): number {
+  const frontage = edges.find((edge) => edge.index === frontageIndex)
   if (!frontage) return -1
 
   const frontageBearing = bearingDegrees(frontage.start, frontage.end)
@@ -532,7 +344,7 @@ function findOppositeEdgeIndex(edges: EdgeAnalysis[], frontageIndex: number): nu
       orientationDiffDeg,
       perpendicularDistanceMeters,
       midpointDistanceMeters,
-      score: perpendicularDistanceMeters + midpointDistanceMeters * 0.2,
+      score: perpendicularDistanceMeters + midpointDistanceMeters * config.oppositeMidpointWeight,
     })
   }
 
@@ -556,12 +368,12 @@ function findOppositeEdgeIndex(edges: EdgeAnalysis[], frontageIndex: number): nu
   }
 
   const strictOpposite = chooseBestOppositeWithinOrientation(
-    OPPOSITE_EDGE_STRICT_ORIENTATION_DEG,
+    config.oppositeEdgeStrictOrientationDeg,
   )
   if (strictOpposite >= 0) return strictOpposite
 
   const relaxedOpposite = chooseBestOppositeWithinOrientation(
-    OPPOSITE_EDGE_RELAXED_ORIENTATION_DEG,
+    config.oppositeEdgeRelaxedOrientationDeg,
   )
   if (relaxedOpposite >= 0) return relaxedOpposite
 
@@ -585,6 +397,7 @@ function findOppositeEdgeIndex(edges: EdgeAnalysis[], frontageIndex: number): nu
 function selectNearestEdgeByStreetCandidate(
   edges: EdgeAnalysis[],
   edgeMatches: Map<number, EvaluatedRoadCandidate[]>,
+  config: AnalysisConfig,
   options: {
     normalizedStreet?: string
     allowRelaxed: boolean
@@ -604,10 +417,11 @@ function selectNearestEdgeByStreetCandidate(
       ? firstAdjacentStreetByName(
           matches,
           normalizedStreet,
+          config,
           options.allowRelaxed,
           relaxMode,
         )
-      : firstAdjacentStreet(matches, options.allowRelaxed, relaxMode)
+      : firstAdjacentStreet(matches, config, options.allowRelaxed, relaxMode)
     if (!candidate) continue
 
     if (!bestEdge || !bestCandidate) {
@@ -617,22 +431,22 @@ function selectNearestEdgeByStreetCandidate(
     }
 
     const distanceDelta = candidate.distanceMeters - bestCandidate.distanceMeters
-    if (distanceDelta < -EDGE_SELECTION_DISTANCE_TIE_METERS) {
+    if (distanceDelta < -config.edgeSelectionDistanceTieMeters) {
       bestEdge = edge
       bestCandidate = candidate
       continue
     }
-    if (distanceDelta > EDGE_SELECTION_DISTANCE_TIE_METERS) {
+    if (distanceDelta > config.edgeSelectionDistanceTieMeters) {
       continue
     }
 
     const lengthDelta = edge.lengthMeters - bestEdge.lengthMeters
-    if (lengthDelta > EDGE_SELECTION_LENGTH_TIE_METERS) {
+    if (lengthDelta > config.edgeSelectionLengthTieMeters) {
       bestEdge = edge
       bestCandidate = candidate
       continue
     }
-    if (lengthDelta < -EDGE_SELECTION_LENGTH_TIE_METERS) {
+    if (lengthDelta < -config.edgeSelectionLengthTieMeters) {
       continue
     }
 
@@ -675,27 +489,185 @@ function determineLotType(
   }
 }
 
-export function analyzeParcel(
-  parcel: ParcelFeature,
-  map?: MapboxMap,
-): ParcelAnalysis {
-  const ring = parcel.geometry.coordinates[0] ?? []
-  const edges = toRingEdges(ring)
+type FrontageSource = 'primary-street' | 'other-street' | 'fallback'
 
-  const primaryStreet = extractPrimaryStreet(
-    parcel.properties.fullAddress,
-    parcel.properties.streetName,
+interface MatchLimits {
+  distanceMeters: number
+  orientationDeg: number
+}
+
+function strictMatchLimits(edgeType: EdgeType, config: AnalysisConfig): MatchLimits {
+  if (edgeType === 'Rear Lane') {
+    return { distanceMeters: config.laneProximityMeters, orientationDeg: config.laneOrientationDeg }
+  }
+  return { distanceMeters: config.roadProximityMeters, orientationDeg: config.roadOrientationDeg }
+}
+
+function relaxedMatchLimits(edgeType: EdgeType, config: AnalysisConfig): MatchLimits {
+  if (edgeType === 'Rear Lane') {
+    return {
+      distanceMeters: config.relaxedLaneDistanceMeters,
+      orientationDeg: config.relaxedLaneOrientationDeg,
+    }
+  }
+  if (edgeType === 'Flankage') {
+    return {
+      distanceMeters: config.relaxedFlankageStreetDistanceMeters,
+      orientationDeg: config.relaxedFlankageStreetOrientationDeg,
+    }
+  }
+  return {
+    distanceMeters: config.relaxedFrontageStreetDistanceMeters,
+    orientationDeg: config.relaxedFrontageStreetOrientationDeg,
+  }
+}
+
+// Evidence for the road match already applied to a road-facing edge.
+function matchEvidence(edge: EdgeAnalysis, config: AnalysisConfig): ConfidenceEvidence[] {
+  const distance = edge.roadDistanceMeters
+  const orientation = edge.orientationDiffDeg
+  if (distance === null || orientation === null) return []
+
+  const road = edge.roadName || `unnamed ${edge.roadKind ?? 'road'}`
+  const strict = strictMatchLimits(edge.type, config)
+  const isStrict = distance <= strict.distanceMeters && orientation <= strict.orientationDeg
+  const limits = isStrict ? strict : relaxedMatchLimits(edge.type, config)
+  const evidence: ConfidenceEvidence[] = [
+    isStrict
+      ? { factor: 'strict-match', label: `${road} within strict thresholds`, impact: 0 }
+      : {
+          factor: 'relaxed-match',
+          label: `${road} only matched with relaxed thresholds`,
+          impact: CONFIDENCE_IMPACTS.relaxedMatch,
+        },
+  ]
+
+  const distanceImpact = marginImpact(distance, limits.distanceMeters, CONFIDENCE_IMPACTS.distanceMargin)
+  if (distanceImpact < 0) {
+    evidence.push({
+      factor: 'distance-margin',
+      label: `${road} is ${distance.toFixed(1)}m away, close to the ${limits.distanceMeters}m limit`,
+      impact: distanceImpact,
+    })
+  }
+  const orientationImpact = marginImpact(
+    orientation,
+    limits.orientationDeg,
+    CONFIDENCE_IMPACTS.orientationMargin,
   )
-  const normalizedPrimaryStreet = normalizeStreetName(primaryStreet)
+  if (orientationImpact < 0) {
+    evidence.push({
+      factor: 'orientation-margin',
+      label: `${road} is ${orientation.toFixed(0)}° off parallel, close to the ${limits.orientationDeg}° limit`,
+      impact: orientationImpact,
+    })
+  }
+  return evidence
+}
+
+function unusedStreetEvidence(matches: EvaluatedRoadCandidate[]): ConfidenceEvidence[] {
+  const street = matches.find((candidate) => candidate.kind === 'street' && candidate.isAdjacent)
+  if (!street) return []
+  return [
+    {
+      factor: 'unused-street-nearby',
+      label: `${street.name || 'Unnamed street'} is within strict range but was not used`,
+      impact: CONFIDENCE_IMPACTS.unusedStreetNearby,
+    },
+  ]
+}
+
+function buildEdgeEvidence(
+  edge: EdgeAnalysis,
+  matches: EvaluatedRoadCandidate[],
+  context: {
+    frontageIndex: number
+    frontageSource: FrontageSource
+    primaryStreet: string
+  },
+  config: AnalysisConfig,
+): ConfidenceEvidence[] {
+  if (edge.type === 'Side') return unusedStreetEvidence(matches)
+  if (edge.type === 'Rear') {
+    return [
+      { factor: 'no-lane', label: 'No lane found behind the rear line', impact: 0 },
+      ...unusedStreetEvidence(matches),
+    ]
+  }
+  // Flankage, Rear Lane and the second frontage of a double-fronting lot.
+  if (edge.index !== context.frontageIndex) return matchEvidence(edge, config)
+
+  if (context.frontageSource === 'fallback') {
+    return [
+      {
+        factor: 'no-street-evidence',
+        label: 'No street found; the longest edge was taken as frontage',
+        impact: CONFIDENCE_IMPACTS.noStreetEvidence,
+      },
+    ]
+  }
+
+  const evidence: ConfidenceEvidence[] = [
+    context.frontageSource === 'primary-street'
+      ? {
+          factor: 'primary-street-match',
+          label: `Matches primary street ${context.primaryStreet}`,
+          impact: 0,
+        }
+      : {
+          factor: 'primary-street-mismatch',
+          label: context.primaryStreet
+            ? `Does not face the primary street ${context.primaryStreet}`
+            : 'No primary street in the address to confirm the frontage',
+          impact: CONFIDENCE_IMPACTS.primaryStreetMismatch,
+        },
+    ...matchEvidence(edge, config),
+  ]
+
+  const frontageStreet = normalizeStreetName(edge.roadName)
+  const conflicting = matches.find(
+    (candidate) =>
+      candidate.kind === 'street' &&
+      candidate.isAdjacent &&
+      normalizeStreetName(candidate.name) !== frontageStreet,
+  )
+  if (conflicting) {
+    evidence.push({
+      factor: 'conflicting-candidate',
+      label: `${conflicting.name || 'Another street'} is also adjacent to the frontage`,
+      impact: CONFIDENCE_IMPACTS.conflictingCandidate,
+    })
+  }
+  return evidence
+}
+
+interface PartClassification {
+  lotType: LotType
+  reason: string
+  confidence: ParcelAnalysis['confidence']
+  confidenceScore: number
+  evidence: ConfidenceEvidence[]
+  // -1 when the part has no frontage or no opposite edge.
+  frontageIndex: number
+  oppositeIndex: number
+}
+
+// Classifies the outer-ring edges of one polygon part in place and returns that part's lot type.
+function classifyPartEdges(
+  edges: EdgeAnalysis[],
+  normalizedPrimaryStreet: string,
+  roads: RoadNetworkProvider | undefined,
+  config: AnalysisConfig,
+): PartClassification {
   const edgeMatches = new Map<number, EvaluatedRoadCandidate[]>()
 
-  if (map) {
+  if (roads) {
     for (const edge of edges) {
-      const matches = findEvaluatedRoadCandidatesForEdge(map, edge)
+      const matches = findEvaluatedRoadCandidatesForEdge(roads, edge, config)
       edgeMatches.set(edge.index, matches)
 
       const defaultMatch =
-        firstAdjacentStreet(matches, false, 'frontage') ??
+        firstAdjacentStreet(matches, config, false, 'frontage') ??
         matches.find((candidate) => candidate.isAdjacent) ??
         matches[0]
       if (!defaultMatch) {
@@ -708,12 +680,12 @@ export function analyzeParcel(
 
   const strictCandidateStreetEdges = edges.filter(
     (edge) =>
-      firstAdjacentStreet(edgeMatches.get(edge.index) ?? [], false, 'frontage') !==
+      firstAdjacentStreet(edgeMatches.get(edge.index) ?? [], config, false, 'frontage') !==
       null,
   )
   const relaxedCandidateStreetEdges = edges.filter(
     (edge) =>
-      firstAdjacentStreet(edgeMatches.get(edge.index) ?? [], true, 'frontage') !==
+      firstAdjacentStreet(edgeMatches.get(edge.index) ?? [], config, true, 'frontage') !==
       null,
   )
   const candidateStreetEdges =
@@ -726,13 +698,13 @@ export function analyzeParcel(
 
   if (normalizedPrimaryStreet) {
     // Frontage selection is strict-first on matching street name, then relaxed fallback.
-    frontageEdge = selectNearestEdgeByStreetCandidate(edges, edgeMatches, {
+    frontageEdge = selectNearestEdgeByStreetCandidate(edges, edgeMatches, config, {
       normalizedStreet: normalizedPrimaryStreet,
       allowRelaxed: false,
       relaxMode: 'frontage',
     })
     if (!frontageEdge) {
-      frontageEdge = selectNearestEdgeByStreetCandidate(edges, edgeMatches, {
+      frontageEdge = selectNearestEdgeByStreetCandidate(edges, edgeMatches, config, {
         normalizedStreet: normalizedPrimaryStreet,
         allowRelaxed: true,
         relaxMode: 'frontage',
@@ -745,6 +717,7 @@ export function analyzeParcel(
     frontageEdge = selectNearestEdgeByStreetCandidate(
       candidateStreetEdges,
       edgeMatches,
+      config,
       {
         allowRelaxed: false,
         relaxMode: 'frontage',
@@ -756,6 +729,7 @@ export function analyzeParcel(
     frontageEdge = selectNearestEdgeByStreetCandidate(
       candidateStreetEdges,
       edgeMatches,
+      config,
       {
         allowRelaxed: true,
         relaxMode: 'frontage',
@@ -777,9 +751,10 @@ export function analyzeParcel(
       firstAdjacentStreetByName(
         frontageMatches,
         normalizedPrimaryStreet,
+        config,
         true,
         'frontage',
-      ) ?? firstAdjacentStreet(frontageMatches, true, 'frontage')
+      ) ?? firstAdjacentStreet(frontageMatches, config, true, 'frontage')
     if (frontageStreetMatch) {
       applyMatchToEdge(frontageEdge, frontageStreetMatch)
       frontageEdge.isRoadAdjacent = true
@@ -788,8 +763,9 @@ export function analyzeParcel(
   }
 
   const oppositeIndex =
-    frontageIndex >= 0 ? findOppositeEdgeIndex(edges, frontageIndex) : -1
-  const oppositeEdge = oppositeIndex >= 0 ? edges[oppositeIndex] ?? null : null
+    frontageIndex >= 0 ? findOppositeEdgeIndex(edges, frontageIndex, config) : -1
+  const oppositeEdge =
+    oppositeIndex >= 0 ? edges.find((edge) => edge.index === oppositeIndex) ?? null : null
   const frontageStreetNormalized =
     normalizeStreetName(frontageEdge?.roadName ?? '') || normalizedPrimaryStreet
 
@@ -802,6 +778,7 @@ export function analyzeParcel(
     const oppositeMatches = edgeMatches.get(oppositeEdge.index) ?? []
     const oppositeStreetCandidate = firstAdjacentStreet(
       oppositeMatches,
+      config,
       true,
       'frontage',
     )
@@ -832,6 +809,7 @@ export function analyzeParcel(
       const flankageStreetCandidate = firstDifferentStreetCandidate(
         matches,
         baseFrontageStreet,
+        config,
         allowRelaxed,
       )
       if (!flankageStreetCandidate) continue
@@ -858,7 +836,7 @@ export function analyzeParcel(
   let usedRelaxedLane = false
   if (oppositeEdge && !isDoubleFronting) {
     const oppositeMatches = edgeMatches.get(oppositeEdge.index) ?? []
-    const oppositeLane = firstAdjacentLane(oppositeMatches, true)
+    const oppositeLane = firstAdjacentLane(oppositeMatches, config, true)
     if (oppositeLane) {
       oppositeEdge.type = 'Rear Lane'
       applyMatchToEdge(oppositeEdge, oppositeLane)
@@ -899,33 +877,107 @@ export function analyzeParcel(
     finalReason = `${finalReason} Lane detected using relaxed rear-lane fallback.`
   }
 
-  let confidence: 'high' | 'medium' | 'low' = 'high'
-  if (!frontageMatchedByPrimaryStreet) {
-    confidence = candidateStreetEdges.length > 0 ? 'medium' : 'low'
+  let frontageSource: FrontageSource = 'fallback'
+  if (frontageMatchedByPrimaryStreet) {
+    frontageSource = 'primary-street'
+  } else if (candidateStreetEdges.length > 0) {
+    frontageSource = 'other-street'
   }
-  if (lotType === 'Double Fronting' && !frontageMatchedByPrimaryStreet) {
-    confidence = 'medium'
+
+  const evidence: ConfidenceEvidence[] = []
+  for (const edge of edges) {
+    edge.evidence = buildEdgeEvidence(
+      edge,
+      edgeMatches.get(edge.index) ?? [],
+      { frontageIndex, frontageSource, primaryStreet: normalizedPrimaryStreet },
+      config,
+    )
+    edge.confidenceScore = scoreEvidence(edge.evidence)
+    for (const item of edge.evidence) {
+      evidence.push({ ...item, label: `Edge ${edge.index + 1}: ${item.label}` })
+    }
   }
-  if (usedRelaxedFlankage || usedRelaxedLane) {
-    confidence = confidence === 'low' ? 'low' : 'medium'
+  const confidenceScore = scoreEvidence(evidence)
+  const confidence = confidenceLevel(confidenceScore)
+
+  return {
+    lotType,
+    reason: finalReason,
+    confidence,
+    confidenceScore,
+    evidence,
+    frontageIndex,
+    oppositeIndex,
   }
+}
 
-  const parcelFeature: Feature<Polygon> = {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: parcel.geometry.coordinates,
-    },
-    properties: {},
+export function analyzeParcel(
+  parcel: ParcelFeature,
+  roads?: RoadNetworkProvider,
+  config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG,
+): ParcelAnalysis {
+  const primaryStreet = extractPrimaryStreet(
+    parcel.properties.fullAddress,
+    parcel.properties.streetName,
+  )
+  const normalizedPrimaryStreet = normalizeStreetName(primaryStreet)
+
+  const edges: EdgeAnalysis[] = []
+  let primaryPart: (PartClassification & { areaM2: number }) | null = null
+  const polygons = parcelPolygons(parcel.geometry)
+
+  for (let partIndex = 0; partIndex < polygons.length; partIndex += 1) {
+    const polygon = polygons[partIndex] ?? []
+    // Only outer rings are lot lines; holes are interior and never face a road.
+    const partEdges = toRingEdges(polygon[0] ?? [], partIndex, edges.length, config)
+    if (partEdges.length === 0) continue
+    edges.push(...partEdges)
+
+    const classification = classifyPartEdges(
+      partEdges,
+      normalizedPrimaryStreet,
+      roads,
+      config,
+    )
+    const partArea = area({
+      type: 'Feature',
+      geometry: { type: 'Polygon', coordinates: polygon },
+      properties: {},
+    })
+    if (!primaryPart || partArea > primaryPart.areaM2) {
+      primaryPart = { ...classification, areaM2: partArea }
+    }
   }
-  const parcelArea = area(parcelFeature)
+
+  const fallback = determineLotType(false, false, null)
+  const lotType = primaryPart?.lotType ?? fallback.lotType
+  let reason = primaryPart?.reason ?? fallback.reason
+  if (polygons.length > 1) {
+    reason = `${reason} Split lot with ${polygons.length} parts; lot type comes from the largest part.`
+  }
+
+  // Turf subtracts interior rings, so holes are already excluded from the area.
+  const parcelArea = area({ type: 'Feature', geometry: parcel.geometry, properties: {} })
+
+  // Depth is measured on the largest part, the same part that decides the lot type.
+  const dimensions = measureLotDimensions(
+    parcel.geometry,
+    parcelArea,
+    edges,
+    primaryPart?.frontageIndex ?? -1,
+    primaryPart?.oppositeIndex ?? -1,
+  )
 
   return {
     areaM2: parcelArea,
     primaryStreet,
     lotType,
-    reason: finalReason,
-    confidence,
+    isLotTypeOverridden: false,
+    reason,
+    confidence: primaryPart?.confidence ?? 'low',
+    confidenceScore: primaryPart?.confidenceScore ?? 0,
+    evidence: primaryPart?.evidence ?? [],
+    dimensions,
     edges,
   }
 }
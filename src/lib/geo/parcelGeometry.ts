@@ -0,0 +1,47 @@
+import type { ParcelGeometry, Position } from '../../types/parcel'
+
+export type Bounds = [west: number, south: number, east: number, north: number]
+
+// Every parcel as a list of polygons (outer ring first, then holes), whatever its geometry type.
+export function parcelPolygons(geometry: ParcelGeometry): Position[][][] {
+  return geometry.type === 'MultiPolygon' ? geometry.coordinates : [geometry.coordinates]
+}
+
+export function parcelOuterRings(geometry: ParcelGeometry): Position[][] {
+  return parcelPolygons(geometry)
+    .map((polygon) => polygon[0] ?? [])
+    .filter((ring) => ring.length > 0)
+}
+
+export function ringBounds(ring: Position[]): Bounds | null {
+  if (ring.length === 0) return null
+  let west = Number.POSITIVE_INFINITY
+  let south = Number.POSITIVE_INFINITY
+  let east = Number.NEGATIVE_INFINITY
+  let north = Number.NEGATIVE_INFINITY
+  for (const [lon, lat] of ring) {
+    if (lon < west) west = lon
+    if (lon > east) east = lon
+    if (lat < south) south = lat
+    if (lat > north) north = lat
+  }
+  return [west, south, east, north]
+}
+
+export function parcelBounds(geometry: ParcelGeometry): Bounds | null {
+  // Holes sit inside their outer ring, so outer rings alone define the extent.
+  let merged: Bounds | null = null
+  for (const ring of parcelOuterRings(geometry)) {
+    const bounds = ringBounds(ring)
+    if (!bounds) continue
+    merged = merged
+      ? [
+          Math.min(merged[0], bounds[0]),
+          Math.min(merged[1], bounds[1]),
+          Math.max(merged[2], bounds[2]),
+          Math.max(merged[3], bounds[3]),
+        ]
+      : bounds
+  }
+  return merged
+}
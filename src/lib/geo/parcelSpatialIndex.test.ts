@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import type { ParcelFeature, Position } from '../../types/parcel'
+import type { Bounds } from './parcelGeometry'
+import { createParcelSpatialIndex } from './parcelSpatialIndex'
+
+// Local metres around Vancouver, same origin as the classification fixtures.
+const LAT0 = 49.26
+const LON0 = -123.1
+const METRES_PER_DEG_LAT = 111320
+const METRES_PER_DEG_LON = 111320 * Math.cos((LAT0 * Math.PI) / 180)
+
+function at(x: number, y: number): Position {
+  return [LON0 + x / METRES_PER_DEG_LON, LAT0 + y / METRES_PER_DEG_LAT]
+}
+
+function box(x0: number, y0: number, x1: number, y1: number): Position[] {
+  return [at(x0, y0), at(x1, y0), at(x1, y1), at(x0, y1), at(x0, y0)]
+}
+
+function boundsOf(x0: number, y0: number, x1: number, y1: number): Bounds {
+  const [west, south] = at(x0, y0)
+  const [east, north] = at(x1, y1)
+  return [west, south, east, north]
+}
+
+function parcel(id: string, rings: Position[][], label: Position): ParcelFeature {
+  return {
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: rings },
+    properties: {
+      id,
+      siteId: id,
+      taxCoord: '',
+      civicNumber: '',
+      streetName: '',
+      fullAddress: id,
+      lon: label[0],
+      lat: label[1],
+      zoningCode: '',
+    },
+  }
+}
+
+// A 10 m wide row of 50 lots along y = 0..30, plus one long lot whose label point sits far east.
+const row = Array.from({ length: 50 }, (_, index) =>
+  parcel(`lot-${index}`, [box(index * 10, 0, index * 10 + 10, 30)], at(index * 10 + 5, 15)),
+)
+const longLot = parcel('long', [box(0, 40, 1000, 60)], at(900, 50))
+const courtyard = parcel('courtyard', [box(0, 100, 60, 160), box(20, 120, 40, 140)], at(10, 130))
+const strata = parcel('strata', [box(25, 125, 35, 135)], at(30, 130))
+const index = createParcelSpatialIndex([...row, longLot, courtyard, strata], 4)
+
+function ids(parcels: ParcelFeature[]): string[] {
+  return parcels.map((feature) => feature.properties.id).sort()
+}
+
+describe('createParcelSpatialIndex', () => {
+  it('returns parcels whose extent overlaps the viewport, not just their label point', () => {
+    const found = ids(index.queryBounds(boundsOf(0, 35, 50, 65), { paddingRatio: 0 }))
+    expect(found).toEqual(['long'])
+  })
+
+  it('matches a brute-force scan for viewport queries', () => {
+    const viewport = boundsOf(93, 5, 212, 20)
+    expect(ids(index.queryBounds(viewport, { paddingRatio: 0 }))).toEqual(
+      ids(row.slice(9, 22)),
+    )
+  })
+
+  it('keeps the parcels nearest the centre when capped', () => {
+    const found = index.queryBounds(boundsOf(0, 0, 500, 30), {
+      paddingRatio: 0,
+      maxFeatures: 3,
+      center: at(255, 15),
+    })
+    expect(found[0]?.properties.id).toBe('lot-25')
+    expect(ids(found)).toEqual(['lot-24', 'lot-25', 'lot-26'])
+  })
+
+  it('finds the parcel containing a point', () => {
+    expect(index.findParcelAt(...at(123, 12))?.properties.id).toBe('lot-12')
+    expect(index.findParcelAt(...at(700, 50))?.properties.id).toBe('long')
+    // Streets between lots and the courtyard's hole belong to no parcel.
+    expect(index.findParcelAt(...at(100, 35))).toBeNull()
+    expect(index.findParcelAt(...at(22, 122))).toBeNull()
+  })
+
+  it('prefers the smallest parcel where parcels are stacked', () => {
+    expect(index.findParcelAt(...at(10, 110))?.properties.id).toBe('courtyard')
+    expect(index.findParcelAt(...at(30, 130))?.properties.id).toBe('strata')
+  })
+
+  it('ranks nearest parcels by distance to their edges', () => {
+    const [first, second] = index.nearest(at(305, -8), { limit: 2 })
+    expect(first?.parcel.properties.id).toBe('lot-30')
+    expect(first?.distanceMeters).toBeCloseTo(8, 1)
+    expect(second?.parcel.properties.id).toMatch(/^lot-(29|31)$/)
+
+    expect(index.nearest(at(700, 50))[0]).toMatchObject({ distanceMeters: 0 })
+    expect(index.nearest(at(305, -80), { maxDistanceMeters: 50 })).toEqual([])
+  })
+})
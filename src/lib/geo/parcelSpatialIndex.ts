@@ -0,0 +1,256 @@
+import { area, booleanPointInPolygon } from '@turf/turf'
+import type { ParcelFeature, Position } from '../../types/parcel'
+import { createLocalProjection, type LocalPoint } from './localProjection'
+import { parcelBounds, parcelPolygons, type Bounds } from './parcelGeometry'
+
+const DEFAULT_NODE_SIZE = 16
+const METRES_PER_DEGREE_LAT = 111320
+
+export interface QueryParcelsOptions {
+  paddingRatio?: number
+  maxFeatures?: number
+  center?: Position
+}
+
+export interface NearestParcelOptions {
+  limit?: number
+  maxDistanceMeters?: number
+}
+
+export interface NearestParcel {
+  parcel: ParcelFeature
+  // Zero when the point is inside the parcel.
+  distanceMeters: number
+}
+
+// Static bounding-box tree (R-tree, sort-tile-recursive packed) over each parcel's full polygon
+// extent, so a large lot shows up wherever any part of it is on screen.
+export interface ParcelSpatialIndex {
+  size: number
+  queryBounds: (bounds: Bounds, options?: QueryParcelsOptions) => ParcelFeature[]
+  nearest: (point: Position, options?: NearestParcelOptions) => NearestParcel[]
+  // The parcel whose polygon contains the point; the smallest one where stacked parcels overlap.
+  findParcelAt: (lon: number, lat: number) => ParcelFeature | null
+}
+
+interface IndexedParcel {
+  parcel: ParcelFeature
+  bounds: Bounds
+}
+
+interface IndexNode {
+  bounds: Bounds
+  // Internal nodes hold children, leaves hold parcels.
+  children: IndexNode[]
+  entries: IndexedParcel[]
+}
+
+function unionBounds(items: Array<{ bounds: Bounds }>): Bounds {
+  let west = Number.POSITIVE_INFINITY
+  let south = Number.POSITIVE_INFINITY
+  let east = Number.NEGATIVE_INFINITY
+  let north = Number.NEGATIVE_INFINITY
+  for (const { bounds } of items) {
+    west = Math.min(west, bounds[0])
+    south = Math.min(south, bounds[1])
+    east = Math.max(east, bounds[2])
+    north = Math.max(north, bounds[3])
+  }
+  return [west, south, east, north]
+}
+
+function centerX({ bounds }: { bounds: Bounds }): number {
+  return (bounds[0] + bounds[2]) / 2
+}
+
+function centerY({ bounds }: { bounds: Bounds }): number {
+  return (bounds[1] + bounds[3]) / 2
+}
+
+// Sort-tile-recursive grouping: vertical slices by x, then runs of `nodeSize` by y within each slice.
+function packGroups<T extends { bounds: Bounds }>(items: T[], nodeSize: number): T[][] {
+  const sliceCount = Math.ceil(Math.sqrt(Math.ceil(items.length / nodeSize)))
+  const sliceSize = Math.ceil(items.length / sliceCount)
+  const byX = [...items].sort((a, b) => centerX(a) - centerX(b))
+
+  const groups: T[][] = []
+  for (let start = 0; start < byX.length; start += sliceSize) {
+    const slice = byX.slice(start, start + sliceSize).sort((a, b) => centerY(a) - centerY(b))
+    for (let offset = 0; offset < slice.length; offset += nodeSize) {
+      groups.push(slice.slice(offset, offset + nodeSize))
+    }
+  }
+  return groups
+}
+
+function buildTree(entries: IndexedParcel[], nodeSize: number): IndexNode | null {
+  if (entries.length === 0) return null
+  let level: IndexNode[] = packGroups(entries, nodeSize).map((group) => ({
+    bounds: unionBounds(group),
+    children: [],
+    entries: group,
+  }))
+  while (level.length > 1) {
+    level = packGroups(level, nodeSize).map((group) => ({
+      bounds: unionBounds(group),
+      children: group,
+      entries: [],
+    }))
+  }
+  return level[0] ?? null
+}
+
+function intersects(a: Bounds, b: Bounds): boolean {
+  return a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1]
+}
+
+function containsPoint(bounds: Bounds, [lon, lat]: Position): boolean {
+  return lon >= bounds[0] && lon <= bounds[2] && lat >= bounds[1] && lat <= bounds[3]
+}
+
+// Lower bound on the distance from a point to anything inside the box, in metres.
+function boxDistanceMeters(bounds: Bounds, [lon, lat]: Position): number {
+  const dx = Math.max(bounds[0] - lon, 0, lon - bounds[2])
+  const dy = Math.max(bounds[1] - lat, 0, lat - bounds[3])
+  const metresPerDegreeLon = METRES_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180)
+  return Math.hypot(dx * metresPerDegreeLon, dy * METRES_PER_DEGREE_LAT)
+}
+
+function segmentDistance(point: LocalPoint, a: LocalPoint, b: LocalPoint): number {
+  const dx = b[0] - a[0]
+  const dy = b[1] - a[1]
+  const lengthSq = dx * dx + dy * dy
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((point[0] - a[0]) * dx + (point[1] - a[1]) * dy) / lengthSq))
+  return Math.hypot(point[0] - (a[0] + t * dx), point[1] - (a[1] + t * dy))
+}
+
+function parcelDistanceMeters(parcel: ParcelFeature, point: Position): number {
+  if (booleanPointInPolygon(point, parcel)) return 0
+  const projection = createLocalProjection(point)
+  let best = Number.POSITIVE_INFINITY
+  for (const polygon of parcelPolygons(parcel.geometry)) {
+    for (const ring of polygon) {
+      for (let index = 0; index < ring.length - 1; index += 1) {
+        const a = ring[index]
+        const b = ring[index + 1]
+        if (!a || !b) continue
+        best = Math.min(
+          best,
+          segmentDistance([0, 0], projection.toLocal(a), projection.toLocal(b)),
+        )
+      }
+    }
+  }
+  return best
+}
+
+function collectInBounds(node: IndexNode, bounds: Bounds, out: IndexedParcel[]) {
+  if (!intersects(node.bounds, bounds)) return
+  for (const entry of node.entries) {
+    if (intersects(entry.bounds, bounds)) out.push(entry)
+  }
+  for (const child of node.children) collectInBounds(child, bounds, out)
+}
+
+function collectAtPoint(node: IndexNode, point: Position, out: IndexedParcel[]) {
+  if (!containsPoint(node.bounds, point)) return
+  for (const entry of node.entries) {
+    if (containsPoint(entry.bounds, point)) out.push(entry)
+  }
+  for (const child of node.children) collectAtPoint(child, point, out)
+}
+
+type QueueItem =
+  | { distance: number; node: IndexNode }
+  | { distance: number; entry: IndexedParcel; exact: boolean }
+
+// Keeps the queue sorted so the closest candidate is always at the end.
+function enqueue(queue: QueueItem[], item: QueueItem) {
+  let index = queue.length
+  while (index > 0 && (queue[index - 1]?.distance ?? 0) < item.distance) index -= 1
+  queue.splice(index, 0, item)
+}
+
+export function createParcelSpatialIndex(
+  parcels: ParcelFeature[],
+  nodeSize = DEFAULT_NODE_SIZE,
+): ParcelSpatialIndex {
+  const entries: IndexedParcel[] = []
+  for (const parcel of parcels) {
+    const bounds = parcelBounds(parcel.geometry)
+    if (bounds) entries.push({ parcel, bounds })
+  }
+  const root = buildTree(entries, Math.max(2, nodeSize))
+
+  return {
+    size: entries.length,
+    queryBounds: (bounds, options = {}) => {
+      const { paddingRatio = 0.22, maxFeatures = Number.POSITIVE_INFINITY, center } = options
+      const [west, south, east, north] = bounds
+      const lonPadding = Math.max(0, east - west) * paddingRatio
+      const latPadding = Math.max(0, north - south) * paddingRatio
+      const padded: Bounds = [
+        west - lonPadding,
+        south - latPadding,
+        east + lonPadding,
+        north + latPadding,
+      ]
+
+      const selected: IndexedParcel[] = []
+      if (root) collectInBounds(root, padded, selected)
+      if (selected.length <= maxFeatures) return selected.map((entry) => entry.parcel)
+
+      // Over the cap, keep the parcels closest to the centre; anything overlapping it ranks first.
+      const focus: Position = center ?? [(padded[0] + padded[2]) / 2, (padded[1] + padded[3]) / 2]
+      return selected
+        .map((entry) => ({ entry, distance: boxDistanceMeters(entry.bounds, focus) }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, maxFeatures)
+        .map(({ entry }) => entry.parcel)
+    },
+    nearest: (point, options = {}) => {
+      const { limit = 1, maxDistanceMeters = Number.POSITIVE_INFINITY } = options
+      const results: NearestParcel[] = []
+      if (!root || limit <= 0) return results
+
+      // Best-first search: box distances are lower bounds, so an exact distance popped from the
+      // queue is never beaten by anything still in it.
+      const queue: QueueItem[] = [{ distance: boxDistanceMeters(root.bounds, point), node: root }]
+      while (queue.length > 0 && results.length < limit) {
+        const item = queue.pop()
+        if (!item || item.distance > maxDistanceMeters) break
+        if ('node' in item) {
+          for (const child of item.node.children) {
+            enqueue(queue, { distance: boxDistanceMeters(child.bounds, point), node: child })
+          }
+          for (const entry of item.node.entries) {
+            enqueue(queue, { distance: boxDistanceMeters(entry.bounds, point), entry, exact: false })
+          }
+        } else if (item.exact) {
+          results.push({ parcel: item.entry.parcel, distanceMeters: item.distance })
+        } else {
+          const distance = parcelDistanceMeters(item.entry.parcel, point)
+          enqueue(queue, { distance, entry: item.entry, exact: true })
+        }
+      }
+      return results
+    },
+    findParcelAt: (lon, lat) => {
+      if (!root || !Number.isFinite(lon) || !Number.isFinite(lat)) return null
+      const point: Position = [lon, lat]
+      const candidates: IndexedParcel[] = []
+      collectAtPoint(root, point, candidates)
+
+      let best: { parcel: ParcelFeature; areaM2: number } | null = null
+      for (const { parcel } of candidates) {
+        if (!booleanPointInPolygon(point, parcel)) continue
+        const areaM2 = area(parcel)
+        if (!best || areaM2 < best.areaM2) best = { parcel, areaM2 }
+      }
+      return best?.parcel ?? null
+    },
+  }
+}
@@ -0,0 +1,44 @@
+import type { GeoJSONFeature, Map as MapboxMap } from 'mapbox-gl'
+import { describe, expect, it } from 'vitest'
+import type { Position } from '../../types/parcel'
+import { queryRenderedRoadCandidates } from './roadNetwork'
+
+function rendered(coordinates: Position[], layer: string): GeoJSONFeature {
+  return {
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates },
+    properties: { name: 'Main Street', class: 'street' },
+    sourceLayer: 'road',
+    layer: { id: layer },
+  } as unknown as GeoJSONFeature
+}
+
+// Only what the query reads: projection, zoom and the rendered features in the box.
+function fakeMap(features: GeoJSONFeature[]): MapboxMap {
+  return {
+    project: ([lon, lat]: Position) => ({ x: lon * 1e5, y: -lat * 1e5 }),
+    getZoom: () => 17,
+    queryRenderedFeatures: () => features,
+  } as unknown as MapboxMap
+}
+
+describe('queryRenderedRoadCandidates', () => {
+  it('drops a feature drawn by several layers but keeps fragments from other tiles', () => {
+    const north: Position[] = [
+      [-123.1, 49.26],
+      [-123.1, 49.262],
+    ]
+    const south: Position[] = [
+      [-123.1, 49.258],
+      [-123.1, 49.26],
+    ]
+    const map = fakeMap([
+      rendered(north, 'road-street-case'),
+      rendered(north, 'road-street'),
+      rendered(south, 'road-street'),
+    ])
+
+    const candidates = queryRenderedRoadCandidates(map, [-123.1005, 49.2595, -123.0995, 49.2605])
+    expect(candidates.map((candidate) => candidate.lines)).toEqual([[north], [south]])
+  })
+})
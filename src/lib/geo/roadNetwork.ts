@@ -0,0 +1,330 @@
+import type { GeoJSONFeature, Map as MapboxMap } from 'mapbox-gl'
+import type {
+  EdgeAnalysis,
+  Position,
+  RoadFeature,
+  RoadFeatureCollection,
+  RoadKind,
+} from '../../types/parcel'
+import type { Bounds } from './parcelGeometry'
+import { normalizeStreetName } from './streetNames'
+
+const EDGE_QUERY_BUFFER_METERS = 52
+const MIN_QUERY_PADDING_PX = 38
+const MAX_QUERY_PADDING_PX = 220
+const LOCAL_CELL_SIZE_DEG = 0.002
+const METERS_PER_DEGREE_LAT = 111320
+
+export interface RoadCandidate {
+  name: string
+  kind: Exclude<RoadKind, null>
+  className: string
+  sourceLayer: string
+  lines: Position[][]
+}
+
+export type RoadEdgeQuery = Pick<EdgeAnalysis, 'start' | 'end' | 'midpoint'>
+
+export interface RoadNetworkProvider {
+  // 'rendered' results vary with zoom/style/loaded tiles; 'local' results are stable.
+  source: 'rendered' | 'local'
+  findCandidatesNearEdge: (edge: RoadEdgeQuery) => RoadCandidate[]
+}
+
+function suffixRoadKindFromName(name: string): RoadKind {
+  const normalized = normalizeStreetName(name)
+  if (!normalized) return null
+  if (normalized.endsWith(' lane')) return 'lane'
+  if (normalized.endsWith(' street')) return 'street'
+  return null
+}
+
+function isBikeOrPedestrianWay(
+  name: string,
+  className: string,
+  sourceLayer: string,
+): boolean {
+  const joined = `${name} ${className} ${sourceLayer}`.toLowerCase()
+  return /(cycleway|bike[\s_-]?lane|bikeway|greenway|shared[\s_-]?use|multi[\s_-]?use|footway|sidewalk|pedestrian|crossing|steps|\bpath\b)/.test(
+    joined,
+  )
+}
+
+function isLineGeometry(geometry: unknown): boolean {
+  if (!geometry || typeof geometry !== 'object') return false
+  const type = (geometry as { type?: unknown }).type
+  return type === 'LineString' || type === 'MultiLineString'
+}
+
+function readStringProperty(
+  properties: Record<string, unknown>,
+  keys: string[],
+): string {
+  for (const key of keys) {
+    const value = properties[key]
+    if (typeof value === 'string' && value.trim().length > 0) {
+      return value.trim()
+    }
+  }
+  return ''
+}
+
+function toPosition(value: unknown): Position | null {
+  if (!Array.isArray(value) || value.length < 2) return null
+  const lon = Number(value[0])
+  const lat = Number(value[1])
+  if (!Number.isFinite(lon) || !Number.isFinite(lat)) return null
+  return [lon, lat]
+}
+
+function normalizeLine(rawLine: unknown): Position[] {
+  if (!Array.isArray(rawLine)) return []
+  const coordinates: Position[] = []
+  for (const coordinate of rawLine) {
+    const position = toPosition(coordinate)
+    if (position) coordinates.push(position)
+  }
+  return coordinates
+}
+
+function extractLineCollections(geometry: { type?: unknown; coordinates?: unknown } | null): Position[][] {
+  if (!geometry || typeof geometry !== 'object') return []
+
+  if (geometry.type === 'LineString') {
+    const line = normalizeLine(geometry.coordinates)
+    return line.length >= 2 ? [line] : []
+  }
+
+  if (geometry.type === 'MultiLineString') {
+    if (!Array.isArray(geometry.coordinates)) return []
+    return geometry.coordinates
+      .map((line) => normalizeLine(line))
+      .filter((line) => line.length >= 2)
+  }
+
+  return []
+}
+
+function toRenderedRoadCandidate(feature: GeoJSONFeature): RoadCandidate | null {
+  if (!isLineGeometry(feature.geometry)) return null
+
+  const properties = (feature.properties ?? {}) as Record<string, unknown>
+  const name = readStringProperty(properties, ['name', 'name_en', 'streetname', 'ref'])
+  const className = readStringProperty(properties, ['class', 'type', 'road_class', 'kind'])
+  const sourceLayer = feature.sourceLayer ?? ''
+  const joined = `${name} ${className} ${sourceLayer}`.toLowerCase()
+  const classJoined = `${className} ${sourceLayer}`.toLowerCase()
+
+  const looksRoadLike =
+    /(road|street|motorway|residential|service|highway|primary|secondary|tertiary|trunk|avenue|boulevard|lane|alley)/.test(
+      joined,
+    )
+  if (!looksRoadLike) return null
+  // Prevent bike/ped/path vectors from being treated as parcel-adjacent roads.
+  if (isBikeOrPedestrianWay(name, className, sourceLayer)) return null
+
+  const lines = extractLineCollections(feature.geometry)
+  if (lines.length === 0) return null
+
+  const suffixKind = suffixRoadKindFromName(name)
+  const normalizedName = normalizeStreetName(name)
+  const explicitLaneName = /\b(lane|alley|alleyway)\b/.test(normalizedName)
+  const explicitStreetName =
+    /\b(street|avenue|road|drive|boulevard|highway|parkway|way|place|court|crescent|trail|terrace|connector)\b/.test(
+      normalizedName,
+    )
+  const laneLikeClass = /(lane|alley|driveway|access)/.test(classJoined)
+  const serviceClass = /\bservice\b/.test(classJoined)
+  const laneLike = explicitLaneName || laneLikeClass || (serviceClass && !explicitStreetName)
+
+  let kind: Exclude<RoadKind, null>
+  if (suffixKind === 'lane') {
+    kind = 'lane'
+  } else if (suffixKind === 'street') {
+    kind = 'street'
+  } else {
+    kind = laneLike ? 'lane' : 'street'
+  }
+
+  return {
+    name,
+    kind,
+    className,
+    sourceLayer,
+    lines,
+  }
+}
+
+// The same feature comes back once per style layer that draws it (casing, fill, label), so
+// duplicates are dropped on their geometry. Fragments of one street from neighbouring tiles share
+// everything but their geometry and are all kept.
+function uniqueCandidates(candidates: RoadCandidate[]): RoadCandidate[] {
+  const seen = new Set<string>()
+  const output: RoadCandidate[] = []
+
+  for (const candidate of candidates) {
+    const geometry = candidate.lines
+      .map((line) => line.map(([lon, lat]) => `${lon.toFixed(7)},${lat.toFixed(7)}`).join(' '))
+      .join('|')
+    const key = `${candidate.name.toLowerCase()}|${candidate.className.toLowerCase()}|${candidate.kind}|${candidate.sourceLayer.toLowerCase()}|${geometry}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    output.push(candidate)
+  }
+
+  return output
+}
+
+function metersPerPixel(latitude: number, zoom: number): number {
+  const earthCircumferenceMeters = 40075016.686
+  return (
+    (earthCircumferenceMeters * Math.cos((latitude * Math.PI) / 180)) /
+    Math.pow(2, zoom + 8)
+  )
+}
+
+function queryPaddingPx(map: MapboxMap, latitude: number): number {
+  const mpp = metersPerPixel(latitude, map.getZoom())
+  if (!Number.isFinite(mpp) || mpp <= 0) return MIN_QUERY_PADDING_PX
+
+  const targetPadding = Math.ceil(EDGE_QUERY_BUFFER_METERS / mpp)
+  return Math.max(
+    MIN_QUERY_PADDING_PX,
+    Math.min(MAX_QUERY_PADDING_PX, targetPadding),
+  )
+}
+
+// The only analysis step that needs the map: collect rendered road vectors around a parcel as plain
+// candidates so the rest of the work can run off the main thread.
+export function queryRenderedRoadCandidates(map: MapboxMap, bounds: Bounds): RoadCandidate[] {
+  const [west, south, east, north] = bounds
+  // Project every corner so the box still covers the parcel when the map is rotated.
+  const corners = [
+    map.project([west, south]),
+    map.project([east, south]),
+    map.project([east, north]),
+    map.project([west, north]),
+  ]
+  const paddingPx = queryPaddingPx(map, (south + north) / 2)
+
+  const queryGeometry: [[number, number], [number, number]] = [
+    [
+      Math.min(...corners.map((point) => point.x)) - paddingPx,
+      Math.min(...corners.map((point) => point.y)) - paddingPx,
+    ],
+    [
+      Math.max(...corners.map((point) => point.x)) + paddingPx,
+      Math.max(...corners.map((point) => point.y)) + paddingPx,
+    ],
+  ]
+
+  const candidates = map
+    .queryRenderedFeatures(queryGeometry)
+    .map((feature) => toRenderedRoadCandidate(feature))
+    .filter((candidate): candidate is RoadCandidate => candidate !== null)
+
+  return uniqueCandidates(candidates)
+}
+
+function cellIndex(value: number): number {
+  return Math.floor(value / LOCAL_CELL_SIZE_DEG)
+}
+
+function cellKey(x: number, y: number): string {
+  return `${x}:${y}`
+}
+
+function toLocalRoadCandidate(feature: RoadFeature): RoadCandidate | null {
+  const lines = extractLineCollections(feature.geometry)
+  if (lines.length === 0) return null
+  const kind = feature.properties.kind === 'lane' ? 'lane' : 'street'
+  return {
+    name: feature.properties.name,
+    kind,
+    className: feature.properties.roadClass,
+    sourceLayer: 'local',
+    lines,
+  }
+}
+
+export function createLocalRoadNetwork(
+  collection: RoadFeatureCollection,
+): RoadNetworkProvider {
+  const candidates = collection.features
+    .map(toLocalRoadCandidate)
+    .filter((candidate): candidate is RoadCandidate => candidate !== null)
+  return createCandidateRoadNetwork(candidates, 'local')
+}
+
+// Grid-indexed provider over a fixed candidate list: local centrelines, or rendered roads
+// collected on the main thread.
+export function createCandidateRoadNetwork(
+  roadCandidates: RoadCandidate[],
+  source: RoadNetworkProvider['source'],
+): RoadNetworkProvider {
+  const candidates: RoadCandidate[] = []
+  const cells = new Map<string, number[]>()
+
+  for (const candidate of roadCandidates) {
+    const candidateIndex = candidates.length
+    candidates.push(candidate)
+
+    // Each road lives in every grid cell touched by its segments' bounding boxes.
+    const touched = new Set<string>()
+    for (const line of candidate.lines) {
+      for (let index = 0; index < line.length - 1; index += 1) {
+        const a = line[index]
+        const b = line[index + 1]
+        if (!a || !b) continue
+        const minX = cellIndex(Math.min(a[0], b[0]))
+        const maxX = cellIndex(Math.max(a[0], b[0]))
+        const minY = cellIndex(Math.min(a[1], b[1]))
+        const maxY = cellIndex(Math.max(a[1], b[1]))
+        for (let x = minX; x <= maxX; x += 1) {
+          for (let y = minY; y <= maxY; y += 1) {
+            touched.add(cellKey(x, y))
+          }
+        }
+      }
+    }
+
+    for (const key of touched) {
+      const bucket = cells.get(key)
+      if (bucket) {
+        bucket.push(candidateIndex)
+      } else {
+        cells.set(key, [candidateIndex])
+      }
+    }
+  }
+
+  return {
+    source,
+    findCandidatesNearEdge: (edge) => {
+      const latPadding = EDGE_QUERY_BUFFER_METERS / METERS_PER_DEGREE_LAT
+      const lonPadding =
+        EDGE_QUERY_BUFFER_METERS /
+        (METERS_PER_DEGREE_LAT * Math.max(Math.cos((edge.midpoint[1] * Math.PI) / 180), 0.01))
+
+      const minX = cellIndex(Math.min(edge.start[0], edge.end[0]) - lonPadding)
+      const maxX = cellIndex(Math.max(edge.start[0], edge.end[0]) + lonPadding)
+      const minY = cellIndex(Math.min(edge.start[1], edge.end[1]) - latPadding)
+      const maxY = cellIndex(Math.max(edge.start[1], edge.end[1]) + latPadding)
+
+      const found = new Set<number>()
+      for (let x = minX; x <= maxX; x += 1) {
+        for (let y = minY; y <= maxY; y += 1) {
+          for (const candidateIndex of cells.get(cellKey(x, y)) ?? []) {
+            found.add(candidateIndex)
+          }
+        }
+      }
+
+      // Sort by insertion order so the same parcel always sees candidates in the same order.
+      return [...found]
+        .sort((a, b) => a - b)
+        .map((candidateIndex) => candidates[candidateIndex])
+        .filter((candidate): candidate is RoadCandidate => candidate !== undefined)
+    },
+  }
+}
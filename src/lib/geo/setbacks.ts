@@ -0,0 +1,29 @@
+import type { EdgeType } from '../../types/parcel'
+
+// Required distance in metres between each classified lot line and the buildable area.
+export type SetbackConfig = Record<EdgeType, number>
+
+export const SETBACK_EDGE_TYPES: EdgeType[] = ['Frontage', 'Flankage', 'Rear Lane', 'Rear', 'Side']
+
+export const DEFAULT_SETBACKS: SetbackConfig = {
+  Frontage: 6,
+  Flankage: 3,
+  'Rear Lane': 10.7,
+  Rear: 10.7,
+  Side: 1.2,
+}
+
+export function sanitizeSetbacks(raw: unknown): SetbackConfig {
+  // Missing or invalid entries fall back to the defaults so older saves keep loading.
+  const setbacks: SetbackConfig = { ...DEFAULT_SETBACKS }
+  if (!raw || typeof raw !== 'object') return setbacks
+
+  const source = raw as Record<string, unknown>
+  for (const edgeType of SETBACK_EDGE_TYPES) {
+    const value = source[edgeType]
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      setbacks[edgeType] = value
+    }
+  }
+  return setbacks
+}
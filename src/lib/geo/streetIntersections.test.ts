@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import type { Position, RoadFeature } from '../../types/parcel'
+import { createStreetIndex, MAX_MATCHED_STREETS } from './streetIntersections'
+
+const LAT0 = 49.26
+const LON0 = -123.1
+const METRES_PER_DEG_LAT = 111320
+const METRES_PER_DEG_LON = 111320 * Math.cos((LAT0 * Math.PI) / 180)
+
+function at(x: number, y: number): Position {
+  return [LON0 + x / METRES_PER_DEG_LON, LAT0 + y / METRES_PER_DEG_LAT]
+}
+
+function toMetres([lon, lat]: Position): [number, number] {
+  return [(lon - LON0) * METRES_PER_DEG_LON, (lat - LAT0) * METRES_PER_DEG_LAT]
+}
+
+function road(name: string, points: Position[], kind: 'street' | 'lane' = 'street'): RoadFeature {
+  return {
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: points },
+    properties: { name, roadClass: kind === 'lane' ? 'Lane' : 'Residential', kind },
+  }
+}
+
+// Main St runs north-south at x = 0; E 2nd and W 2nd Ave run east-west 100 m apart, and
+// E 3rd Ave stops 8 m short of Main St.
+const index = createStreetIndex([
+  road('Main St', [at(0, -200), at(0, 0), at(0, 200)]),
+  road('E 2nd Ave', [at(-200, 0), at(200, 0)]),
+  road('W 2nd Ave', [at(-200, 100), at(-20, 100)]),
+  road('E 3rd Ave', [at(8, 150), at(200, 150)]),
+  road('Lane', [at(-200, 50), at(200, 50)], 'lane'),
+])
+
+function meetings(first: string, second: string) {
+  const lookup = index.findIntersections(first, second)
+  if (lookup.status !== 'found') throw new Error(`${lookup.name} matched too many streets`)
+  return lookup.intersections.map(({ position, streets }) => ({
+    at: toMetres(position).map((value) => Math.round(value)),
+    streets,
+  }))
+}
+
+describe('createStreetIndex', () => {
+  it('finds where two streets cross, however the names are spelled', () => {
+    expect(meetings('main street', 'East 2nd Avenue')).toEqual([
+      { at: [0, 0], streets: ['Main St', 'E 2nd Ave'] },
+    ])
+    expect(meetings('E 2 Ave', 'MAIN')).toEqual([{ at: [0, 0], streets: ['E 2nd Ave', 'Main St'] }])
+  })
+
+  it('meets a street that stops just short of the cross street', () => {
+    expect(meetings('Main St', 'E 3rd Ave')).toEqual([{ at: [4, 150], streets: ['Main St', 'E 3rd Ave'] }])
+  })
+
+  it('lists every street a partial name reaches', () => {
+    expect(meetings('2nd ave', 'main st')).toEqual([{ at: [0, 0], streets: ['E 2nd Ave', 'Main St'] }])
+    expect(meetings('W 2nd Ave', 'Main St')).toEqual([])
+  })
+
+  it('ignores lanes and unknown streets', () => {
+    expect(meetings('Main St', 'Lane')).toEqual([])
+    expect(meetings('Main St', 'Oak St')).toEqual([])
+    expect(meetings('Main St', 'Main St')).toEqual([])
+  })
+
+  it('refuses a partial name that reaches too many streets', () => {
+    // One more numbered avenue than the cap, each crossing Main St.
+    const avenues = Array.from({ length: MAX_MATCHED_STREETS + 1 }, (_, n) =>
+      road(`E ${n + 1} Ave`, [at(-200, n * 100), at(200, n * 100)]),
+    )
+    const busy = createStreetIndex([road('Main St', [at(0, -200), at(0, 2000)]), ...avenues])
+    expect(busy.findIntersections('Main St', 'Ave')).toEqual({ status: 'too-broad', name: 'Ave' })
+    expect(busy.findIntersections('Main St', 'E 3 Ave')).toMatchObject({
+      status: 'found',
+      intersections: [{ streets: ['Main St', 'E 3 Ave'] }],
+    })
+  })
+})
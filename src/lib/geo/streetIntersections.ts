@@ -0,0 +1,255 @@
+import type { Position, RoadFeature } from '../../types/parcel'
+import { createLocalProjection, type LocalPoint, type LocalProjection } from './localProjection'
+import { ringBounds, type Bounds } from './parcelGeometry'
+import { normalizeStreetName } from './streetNames'
+
+// A centreline that stops this short of a cross street still meets it (T-junctions are often
+// digitised with a small gap).
+const NEAR_MISS_METERS = 15
+// Crossings closer than this are one intersection: divided roads and slip lanes cross twice.
+const MERGE_METERS = 40
+// A partial name reaching more streets than this ("St", "Ave") is refused rather than compared
+// segment by segment against the other street, which would hold up the worker.
+export const MAX_MATCHED_STREETS = 12
+const METERS_PER_DEGREE_LAT = 111320
+
+export interface StreetIntersection {
+  position: Position
+  // As the road data spells them, e.g. ['Main St', 'E 2nd Ave'].
+  streets: [string, string]
+}
+
+export type IntersectionLookup =
+  // Every place the two streets meet; empty when either is unknown or they never meet.
+  | { status: 'found'; intersections: StreetIntersection[] }
+  // `name`, as typed, reached more than MAX_MATCHED_STREETS streets.
+  | { status: 'too-broad'; name: string }
+
+export interface StreetIndex {
+  findIntersections: (first: string, second: string) => IntersectionLookup
+}
+
+interface NamedStreet {
+  name: string
+  key: string
+  words: string[]
+  lines: Position[][]
+  // Padded by NEAR_MISS_METERS, so streets whose boxes miss cannot meet.
+  bounds: Bounds
+}
+
+interface Meeting {
+  point: LocalPoint
+  // Lines that actually cross, rather than one stopping short of the other.
+  crossing: boolean
+  streets: [string, string]
+}
+
+// "E 2nd Ave" and "East 2 Avenue" share a key.
+function streetKey(name: string): string {
+  return normalizeStreetName(name).replace(/\b(\d+)(?:st|nd|rd|th)\b/g, '$1')
+}
+
+function containsRun(words: string[], run: string[]): boolean {
+  for (let start = 0; start + run.length <= words.length; start += 1) {
+    if (run.every((word, offset) => words[start + offset] === word)) return true
+  }
+  return false
+}
+
+function roadLines(feature: RoadFeature): Position[][] {
+  return feature.geometry.type === 'LineString'
+    ? [feature.geometry.coordinates]
+    : feature.geometry.coordinates
+}
+
+function closestOnSegment(point: LocalPoint, a: LocalPoint, b: LocalPoint): LocalPoint {
+  const dx = b[0] - a[0]
+  const dy = b[1] - a[1]
+  const lengthSq = dx * dx + dy * dy
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((point[0] - a[0]) * dx + (point[1] - a[1]) * dy) / lengthSq))
+  return [a[0] + t * dx, a[1] + t * dy]
+}
+
+function crossingPoint(a: LocalPoint, b: LocalPoint, c: LocalPoint, d: LocalPoint): LocalPoint | null {
+  const rx = b[0] - a[0]
+  const ry = b[1] - a[1]
+  const sx = d[0] - c[0]
+  const sy = d[1] - c[1]
+  const denominator = rx * sy - ry * sx
+  if (Math.abs(denominator) < 1e-9) return null
+  const t = ((c[0] - a[0]) * sy - (c[1] - a[1]) * sx) / denominator
+  const u = ((c[0] - a[0]) * ry - (c[1] - a[1]) * rx) / denominator
+  if (t < 0 || t > 1 || u < 0 || u > 1) return null
+  return [a[0] + t * rx, a[1] + t * ry]
+}
+
+function segmentsOf(lines: Position[][], projection: LocalProjection): Array<[LocalPoint, LocalPoint]> {
+  const segments: Array<[LocalPoint, LocalPoint]> = []
+  for (const line of lines) {
+    const local = line.map(projection.toLocal)
+    for (let index = 0; index < local.length - 1; index += 1) {
+      const a = local[index]
+      const b = local[index + 1]
+      if (a && b) segments.push([a, b])
+    }
+  }
+  return segments
+}
+
+function lineEnds(lines: Position[][], projection: LocalProjection): LocalPoint[] {
+  return lines.flatMap((line) => {
+    const first = line[0]
+    const last = line[line.length - 1]
+    return first && last ? [projection.toLocal(first), projection.toLocal(last)] : []
+  })
+}
+
+// Line ends within reach of the other street, placed halfway across the gap.
+function nearMisses(ends: LocalPoint[], segments: Array<[LocalPoint, LocalPoint]>): LocalPoint[] {
+  const points: LocalPoint[] = []
+  for (const end of ends) {
+    let best: LocalPoint | null = null
+    let bestDistance = NEAR_MISS_METERS
+    for (const [a, b] of segments) {
+      const closest = closestOnSegment(end, a, b)
+      const distance = Math.hypot(closest[0] - end[0], closest[1] - end[1])
+      if (distance <= bestDistance) {
+        best = [(closest[0] + end[0]) / 2, (closest[1] + end[1]) / 2]
+        bestDistance = distance
+      }
+    }
+    if (best) points.push(best)
+  }
+  return points
+}
+
+function meetingsOf(first: NamedStreet, second: NamedStreet, projection: LocalProjection): Meeting[] {
+  const streets: [string, string] = [first.name, second.name]
+  const firstSegments = segmentsOf(first.lines, projection)
+  const secondSegments = segmentsOf(second.lines, projection)
+  const meetings: Meeting[] = []
+
+  for (const [a, b] of firstSegments) {
+    for (const [c, d] of secondSegments) {
+      const point = crossingPoint(a, b, c, d)
+      if (point) meetings.push({ point, crossing: true, streets })
+    }
+  }
+  for (const point of [
+    ...nearMisses(lineEnds(first.lines, projection), secondSegments),
+    ...nearMisses(lineEnds(second.lines, projection), firstSegments),
+  ]) {
+    meetings.push({ point, crossing: false, streets })
+  }
+  return meetings
+}
+
+function paddedBounds(lines: Position[][]): Bounds {
+  let merged: Bounds = [Infinity, Infinity, -Infinity, -Infinity]
+  for (const line of lines) {
+    const bounds = ringBounds(line)
+    if (!bounds) continue
+    merged = [
+      Math.min(merged[0], bounds[0]),
+      Math.min(merged[1], bounds[1]),
+      Math.max(merged[2], bounds[2]),
+      Math.max(merged[3], bounds[3]),
+    ]
+  }
+  const padLat = NEAR_MISS_METERS / METERS_PER_DEGREE_LAT
+  const padLon = padLat / Math.cos((((merged[1] + merged[3]) / 2) * Math.PI) / 180)
+  return [merged[0] - padLon, merged[1] - padLat, merged[2] + padLon, merged[3] + padLat]
+}
+
+function boundsOverlap(a: Bounds, b: Bounds): boolean {
+  return a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3]
+}
+
+// Groups nearby meetings; an intersection sits on its crossings when it has any.
+function mergeMeetings(meetings: Meeting[], projection: LocalProjection): StreetIntersection[] {
+  const clusters: Meeting[][] = []
+  for (const meeting of meetings) {
+    const cluster = clusters.find(
+      ([seed]) =>
+        seed !== undefined &&
+        Math.hypot(seed.point[0] - meeting.point[0], seed.point[1] - meeting.point[1]) <= MERGE_METERS,
+    )
+    if (cluster) {
+      cluster.push(meeting)
+    } else {
+      clusters.push([meeting])
+    }
+  }
+
+  return clusters
+    .map((cluster) => {
+      const crossings = cluster.filter((meeting) => meeting.crossing)
+      const used = crossings.length > 0 ? crossings : cluster
+      const x = used.reduce((sum, meeting) => sum + meeting.point[0], 0) / used.length
+      const y = used.reduce((sum, meeting) => sum + meeting.point[1], 0) / used.length
+      return {
+        crossings: crossings.length,
+        intersection: {
+          position: projection.toPosition([x, y]),
+          streets: (used[0] ?? cluster[0])?.streets ?? ['', ''],
+        } satisfies StreetIntersection,
+      }
+    })
+    .sort((a, b) => b.crossings - a.crossings)
+    .map(({ intersection }) => intersection)
+}
+
+// Indexes named streets (not lanes) by their normalized name.
+export function createStreetIndex(roads: RoadFeature[]): StreetIndex {
+  const grouped = new Map<string, Omit<NamedStreet, 'bounds'>>()
+  for (const road of roads) {
+    if (road.properties.kind !== 'street') continue
+    const key = streetKey(road.properties.name)
+    if (!key) continue
+    const street = grouped.get(key)
+    if (street) {
+      street.lines.push(...roadLines(road))
+    } else {
+      grouped.set(key, { name: road.properties.name, key, words: key.split(' '), lines: roadLines(road) })
+    }
+  }
+  const byKey = new Map<string, NamedStreet>(
+    [...grouped].map(([key, street]) => [key, { ...street, bounds: paddedBounds(street.lines) }]),
+  )
+  const streets = [...byKey.values()]
+
+  // An exact name wins; otherwise "2nd" or "main" reaches every street with those words in a row.
+  const matchStreets = (query: string): NamedStreet[] => {
+    const key = streetKey(query)
+    if (!key) return []
+    const exact = byKey.get(key)
+    if (exact) return [exact]
+    const words = key.split(' ')
+    return streets.filter((street) => containsRun(street.words, words))
+  }
+
+  return {
+    findIntersections: (first, second) => {
+      const firstStreets = matchStreets(first)
+      if (firstStreets.length > MAX_MATCHED_STREETS) return { status: 'too-broad', name: first }
+      const secondStreets = matchStreets(second)
+      if (secondStreets.length > MAX_MATCHED_STREETS) return { status: 'too-broad', name: second }
+      const origin = firstStreets[0]?.lines[0]?.[0]
+      if (!origin || secondStreets.length === 0) return { status: 'found', intersections: [] }
+
+      const projection = createLocalProjection(origin)
+      const meetings: Meeting[] = []
+      for (const a of firstStreets) {
+        for (const b of secondStreets) {
+          if (a.key === b.key || !boundsOverlap(a.bounds, b.bounds)) continue
+          meetings.push(...meetingsOf(a, b, projection))
+        }
+      }
+      return { status: 'found', intersections: mergeMeetings(meetings, projection) }
+    },
+  }
+}
@@ -0,0 +1,31 @@
+// Street suffix and direction abbreviations, mapped to the full word. Shared by road matching
+// and address search so both read "W 4TH AV" and "West 4th Avenue" the same way.
+export const STREET_WORD_FORMS: Readonly<Record<string, string>> = {
+  st: 'street',
+  av: 'avenue',
+  ave: 'avenue',
+  blvd: 'boulevard',
+  rd: 'road',
+  dr: 'drive',
+  ln: 'lane',
+  cres: 'crescent',
+  cr: 'crescent',
+  pl: 'place',
+  ct: 'court',
+  hwy: 'highway',
+  sq: 'square',
+  pkwy: 'parkway',
+  n: 'north',
+  s: 'south',
+  e: 'east',
+  w: 'west',
+}
+
+export function normalizeStreetName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[.,]/g, ' ')
+    .replace(/\b[a-z]+\b/g, (word) => STREET_WORD_FORMS[word] ?? word)
+    .replace(/\s+/g, ' ')
+    .trim()
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import type { ParcelFeature, Position, ZoningFeature } from '../../types/parcel'
+import {
+  carryParcelZoning,
+  createZoningIndex,
+  findZoningDistrict,
+  fromZoningExportFeature,
+  joinParcelZoning,
+  zoningGroup,
+} from './zoning'
+
+// A trimmed copy of the city's zoning-districts export, including records the importer must skip.
+const exportModules = import.meta.glob<{ features: unknown[] }>(
+  './__fixtures__/zoning/zoning-districts-export.json',
+  { eager: true, import: 'default' },
+)
+const rawFeatures = Object.values(exportModules)[0]?.features ?? []
+const districts = rawFeatures
+  .map(fromZoningExportFeature)
+  .filter((feature): feature is ZoningFeature => feature !== null)
+
+// Local metres around Vancouver, same origin as the fixture.
+const LAT0 = 49.26
+const LON0 = -123.1
+const METRES_PER_DEG_LAT = 111320
+const METRES_PER_DEG_LON = 111320 * Math.cos((LAT0 * Math.PI) / 180)
+
+function at(x: number, y: number): Position {
+  return [LON0 + x / METRES_PER_DEG_LON, LAT0 + y / METRES_PER_DEG_LAT]
+}
+
+function parcelAt(id: string, x: number, y: number): ParcelFeature {
+  const [lon, lat] = at(x, y)
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[at(x - 2, y - 2), at(x + 2, y - 2), at(x + 2, y + 2), at(x - 2, y + 2), at(x - 2, y - 2)]],
+    },
+    properties: {
+      id,
+      siteId: id,
+      taxCoord: '',
+      civicNumber: '1',
+      streetName: 'MAIN ST',
+      fullAddress: '1 MAIN ST',
+      lon,
+      lat,
+      zoningCode: '',
+    },
+  }
+}
+
+describe('fromZoningExportFeature', () => {
+  it('keeps districts with a code and polygon geometry', () => {
+    expect(rawFeatures).toHaveLength(5)
+    expect(districts.map((district) => district.properties.zoningCode)).toEqual([
+      'RS-1',
+      'C-2',
+      'CD-1 (123)',
+    ])
+    expect(districts[0]?.properties.category).toBe('One-Family Dwelling')
+  })
+})
+
+describe('joinParcelZoning', () => {
+  const index = createZoningIndex(districts)
+
+  it('assigns the district containing the label point', () => {
+    const [residential, commercial] = joinParcelZoning(
+      [parcelAt('a', 50, 50), parcelAt('b', 150, 50)],
+      index,
+    )
+    expect(residential?.properties.zoningCode).toBe('RS-1')
+    expect(commercial?.properties.zoningCode).toBe('C-2')
+  })
+
+  it('matches either part of a MultiPolygon district', () => {
+    expect(findZoningDistrict(index, at(25, 125))?.properties.zoningCode).toBe('CD-1 (123)')
+    expect(findZoningDistrict(index, at(175, 125))?.properties.zoningCode).toBe('CD-1 (123)')
+    expect(findZoningDistrict(index, at(100, 125))).toBeNull()
+  })
+
+  it('leaves parcels outside every district without a code', () => {
+    const [outside] = joinParcelZoning([parcelAt('c', 400, 400)], index)
+    expect(outside?.properties.zoningCode).toBe('')
+  })
+})
+
+describe('carryParcelZoning', () => {
+  it('keeps the previous build\'s codes when there are no districts to join against', () => {
+    const previous = joinParcelZoning(
+      [parcelAt('a', 50, 50), parcelAt('b', 150, 50)],
+      createZoningIndex(districts),
+    )
+    // A fresh parcel export carries no codes; 'd' is new since the previous build.
+    const [a, b, d] = carryParcelZoning(
+      [parcelAt('a', 50, 50), parcelAt('b', 150, 50), parcelAt('d', 50, 50)],
+      previous,
+    )
+    expect(a?.properties.zoningCode).toBe('RS-1')
+    expect(b?.properties.zoningCode).toBe('C-2')
+    expect(d?.properties.zoningCode).toBe('')
+  })
+})
+
+describe('zoningGroup', () => {
+  it('groups codes by prefix', () => {
+    expect(zoningGroup('RS-1')).toBe('single-family')
+    expect(zoningGroup('RM-4N')).toBe('multi-family')
+    expect(zoningGroup('C-2')).toBe('commercial')
+    expect(zoningGroup('CD-1 (123)')).toBe('comprehensive')
+    expect(zoningGroup('I-2')).toBe('industrial')
+    expect(zoningGroup('')).toBe('other')
+  })
+})
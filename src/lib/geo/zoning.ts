@@ -0,0 +1,129 @@
+import { booleanPointInPolygon } from '@turf/turf'
+import type { ParcelFeature, Position, ZoningFeature } from '../../types/parcel'
+import { parcelBounds, type Bounds } from './parcelGeometry'
+
+// Districts are large (an RS zone can span kilometres), so cells are coarser than the road grid.
+const ZONING_CELL_SIZE_DEG = 0.01
+
+export type ZoningGroup =
+  | 'single-family'
+  | 'multi-family'
+  | 'commercial'
+  | 'industrial'
+  | 'comprehensive'
+  | 'historic'
+  | 'other'
+
+export interface ZoningIndex {
+  cells: Map<string, ZoningFeature[]>
+}
+
+function readString(properties: Record<string, unknown>, keys: string[]): string {
+  for (const key of keys) {
+    const value = properties[key]
+    if (typeof value === 'string' && value.trim()) return value.trim()
+  }
+  return ''
+}
+
+// Normalises one record of the city's zoning-districts export to the app's zoning feature.
+export function fromZoningExportFeature(raw: unknown): ZoningFeature | null {
+  if (!raw || typeof raw !== 'object') return null
+  const feature = raw as { geometry?: unknown; properties?: Record<string, unknown> | null }
+  const geometry = feature.geometry as { type?: unknown; coordinates?: unknown } | null | undefined
+  if (!geometry || (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon')) return null
+  if (!Array.isArray(geometry.coordinates) || geometry.coordinates.length === 0) return null
+
+  const properties = feature.properties ?? {}
+  const zoningCode = readString(properties, ['zoning_district', 'zone_name', 'zoning'])
+  if (!zoningCode) return null
+
+  return {
+    type: 'Feature',
+    geometry: geometry as ZoningFeature['geometry'],
+    properties: {
+      zoningCode,
+      category: readString(properties, ['zoning_category', 'zoning_classification']),
+    },
+  }
+}
+
+function cellKey(x: number, y: number): string {
+  return `${x}:${y}`
+}
+
+function cellRange(bounds: Bounds): { x0: number; x1: number; y0: number; y1: number } {
+  const [west, south, east, north] = bounds
+  return {
+    x0: Math.floor(west / ZONING_CELL_SIZE_DEG),
+    x1: Math.floor(east / ZONING_CELL_SIZE_DEG),
+    y0: Math.floor(south / ZONING_CELL_SIZE_DEG),
+    y1: Math.floor(north / ZONING_CELL_SIZE_DEG),
+  }
+}
+
+export function createZoningIndex(features: ZoningFeature[]): ZoningIndex {
+  const cells = new Map<string, ZoningFeature[]>()
+  for (const feature of features) {
+    const bounds = parcelBounds(feature.geometry)
+    if (!bounds) continue
+    const { x0, x1, y0, y1 } = cellRange(bounds)
+    for (let x = x0; x <= x1; x += 1) {
+      for (let y = y0; y <= y1; y += 1) {
+        const key = cellKey(x, y)
+        const bucket = cells.get(key)
+        if (bucket) {
+          bucket.push(feature)
+        } else {
+          cells.set(key, [feature])
+        }
+      }
+    }
+  }
+  return { cells }
+}
+
+export function findZoningDistrict(index: ZoningIndex, position: Position): ZoningFeature | null {
+  const key = cellKey(
+    Math.floor(position[0] / ZONING_CELL_SIZE_DEG),
+    Math.floor(position[1] / ZONING_CELL_SIZE_DEG),
+  )
+  // First match wins; districts do not overlap in the city data.
+  for (const feature of index.cells.get(key) ?? []) {
+    if (booleanPointInPolygon(position, feature.geometry)) return feature
+  }
+  return null
+}
+
+// Joins on the parcel's label point, which the city places inside the lot even for odd shapes.
+export function joinParcelZoning(parcels: ParcelFeature[], index: ZoningIndex): ParcelFeature[] {
+  return parcels.map((parcel) => {
+    const district = findZoningDistrict(index, [parcel.properties.lon, parcel.properties.lat])
+    const zoningCode = district?.properties.zoningCode ?? ''
+    if (parcel.properties.zoningCode === zoningCode) return parcel
+    return { ...parcel, properties: { ...parcel.properties, zoningCode } }
+  })
+}
+
+// With no districts to join against (the zoning download failed and none is on disk), codes from
+// the previous build are carried over by parcel id rather than cleared.
+export function carryParcelZoning(parcels: ParcelFeature[], previous: ParcelFeature[]): ParcelFeature[] {
+  const codes = new Map(previous.map((parcel) => [parcel.properties.id, parcel.properties.zoningCode]))
+  return parcels.map((parcel) => {
+    const zoningCode = codes.get(parcel.properties.id) ?? parcel.properties.zoningCode
+    if (parcel.properties.zoningCode === zoningCode) return parcel
+    return { ...parcel, properties: { ...parcel.properties, zoningCode } }
+  })
+}
+
+// Broad colour groups for the map layer, keyed on the district code prefix.
+export function zoningGroup(zoningCode: string): ZoningGroup {
+  const code = zoningCode.toUpperCase()
+  if (code.startsWith('CD-')) return 'comprehensive'
+  if (code.startsWith('HA-')) return 'historic'
+  if (/^(RS|RT|R1|RA)-/.test(code)) return 'single-family'
+  if (/^(RM|FM|RR)-/.test(code)) return 'multi-family'
+  if (/^(C|FC)-/.test(code)) return 'commercial'
+  if (/^(I|IC|M|MC)-/.test(code)) return 'industrial'
+  return 'other'
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest'
+import type { SearchRecord } from '../../types/parcel'
+import { sanitizeSearchIndex } from '../data/sanitize'
+import {
+  boundedEditDistance,
+  buildSearchIndex,
+  createAddressSearch,
+  identifierQuery,
+  matchedIdentifier,
+  parseCivicRange,
+  type SearchIndexData,
+} from './addressSearch'
+
+function record(
+  id: string,
+  address: string,
+  streetName: string,
+  siteId = '',
+  taxCoord = '',
+): SearchRecord {
+  return { id, address, lon: -123.1, lat: 49.26, streetName, zoningCode: '', siteId, taxCoord }
+}
+
+const RECORDS = [
+  record('1', '1234 MAIN ST', 'MAIN ST', '029501370', '63620104'),
+  record('2', '1236 MAIN ST', 'MAIN ST', '029501388', '63620106'),
+  record('3', '1234 GRANVILLE ST', 'GRANVILLE ST', '013456789', '53017212'),
+  record('4', '2150 W 4TH AV', 'W 4TH AV'),
+  record('5', '4 W 4TH AV', 'W 4TH AV'),
+  record('6', '3300 E 4TH AV', 'E 4TH AV'),
+  record('7', '455 MAINLAND ST', 'MAINLAND ST'),
+  record('8', '1234 MAIN MALL', 'MAIN MALL'),
+  record('9', '1300 MAIN ST', 'MAIN ST'),
+  record('10', '1210 MAIN ST', 'MAIN ST'),
+  record('11', '1301 MAIN ST', 'MAIN ST'),
+  record('12', '1250 MAINLAND ST', 'MAINLAND ST'),
+]
+
+const search = createAddressSearch(buildSearchIndex(RECORDS))
+
+function ids(query: string, limit?: number) {
+  return search.search(query, limit).map((result) => result.id)
+}
+
+describe('createAddressSearch', () => {
+  it('matches spelled-out street types and directions', () => {
+    expect(ids('1234 Main Street ')).toEqual(['1'])
+    expect(ids('2150 West 4th Avenue ')).toEqual(['4'])
+    expect(ids('west 4 av ')).toEqual(['5', '4'])
+  })
+
+  it('matches words in any order', () => {
+    expect(ids('main 1236 ')).toEqual(['2'])
+  })
+
+  it('tolerates typos in longer words', () => {
+    expect(ids('1234 Mian ')).toEqual(['8', '1'])
+    expect(ids('Grenville ')).toEqual(['3'])
+  })
+
+  it('completes the word being typed', () => {
+    expect(ids('1234 mai')).toEqual(['8', '1'])
+    expect(ids('mainl')[0]).toBe('7')
+    // Once the word is finished, "main" no longer reaches "mainland".
+    expect(ids('main ')).toEqual(['10', '8', '1', '2', '9', '11'])
+  })
+
+  it('never treats a different civic number as a typo', () => {
+    expect(ids('1235 main ')).toEqual([])
+    expect(ids('1234 ')).toEqual(['3', '8', '1'])
+  })
+
+  it('ranks a civic number above the same number in a street name', () => {
+    expect(ids('4 ')).toEqual(['5', '4', '6'])
+  })
+
+  it('respects the limit and ignores empty queries', () => {
+    expect(ids('main ', 2)).toEqual(['10', '8'])
+    expect(ids('  ')).toEqual([])
+  })
+
+  it('lists every match for the map, whatever the query kind', () => {
+    const allIds = (query: string) => search.allMatches(query).map((result) => result.id)
+    expect(allIds('main ')).toEqual(['1', '2', '8', '9', '10', '11'])
+    expect(allIds('0295013')).toEqual(['1', '2'])
+    expect(allIds('1200-1300 main st')).toEqual(['1', '2', '9', '10'])
+    expect(allIds('  ')).toEqual([])
+  })
+})
+
+describe('identifier search', () => {
+  it('finds a parcel by site ID or tax coordinate, with or without separators', () => {
+    expect(ids('029501370')).toEqual(['1'])
+    expect(ids('013-456-789')).toEqual(['3'])
+    expect(ids('6362 0106 ')).toEqual(['2'])
+    expect(matchedIdentifier(RECORDS[2] as SearchRecord, '013-456-789')).toEqual({
+      field: 'siteId',
+      value: '013456789',
+    })
+  })
+
+  it('completes an identifier being typed, exact match first', () => {
+    expect(ids('0295013')).toEqual(['1', '2'])
+    expect(ids('0295013 ')).toEqual([])
+  })
+
+  it('leaves civic-length numbers to the address search', () => {
+    expect(identifierQuery('12345')).toBeNull()
+    expect(identifierQuery('1234 main')).toBeNull()
+    expect(identifierQuery('63620104')).toBe('63620104')
+  })
+})
+
+describe('civic range search', () => {
+  it('lists every parcel in the range on that street, in civic order', () => {
+    expect(ids('1200-1300 Main St')).toEqual(['10', '1', '2', '9'])
+    expect(ids('1300 to 1200 main street ')).toEqual(['10', '1', '2', '9'])
+  })
+
+  it('is not capped by the address result limit', () => {
+    expect(ids('1200-1300 main st', 2)).toHaveLength(4)
+  })
+
+  it('parses the range ends in either order', () => {
+    expect(parseCivicRange('1300–1200 W 4th Ave')).toEqual({ from: 1200, to: 1300, street: 'W 4th Ave' })
+    expect(parseCivicRange('1200-1300')).toBeNull()
+  })
+
+  it('reads a unit-civic address as that one address', () => {
+    expect(parseCivicRange('3-1234 Main St')).toBeNull()
+    expect(parseCivicRange('98-102 Main St')).toEqual({ from: 98, to: 102, street: 'Main St' })
+    expect(ids('3-1234 Main St')).toEqual(['1'])
+    expect(search.allMatches('3-1234 main st').map((result) => result.id)).toEqual(['1'])
+  })
+})
+
+describe('boundedEditDistance', () => {
+  it('counts a transposition as one edit and stops past the bound', () => {
+    expect(boundedEditDistance('mian', 'main', 2)).toBe(1)
+    expect(boundedEditDistance('grenville', 'granville', 2)).toBe(1)
+    expect(boundedEditDistance('kingsway', 'main', 2)).toBe(3)
+  })
+})
+
+describe('sanitizeSearchIndex', () => {
+  it('indexes a legacy list of records', () => {
+    const index = sanitizeSearchIndex(RECORDS)
+    expect(index).toEqual(buildSearchIndex(RECORDS))
+  })
+
+  it('rebuilds the tables when a record is dropped or a table is malformed', () => {
+    const built = buildSearchIndex(RECORDS)
+    const withBadRecord = { ...built, records: [...RECORDS, { id: '', address: '' }] }
+    expect(sanitizeSearchIndex(withBadRecord)).toEqual(built)
+
+    const unsorted: SearchIndexData = {
+      ...built,
+      fields: {
+        ...built.fields,
+        street: { ...built.fields.street, tokens: [...built.fields.street.tokens].reverse() },
+      },
+    }
+    expect(sanitizeSearchIndex(unsorted)).toEqual(built)
+    expect(sanitizeSearchIndex({ version: 1, records: RECORDS })).toEqual(built)
+  })
+
+  it('keeps a valid prebuilt index', () => {
+    const built = buildSearchIndex(RECORDS)
+    expect(sanitizeSearchIndex(JSON.parse(JSON.stringify(built)))).toEqual(built)
+  })
+})
@@ -0,0 +1,425 @@
+import type { SearchRecord } from '../../types/parcel'
+import { normalizeToken, splitWords, tokenize } from './addressTokens'
+
+export const SEARCH_FIELDS = ['civic', 'street', 'siteId', 'taxCoord'] as const
+export type SearchField = (typeof SEARCH_FIELDS)[number]
+
+const ADDRESS_FIELDS = ['civic', 'street'] as const satisfies readonly SearchField[]
+type AddressField = (typeof ADDRESS_FIELDS)[number]
+const IDENTIFIER_FIELDS = ['siteId', 'taxCoord'] as const satisfies readonly SearchField[]
+
+export interface SearchTokenTable {
+  // Sorted, so every token with a given prefix sits in one binary-searched range.
+  tokens: string[]
+  // Ascending record indices for each token.
+  postings: number[][]
+}
+
+// Written by the fetch pipeline as `search-index.json`, so the browser does not tokenize the city.
+export interface SearchIndexData {
+  version: 1
+  records: SearchRecord[]
+  fields: Record<SearchField, SearchTokenTable>
+}
+
+export interface AddressSearch {
+  records: SearchRecord[]
+  search: (query: string, limit?: number) => SearchRecord[]
+  // Everything `search` picks its results from, unranked and without a limit (ranges included).
+  allMatches: (query: string) => SearchRecord[]
+  // Every record matching all words of the query, as ascending indices into `records`.
+  matchIndices: (query: string, scope?: 'address' | 'street') => number[]
+}
+
+// A civic number hit says more than a street word: "1234" narrows a street to one lot.
+const FIELD_WEIGHTS: Record<AddressField, number> = { civic: 2, street: 1 }
+const PREFIX_QUALITY = 0.75
+// Indexed by edit distance.
+const FUZZY_QUALITY = [1, 0.7, 0.45]
+const DEFAULT_LIMIT = 8
+// Civic numbers stop at five digits, so a longer number can only be a site ID or tax coordinate.
+const MIN_IDENTIFIER_DIGITS = 6
+// A range lists every parcel in it; this only keeps "1-99999 Main St" from flooding the list.
+const MAX_RANGE_RESULTS = 250
+
+// "1200-1300 Main St", "1200 to 1300 main".
+const CIVIC_RANGE_PATTERN = /^\s*(\d+)\s*(?:-|–|—|to\b)\s*(\d+)\s+(\S.*)$/i
+// The unit in "3-1234 Main St". Parcels are lots and carry no unit numbers, so it is dropped.
+const UNIT_PREFIX_PATTERN = /^\s*\d+\s*[-–—]\s*(?=\d+\s+\S)/
+
+interface Ranked {
+  index: number
+  score: number
+}
+
+interface TokenMatch {
+  tokenIndex: number
+  quality: number
+}
+
+interface QueryToken {
+  raw: string
+  normalized: string
+  // Only the word being typed is completed as a prefix.
+  isLast: boolean
+}
+
+// Civic numbers are never fuzzy ("1234" and "1235" are different lots); short words allow no
+// typo, longer ones one or two.
+function maxEditsFor(token: string): number {
+  if (/^\d+$/.test(token)) return 0
+  if (token.length >= 8) return 2
+  if (token.length >= 4) return 1
+  return 0
+}
+
+// Optimal string alignment distance, giving up once it must exceed `maxEdits`.
+export function boundedEditDistance(a: string, b: string, maxEdits: number): number {
+  if (Math.abs(a.length - b.length) > maxEdits) return maxEdits + 1
+  let previousPrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost,
+      )
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, (previousPrevious[j - 2] ?? 0) + 1)
+      }
+      current.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > maxEdits) return maxEdits + 1
+    previousPrevious = previous
+    previous = current
+  }
+  return previous[b.length] ?? maxEdits + 1
+}
+
+function lowerBound(tokens: string[], value: string): number {
+  let low = 0
+  let high = tokens.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if ((tokens[middle] ?? '') < value) {
+      low = middle + 1
+    } else {
+      high = middle
+    }
+  }
+  return low
+}
+
+// Site IDs and tax coordinates are written with or without separators ("013-456-789").
+function compactIdentifier(value: string): string {
+  return value.toLowerCase().replace(/[^0-9a-z]/g, '')
+}
+
+// Digits with optional separators, long enough that it cannot be a civic number.
+export function identifierQuery(query: string): string | null {
+  const trimmed = query.trim()
+  if (!/^\d[\d\s\-./]*$/.test(trimmed)) return null
+  const compact = compactIdentifier(trimmed)
+  return compact.length >= MIN_IDENTIFIER_DIGITS ? compact : null
+}
+
+export type IdentifierField = (typeof IDENTIFIER_FIELDS)[number]
+
+// Which identifier of a result the query matched, to show it next to the address.
+export function matchedIdentifier(
+  record: SearchRecord,
+  query: string,
+): { field: IdentifierField; value: string } | null {
+  const identifier = identifierQuery(query)
+  if (!identifier) return null
+  for (const field of IDENTIFIER_FIELDS) {
+    if (compactIdentifier(record[field]).startsWith(identifier)) {
+      return { field, value: record[field] }
+    }
+  }
+  return null
+}
+
+export interface CivicRange {
+  from: number
+  to: number
+  street: string
+}
+
+export function parseCivicRange(query: string): CivicRange | null {
+  const match = CIVIC_RANGE_PATTERN.exec(query)
+  if (!match?.[1] || !match[2] || !match[3]) return null
+  const from = Math.min(Number(match[1]), Number(match[2]))
+  const to = Math.max(Number(match[1]), Number(match[2]))
+  // "3-1234 Main St" is unit 3 at 1234, written unit-civic. The ends of a real range are close in
+  // size, so when one is more than ten times the other the query is read as that address.
+  if (to > from * 10) return null
+  return { from, to, street: match[3] }
+}
+
+// The civic part is whatever precedes the street name in the address.
+export function recordFieldTokens(record: SearchRecord): Record<SearchField, string[]> {
+  const { address, streetName } = record
+  const hasStreet = Boolean(streetName) && address.endsWith(streetName)
+  const identifiers = {
+    siteId: [compactIdentifier(record.siteId)].filter(Boolean),
+    taxCoord: [compactIdentifier(record.taxCoord)].filter(Boolean),
+  }
+  if (hasStreet) {
+    return {
+      civic: tokenize(address.slice(0, address.length - streetName.length)),
+      street: tokenize(streetName),
+      ...identifiers,
+    }
+  }
+  return { civic: [], street: tokenize(address), ...identifiers }
+}
+
+function toTable(byToken: Map<string, number[]>): SearchTokenTable {
+  const tokens = [...byToken.keys()].sort()
+  return { tokens, postings: tokens.map((token) => byToken.get(token) ?? []) }
+}
+
+export function buildSearchIndex(records: SearchRecord[]): SearchIndexData {
+  const byField = Object.fromEntries(
+    SEARCH_FIELDS.map((field) => [field, new Map<string, number[]>()]),
+  ) as Record<SearchField, Map<string, number[]>>
+
+  records.forEach((record, index) => {
+    const fieldTokens = recordFieldTokens(record)
+    for (const field of SEARCH_FIELDS) {
+      for (const token of new Set(fieldTokens[field])) {
+        const postings = byField[field].get(token)
+        if (postings) {
+          postings.push(index)
+        } else {
+          byField[field].set(token, [index])
+        }
+      }
+    }
+  })
+
+  return {
+    version: 1,
+    records,
+    fields: Object.fromEntries(
+      SEARCH_FIELDS.map((field) => [field, toTable(byField[field])]),
+    ) as Record<SearchField, SearchTokenTable>,
+  }
+}
+
+function parseQuery(query: string): QueryToken[] {
+  const words = splitWords(query)
+  // A trailing space means the last word is finished.
+  const typing = !/\s$/.test(query)
+  return words.map((raw, index) => ({
+    raw,
+    normalized: normalizeToken(raw),
+    isLast: typing && index === words.length - 1,
+  }))
+}
+
+function matchTokens(table: SearchTokenTable, query: QueryToken): TokenMatch[] {
+  const { tokens } = table
+  const best = new Map<number, number>()
+  const offer = (tokenIndex: number, quality: number) => {
+    if (quality > (best.get(tokenIndex) ?? 0)) best.set(tokenIndex, quality)
+  }
+
+  const exact = lowerBound(tokens, query.normalized)
+  if (tokens[exact] === query.normalized) offer(exact, 1)
+
+  if (query.isLast) {
+    // Both spellings: "av" completes to "avenue", but "n" should also reach "nanaimo".
+    for (const prefix of new Set([query.normalized, query.raw])) {
+      for (let index = lowerBound(tokens, prefix); index < tokens.length; index += 1) {
+        if (!tokens[index]?.startsWith(prefix)) break
+        offer(index, PREFIX_QUALITY)
+      }
+    }
+  }
+
+  const maxEdits = maxEditsFor(query.normalized)
+  if (maxEdits > 0) {
+    tokens.forEach((token, index) => {
+      if (/^\d/.test(token)) return
+      const distance = boundedEditDistance(query.normalized, token, maxEdits)
+      if (distance > 0 && distance <= maxEdits) offer(index, FUZZY_QUALITY[distance] ?? 0)
+    })
+  }
+
+  return [...best].map(([tokenIndex, quality]) => ({ tokenIndex, quality }))
+}
+
+// Keeps the best `limit` entries in order; a full sort is wasted on thousands of "main" matches.
+function insertTop(
+  top: Ranked[],
+  entry: Ranked,
+  limit: number,
+  compare: (a: Ranked, b: Ranked) => number,
+) {
+  const worst = top[top.length - 1]
+  if (top.length >= limit && worst && compare(entry, worst) >= 0) return
+  let position = top.length
+  while (position > 0 && compare(entry, top[position - 1] as Ranked) < 0) position -= 1
+  top.splice(position, 0, entry)
+  if (top.length > limit) top.pop()
+}
+
+export function createAddressSearch(data: SearchIndexData): AddressSearch {
+  const { records, fields } = data
+  const collator = new Intl.Collator(undefined, { numeric: true })
+  // When scores tie, the address with fewer words left unmatched is the closer match.
+  const tokenCounts = new Uint16Array(records.length)
+  for (const field of ADDRESS_FIELDS) {
+    for (const postings of fields[field].postings) {
+      for (const recordIndex of postings) {
+        tokenCounts[recordIndex] = (tokenCounts[recordIndex] ?? 0) + 1
+      }
+    }
+  }
+
+  const byScoreThenAddress = (a: Ranked, b: Ranked) =>
+    b.score - a.score ||
+    (tokenCounts[a.index] ?? 0) - (tokenCounts[b.index] ?? 0) ||
+    collator.compare(records[a.index]?.address ?? '', records[b.index]?.address ?? '')
+
+  const recordsAt = (indices: number[]) =>
+    indices.flatMap((index) => {
+      const record = records[index]
+      return record ? [record] : []
+    })
+  const toRecords = (ranked: Ranked[]) => recordsAt(ranked.map(({ index }) => index))
+
+  // Best weighted score per record for one query word.
+  const scoreToken = (query: QueryToken, searchFields: readonly AddressField[]) => {
+    const scores = new Map<number, number>()
+    for (const field of searchFields) {
+      const table = fields[field]
+      for (const { tokenIndex, quality } of matchTokens(table, query)) {
+        const score = quality * FIELD_WEIGHTS[field]
+        for (const recordIndex of table.postings[tokenIndex] ?? []) {
+          if (score > (scores.get(recordIndex) ?? 0)) scores.set(recordIndex, score)
+        }
+      }
+    }
+    return scores
+  }
+
+  // Records matching every word, with their summed score; intersected starting from the rarest word.
+  const matchAll = (query: string, searchFields: readonly AddressField[]) => {
+    const perToken = parseQuery(query)
+      .map((token) => scoreToken(token, searchFields))
+      .sort((a, b) => a.size - b.size)
+    const [first, ...rest] = perToken
+    const matches = new Map<number, number>()
+    if (!first) return matches
+
+    for (const [index, firstScore] of first) {
+      let score = firstScore
+      let matchesAll = true
+      for (const scores of rest) {
+        const tokenScore = scores.get(index)
+        if (tokenScore === undefined) {
+          matchesAll = false
+          break
+        }
+        score += tokenScore
+      }
+      if (matchesAll) matches.set(index, score)
+    }
+    return matches
+  }
+
+  const identifierScores = (identifier: string, typing: boolean) => {
+    const scores = new Map<number, number>()
+    for (const field of IDENTIFIER_FIELDS) {
+      const { tokens, postings } = fields[field]
+      for (let index = lowerBound(tokens, identifier); index < tokens.length; index += 1) {
+        const token = tokens[index] ?? ''
+        if (!token.startsWith(identifier) || (!typing && token !== identifier)) break
+        const quality = token === identifier ? 1 : PREFIX_QUALITY
+        for (const recordIndex of postings[index] ?? []) {
+          scores.set(recordIndex, Math.max(quality, scores.get(recordIndex) ?? 0))
+        }
+      }
+    }
+    return scores
+  }
+
+  const searchIdentifier = (identifier: string, typing: boolean, limit: number) => {
+    const top: Ranked[] = []
+    for (const [index, score] of identifierScores(identifier, typing)) {
+      insertTop(top, { index, score }, limit, byScoreThenAddress)
+    }
+    return toRecords(top)
+  }
+
+  // Civic number of every record on the street within the range.
+  const rangeMatches = ({ from, to }: CivicRange, streetMatches: Map<number, number>) => {
+    const civicNumbers = new Map<number, number>()
+    const { tokens, postings } = fields.civic
+    tokens.forEach((token, tokenIndex) => {
+      if (!/^\d+$/.test(token)) return
+      const civic = Number(token)
+      if (civic < from || civic > to) return
+      for (const recordIndex of postings[tokenIndex] ?? []) {
+        if (streetMatches.has(recordIndex)) civicNumbers.set(recordIndex, civic)
+      }
+    })
+    return civicNumbers
+  }
+
+  const searchRange = (range: CivicRange) => {
+    const streetMatches = matchAll(range.street, ['street'])
+    const civicNumbers = rangeMatches(range, streetMatches)
+
+    // The best-matching street first, then up the block.
+    const ranked = [...civicNumbers.keys()]
+      .map((index) => ({ index, score: streetMatches.get(index) ?? 0 }))
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          (civicNumbers.get(a.index) ?? 0) - (civicNumbers.get(b.index) ?? 0) ||
+          collator.compare(records[a.index]?.address ?? '', records[b.index]?.address ?? ''),
+      )
+    return toRecords(ranked.slice(0, MAX_RANGE_RESULTS))
+  }
+
+  return {
+    records,
+    search: (query, limit = DEFAULT_LIMIT) => {
+      const identifier = identifierQuery(query)
+      if (identifier) return searchIdentifier(identifier, !/\s$/.test(query), limit)
+
+      const range = parseCivicRange(query)
+      if (range) return searchRange(range)
+
+      const top: Ranked[] = []
+      for (const [index, score] of matchAll(query.replace(UNIT_PREFIX_PATTERN, ''), ADDRESS_FIELDS)) {
+        insertTop(top, { index, score }, limit, byScoreThenAddress)
+      }
+      return toRecords(top)
+    },
+    allMatches: (query) => {
+      const identifier = identifierQuery(query)
+      const range = identifier ? null : parseCivicRange(query)
+      const matches = identifier
+        ? identifierScores(identifier, !/\s$/.test(query))
+        : range
+          ? rangeMatches(range, matchAll(range.street, ['street']))
+          : matchAll(query.replace(UNIT_PREFIX_PATTERN, ''), ADDRESS_FIELDS)
+      return recordsAt([...matches.keys()].sort((a, b) => a - b))
+    },
+    matchIndices: (query, scope = 'address') =>
+      [...matchAll(query, scope === 'street' ? ['street'] : ADDRESS_FIELDS).keys()].sort(
+        (a, b) => a - b,
+      ),
+  }
+}
@@ -0,0 +1,26 @@
+import { STREET_WORD_FORMS } from '../geo/streetNames'
+
+const ORDINAL_PATTERN = /^(\d+)(?:st|nd|rd|th)$/
+
+// Lower case, abbreviations expanded ("ST" → "street") and ordinals reduced to their number, so
+// "W 4TH AV" and "West 4 Avenue" produce the same tokens.
+export function normalizeToken(token: string): string {
+  const lower = token.toLowerCase()
+  const ordinal = ORDINAL_PATTERN.exec(lower)
+  if (ordinal?.[1]) return ordinal[1]
+  return STREET_WORD_FORMS[lower] ?? lower
+}
+
+// Words and numbers only; accents are folded so "École" matches "ECOLE".
+export function splitWords(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+}
+
+export function tokenize(text: string): string[] {
+  return splitWords(text).map(normalizeToken)
+}
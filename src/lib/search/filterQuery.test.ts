@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest'
+import type { ParcelAnalysisSummary, SearchRecord } from '../../types/parcel'
+import { buildSearchIndex, createAddressSearch } from './addressSearch'
+import {
+  isFilterQuery,
+  parseFilterQuery,
+  runFilterQuery,
+  suggestFilterCompletions,
+} from './filterQuery'
+
+function record(id: string, address: string, streetName: string, zoningCode: string): SearchRecord {
+  return { id, address, lon: -123.1, lat: 49.26, streetName, zoningCode, siteId: '', taxCoord: '' }
+}
+
+function summary(overrides: Partial<ParcelAnalysisSummary>): ParcelAnalysisSummary {
+  return {
+    lotType: 'Standard with Lane',
+    confidence: 'high',
+    areaM2: 400,
+    frontageMeters: 10,
+    depthMeters: 40,
+    ...overrides,
+  }
+}
+
+const search = createAddressSearch(
+  buildSearchIndex([
+    record('1', '1200 MAIN ST', 'MAIN ST', 'RS-1'),
+    record('2', '1210 MAIN ST', 'MAIN ST', 'RS-7'),
+    record('3', '1220 MAIN ST', 'MAIN ST', 'RM-4'),
+    record('4', '500 OAK ST', 'OAK ST', 'RS-1'),
+    record('5', '1230 MAIN ST', 'MAIN ST', 'RS-1'),
+  ]),
+)
+
+const SUMMARIES = new Map([
+  ['1', summary({ lotType: 'Corner Lot', confidence: 'low', areaM2: 650 })],
+  ['2', summary({ lotType: 'Corner Lot', areaM2: 700 })],
+  ['3', summary({ lotType: 'Corner Lot', confidence: 'low', areaM2: 900 })],
+  ['4', summary({ lotType: 'Corner Lot', confidence: 'low', areaM2: 800 })],
+])
+
+function run(query: string) {
+  return runFilterQuery(parseFilterQuery(query), {
+    search,
+    summaryFor: (id) => SUMMARIES.get(id),
+  })
+}
+
+describe('parseFilterQuery', () => {
+  it('reads quoted values, choices, comparisons and plain words', () => {
+    const filter = parseFilterQuery('street:"Main St" lot:corner,double area>600 depth:30..45 1200 ')
+    expect(filter.errors).toEqual([])
+    expect(filter.text).toBe('1200 ')
+    expect(filter.clauses).toEqual([
+      { kind: 'text', field: 'street', value: 'Main St' },
+      { kind: 'choice', field: 'lot', values: ['Corner Lot', 'Double Fronting'] },
+      {
+        kind: 'number',
+        field: 'area',
+        range: { min: 600, max: Infinity, includeMin: false, includeMax: false },
+      },
+      { kind: 'number', field: 'depth', range: { min: 30, max: 45, includeMin: true, includeMax: true } },
+    ])
+  })
+
+  it('points at the clause that is wrong and suggests a field', () => {
+    const query = 'lott:corner area:600 confidence:meh '
+    expect(parseFilterQuery(query).errors).toEqual([
+      { message: 'Unknown field "lott". Did you mean lot?', start: 0, end: 11, partial: false },
+      {
+        message: 'Use area>600, area<600 or a range such as area:500..700.',
+        start: 12,
+        end: 20,
+        partial: false,
+      },
+      {
+        message: 'Unknown classification confidence "meh". Use high, medium or low.',
+        start: 21,
+        end: 35,
+        partial: false,
+      },
+    ])
+  })
+
+  it('marks problems in the clause being typed as partial', () => {
+    expect(parseFilterQuery('lot:corner street:"Main').errors).toEqual([
+      expect.objectContaining({ message: 'Close the quote in street.', partial: true }),
+    ])
+    expect(parseFilterQuery('lot:').errors[0]?.partial).toBe(true)
+    expect(parseFilterQuery('lot: ').errors[0]?.partial).toBe(false)
+  })
+
+  it('only treats field clauses as filters', () => {
+    expect(isFilterQuery('1234 main st')).toBe(false)
+    expect(isFilterQuery('https://maps.example/?q=49.2,-123.1')).toBe(false)
+    expect(isFilterQuery('main zone:RS')).toBe(true)
+    expect(isFilterQuery('conf:low')).toBe(true)
+    expect(isFilterQuery('geo:49.2827,-123.1207')).toBe(false)
+    expect(isFilterQuery('Unit 4: 1234 Main St')).toBe(false)
+    expect(isFilterQuery('Attn:Jane 1234 Main St')).toBe(false)
+  })
+})
+
+describe('suggestFilterCompletions', () => {
+  it('completes field names, choices and misspelled fields', () => {
+    expect(suggestFilterCompletions('conf').map((s) => s.query)).toEqual(['confidence:'])
+    expect(suggestFilterCompletions('zone:RS ar').map((s) => s.query)).toEqual(['zone:RS area>'])
+    expect(suggestFilterCompletions('lot:corner,d')).toEqual([
+      { label: 'lot:corner,double', detail: 'Double Fronting', query: 'lot:corner,double ' },
+    ])
+    expect(suggestFilterCompletions('deph>20').map((s) => s.query)).toEqual(['depth>20'])
+    expect(suggestFilterCompletions('lot:corner ')).toEqual([])
+  })
+})
+
+describe('runFilterQuery', () => {
+  it('returns parcels matching every clause in address order', () => {
+    const result = run('street:"Main St" lot:corner area>600 confidence:low')
+    expect(result.records.map((r) => r.id)).toEqual(['1', '3'])
+    expect(result.matches.map((r) => r.id)).toEqual(['1', '3'])
+    // 1230 Main St passed the street clause but has never been analyzed.
+    expect(result.unanalyzed).toBe(1)
+  })
+
+  it('matches zoning families and plain address words', () => {
+    expect(run('zone:RS').records.map((r) => r.id)).toEqual(['4', '1', '2', '5'])
+    expect(run('zone:RS').matches.map((r) => r.id)).toEqual(['1', '2', '4', '5'])
+    expect(run('zone:RS-1 main').records.map((r) => r.id)).toEqual(['1', '5'])
+  })
+
+  it('matches nothing while the query has errors', () => {
+    expect(run('lot:corner area:big').matches).toEqual([])
+    expect(run('lot:cor').matches).toEqual([])
+  })
+})
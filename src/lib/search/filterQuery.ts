@@ -0,0 +1,398 @@
+import type { ParcelAnalysisSummary, SearchRecord } from '../../types/parcel'
+import { boundedEditDistance, type AddressSearch } from './addressSearch'
+
+// Fields a query can filter on. `lot`, `confidence` and the measurements come from a parcel's
+// analysis, so they only match parcels that have one.
+export const FILTER_FIELDS = {
+  street: { kind: 'text', description: 'Street name', analysis: false },
+  zone: { kind: 'text', description: 'Zoning district, or a family such as RS', analysis: false },
+  lot: {
+    kind: 'choice',
+    description: 'Lot type',
+    analysis: true,
+    choices: {
+      corner: 'Corner Lot',
+      double: 'Double Fronting',
+      lane: 'Standard with Lane',
+      nolane: 'Standard without Lane',
+    },
+  },
+  confidence: {
+    kind: 'choice',
+    description: 'Classification confidence',
+    analysis: true,
+    choices: { high: 'high', medium: 'medium', low: 'low' },
+  },
+  area: { kind: 'number', description: 'Lot area in m²', analysis: true },
+  frontage: { kind: 'number', description: 'Frontage width in m', analysis: true },
+  depth: { kind: 'number', description: 'Average depth in m', analysis: true },
+} as const
+
+export type FilterField = keyof typeof FILTER_FIELDS
+type FieldOfKind<K> = {
+  [F in FilterField]: (typeof FILTER_FIELDS)[F]['kind'] extends K ? F : never
+}[FilterField]
+
+export interface NumberRange {
+  min: number
+  max: number
+  includeMin: boolean
+  includeMax: boolean
+}
+
+export type FilterClause =
+  | { kind: 'text'; field: FieldOfKind<'text'>; value: string }
+  // Resolved to the analysis values (`Corner Lot`); a parcel matches any of them.
+  | { kind: 'choice'; field: FieldOfKind<'choice'>; values: string[] }
+  | { kind: 'number'; field: FieldOfKind<'number'>; range: NumberRange }
+
+export interface FilterError {
+  message: string
+  // Span of the offending clause in the query.
+  start: number
+  end: number
+  // Raised by the clause still being typed; not worth showing until the user moves on.
+  partial: boolean
+}
+
+export interface FilterQuery {
+  // The words that are not clauses, matched against addresses.
+  text: string
+  clauses: FilterClause[]
+  errors: FilterError[]
+}
+
+export interface FilterSuggestion {
+  label: string
+  detail: string
+  // The whole query with the suggestion applied.
+  query: string
+}
+
+export interface FilterContext {
+  search: AddressSearch
+  summaryFor: (parcelId: string) => ParcelAnalysisSummary | undefined
+}
+
+export interface FilterResult {
+  // The first `limit` matches in address order.
+  records: SearchRecord[]
+  // Every match, in search index order.
+  matches: SearchRecord[]
+  // Parcels that passed every other clause but have no analysis to test the rest against.
+  unanalyzed: number
+}
+
+const FIELD_NAMES = Object.keys(FILTER_FIELDS) as FilterField[]
+const CLAUSE_PATTERN = /^([a-z]+)(>=|<=|:|>|<|=)([\s\S]*)$/i
+const NUMBER_PATTERN = /^\d+(?:\.\d+)?$/
+const RANGE_PATTERN = /^(\d+(?:\.\d+)?)\.\.(\d+(?:\.\d+)?)$/
+const DEFAULT_FILTER_LIMIT = 50
+const MAX_SUGGESTIONS = 6
+const EMPTY_RESULT: FilterResult = { records: [], matches: [], unanalyzed: 0 }
+
+interface QueryToken {
+  text: string
+  start: number
+  end: number
+  openQuote: boolean
+}
+
+// Whitespace-separated, except inside double quotes.
+function splitTokens(query: string): QueryToken[] {
+  const tokens: QueryToken[] = []
+  let index = 0
+  while (index < query.length) {
+    if (/\s/.test(query[index] ?? '')) {
+      index += 1
+      continue
+    }
+    const start = index
+    let openQuote = false
+    while (index < query.length && (openQuote || !/\s/.test(query[index] ?? ''))) {
+      if (query[index] === '"') openQuote = !openQuote
+      index += 1
+    }
+    tokens.push({ text: query.slice(start, index), start, end: index, openQuote })
+  }
+  return tokens
+}
+
+function readClause(text: string) {
+  const match = CLAUSE_PATTERN.exec(text)
+  if (!match?.[1] || !match[2] || match[3] === undefined) return null
+  // A pasted link ("https://...") is not a clause.
+  if (match[3].startsWith('//')) return null
+  return { name: match[1].toLowerCase(), operator: match[2], value: match[3] }
+}
+
+function isFilterField(name: string): name is FilterField {
+  return Object.hasOwn(FILTER_FIELDS, name)
+}
+
+function closestFields(name: string): FilterField[] {
+  const byPrefix = FIELD_NAMES.filter((field) => field.startsWith(name) || name.startsWith(field))
+  if (byPrefix.length > 0) return byPrefix
+  return FIELD_NAMES.filter((field) => boundedEditDistance(name, field, 2) <= 2)
+}
+
+function listChoices(names: string[]): string {
+  if (names.length < 2) return names.join('')
+  return `${names.slice(0, -1).join(', ')} or ${names.at(-1)}`
+}
+
+function unknownFieldMessage(name: string): string {
+  const [closest] = closestFields(name)
+  return closest
+    ? `Unknown field "${name}". Did you mean ${closest}?`
+    : `Unknown field "${name}". Filter on ${listChoices(FIELD_NAMES)}.`
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1)
+    : value
+}
+
+function compact(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+// "corner", or the full value ("Corner Lot").
+function resolveChoice(choices: Readonly<Record<string, string>>, value: string): string | null {
+  const key = compact(value)
+  for (const [alias, resolved] of Object.entries(choices)) {
+    if (alias === key || compact(resolved) === key) return resolved
+  }
+  return null
+}
+
+function parseNumberRange(field: string, operator: string, value: string): NumberRange | string {
+  if (operator === ':' || operator === '=') {
+    const range = RANGE_PATTERN.exec(value)
+    if (!range) return `Use ${field}>600, ${field}<600 or a range such as ${field}:500..700.`
+    const low = Number(range[1])
+    const high = Number(range[2])
+    return { min: Math.min(low, high), max: Math.max(low, high), includeMin: true, includeMax: true }
+  }
+  if (!NUMBER_PATTERN.test(value)) return `${field} needs a number, as in ${field}${operator}600.`
+  const number = Number(value)
+  return operator.startsWith('>')
+    ? { min: number, max: Infinity, includeMin: operator === '>=', includeMax: false }
+    : { min: -Infinity, max: number, includeMin: false, includeMax: operator === '<=' }
+}
+
+// True once the query has a clause for a known field, or for the start of one ("conf:"). Other
+// `word:` tokens, such as a pasted `geo:` URI or "Unit 4: 1234 Main St", leave it an address search.
+export function isFilterQuery(query: string): boolean {
+  return splitTokens(query).some((token) => {
+    const clause = readClause(token.text)
+    return clause !== null && FIELD_NAMES.some((field) => field.startsWith(clause.name))
+  })
+}
+
+export function parseFilterQuery(query: string): FilterQuery {
+  const typing = query.length > 0 && !/\s$/.test(query)
+  const tokens = splitTokens(query)
+  const words: string[] = []
+  const clauses: FilterClause[] = []
+  const errors: FilterError[] = []
+  let endsWithWord = false
+
+  tokens.forEach((token, index) => {
+    const isTyping = typing && index === tokens.length - 1
+    const clause = readClause(token.text)
+    endsWithWord = clause === null
+    if (!clause) {
+      words.push(token.text)
+      return
+    }
+
+    const fail = (message: string, partial = isTyping) =>
+      errors.push({ message, start: token.start, end: token.end, partial })
+    const { name, operator } = clause
+    if (!isFilterField(name)) {
+      fail(unknownFieldMessage(name), false)
+      return
+    }
+    if (token.openQuote) {
+      fail(`Close the quote in ${name}.`)
+      return
+    }
+    const value = unquote(clause.value).trim()
+    if (!value) {
+      fail(`${name} needs a value.`)
+      return
+    }
+
+    const spec = FILTER_FIELDS[name]
+    if (spec.kind !== 'number' && operator !== ':' && operator !== '=') {
+      const example = spec.kind === 'choice' ? Object.keys(spec.choices)[0] : 'value'
+      fail(`${name} is compared with ":", as in ${name}:${example}.`)
+      return
+    }
+
+    if (spec.kind === 'text') {
+      clauses.push({ kind: 'text', field: name as FieldOfKind<'text'>, value })
+    } else if (spec.kind === 'choice') {
+      const values: string[] = []
+      for (const part of value.split(',').filter(Boolean)) {
+        const resolved = resolveChoice(spec.choices, part)
+        if (!resolved) {
+          const choices = listChoices(Object.keys(spec.choices))
+          fail(`Unknown ${spec.description.toLowerCase()} "${part}". Use ${choices}.`)
+          return
+        }
+        values.push(resolved)
+      }
+      clauses.push({ kind: 'choice', field: name as FieldOfKind<'choice'>, values })
+    } else {
+      const range = parseNumberRange(name, operator, value)
+      if (typeof range === 'string') {
+        fail(range)
+        return
+      }
+      clauses.push({ kind: 'number', field: name as FieldOfKind<'number'>, range })
+    }
+  })
+
+  // The last word keeps completing as a prefix while it is being typed.
+  const text = words.length === 0 ? '' : `${words.join(' ')}${typing && endsWithWord ? '' : ' '}`
+  return { text, clauses, errors }
+}
+
+function operatorFor(field: FilterField): string {
+  return FILTER_FIELDS[field].kind === 'number' ? '>' : ':'
+}
+
+// Completes the token being typed: a field name, a lot type or confidence, or a misspelled field.
+export function suggestFilterCompletions(query: string): FilterSuggestion[] {
+  if (!query || /\s$/.test(query)) return []
+  const last = splitTokens(query).at(-1)
+  if (!last || last.openQuote) return []
+  const before = query.slice(0, last.start)
+  const clause = readClause(last.text)
+
+  if (!clause) {
+    if (!/^[a-z]+$/i.test(last.text)) return []
+    const prefix = last.text.toLowerCase()
+    return FIELD_NAMES.filter((field) => field.startsWith(prefix))
+      .slice(0, MAX_SUGGESTIONS)
+      .map((field) => ({
+        label: `${field}${operatorFor(field)}`,
+        detail: FILTER_FIELDS[field].description,
+        query: `${before}${field}${operatorFor(field)}`,
+      }))
+  }
+
+  const { name, operator, value } = clause
+  if (!isFilterField(name)) {
+    return closestFields(name)
+      .slice(0, MAX_SUGGESTIONS)
+      .map((field) => ({
+        label: `${field}${operator}${value}`,
+        detail: `Did you mean ${field}?`,
+        query: `${before}${field}${operator}${value}`,
+      }))
+  }
+
+  const spec = FILTER_FIELDS[name]
+  if (spec.kind !== 'choice' || (operator !== ':' && operator !== '=')) return []
+  const chosen = value.slice(0, value.lastIndexOf(',') + 1)
+  const partial = value.slice(chosen.length).toLowerCase()
+  return Object.entries(spec.choices)
+    .filter(([alias]) => alias.startsWith(partial) && alias !== partial)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(([alias, resolved]) => ({
+      label: `${name}${operator}${chosen}${alias}`,
+      detail: resolved,
+      query: `${before}${name}${operator}${chosen}${alias} `,
+    }))
+}
+
+function inRange(value: number | null, { min, max, includeMin, includeMax }: NumberRange): boolean {
+  if (value === null) return false
+  return (includeMin ? value >= min : value > min) && (includeMax ? value <= max : value < max)
+}
+
+function readMeasurement(field: FieldOfKind<'number'>, summary: ParcelAnalysisSummary) {
+  if (field === 'area') return summary.areaM2
+  return field === 'frontage' ? summary.frontageMeters : summary.depthMeters
+}
+
+// `zone:RS` covers RS-1 to RS-7; `zone:RS-1` only RS-1.
+function matchesZone(zoningCode: string, value: string): boolean {
+  const code = zoningCode.toUpperCase()
+  const wanted = value.toUpperCase()
+  return code === wanted || code.startsWith(`${wanted}-`)
+}
+
+function intersect(current: number[] | null, next: number[]): number[] {
+  if (!current) return next
+  const keep = new Set(next)
+  return current.filter((index) => keep.has(index))
+}
+
+// Runs a parsed query over the search records. Nothing matches while the query has errors,
+// including the clause still being typed.
+export function runFilterQuery(
+  filter: FilterQuery,
+  { search, summaryFor }: FilterContext,
+  limit = DEFAULT_FILTER_LIMIT,
+): FilterResult {
+  const { text, clauses, errors } = filter
+  if (errors.length > 0 || (clauses.length === 0 && !text)) return EMPTY_RESULT
+
+  let candidates = text ? search.matchIndices(text) : null
+  for (const clause of clauses) {
+    if (clause.kind === 'text' && clause.field === 'street') {
+      candidates = intersect(candidates, search.matchIndices(`${clause.value} `, 'street'))
+    }
+  }
+  const zoneClauses = clauses.filter(
+    (clause): clause is Extract<FilterClause, { kind: 'text' }> =>
+      clause.kind === 'text' && clause.field === 'zone',
+  )
+  const analysisClauses = clauses.filter((clause) => FILTER_FIELDS[clause.field].analysis)
+
+  const { records } = search
+  const collator = new Intl.Collator(undefined, { numeric: true })
+  const byAddress = (a: SearchRecord, b: SearchRecord) => collator.compare(a.address, b.address)
+  const top: SearchRecord[] = []
+  const matches: SearchRecord[] = []
+  let unanalyzed = 0
+
+  const consider = (record: SearchRecord | undefined) => {
+    if (!record) return
+    if (!zoneClauses.every((clause) => matchesZone(record.zoningCode, clause.value))) return
+    if (analysisClauses.length > 0) {
+      const summary = summaryFor(record.id)
+      if (!summary) {
+        unanalyzed += 1
+        return
+      }
+      const passesAnalysis = analysisClauses.every((clause) => {
+        if (clause.kind === 'choice') {
+          return clause.values.includes(clause.field === 'lot' ? summary.lotType : summary.confidence)
+        }
+        return clause.kind === 'number' && inRange(readMeasurement(clause.field, summary), clause.range)
+      })
+      if (!passesAnalysis) return
+    }
+
+    matches.push(record)
+    const worst = top[top.length - 1]
+    if (top.length >= limit && worst && byAddress(record, worst) >= 0) return
+    let position = top.length
+    while (position > 0 && byAddress(record, top[position - 1] as SearchRecord) < 0) position -= 1
+    top.splice(position, 0, record)
+    if (top.length > limit) top.pop()
+  }
+
+  if (candidates) {
+    for (const index of candidates) consider(records[index])
+  } else {
+    for (const record of records) consider(record)
+  }
+  return { records: top, matches, unanalyzed }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { parseIntersectionQuery } from './intersectionQuery'
+
+describe('parseIntersectionQuery', () => {
+  it('splits on an ampersand or the word "and"', () => {
+    expect(parseIntersectionQuery('Main St & E 2nd Ave')).toEqual({
+      first: 'Main St',
+      second: 'E 2nd Ave',
+    })
+    expect(parseIntersectionQuery(' main AND 2nd ')).toEqual({ first: 'main', second: '2nd' })
+    expect(parseIntersectionQuery('Main&Oak')).toEqual({ first: 'Main', second: 'Oak' })
+  })
+
+  it('leaves addresses and incomplete queries alone', () => {
+    expect(parseIntersectionQuery('1200 Main St')).toBeNull()
+    expect(parseIntersectionQuery('Grandview Hwy')).toBeNull()
+    expect(parseIntersectionQuery('Main St &')).toBeNull()
+    expect(parseIntersectionQuery('Main & 1200')).toBeNull()
+    expect(parseIntersectionQuery('Main & Oak & Elm')).toBeNull()
+  })
+})
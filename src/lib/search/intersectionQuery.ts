@@ -0,0 +1,16 @@
+export interface IntersectionQuery {
+  first: string
+  second: string
+}
+
+const SEPARATOR = /\s*&\s*|\s+and\s+/i
+
+// "Main St & E 2nd Ave" or "main and 2nd"; anything else is not an intersection.
+export function parseIntersectionQuery(query: string): IntersectionQuery | null {
+  const parts = query.split(SEPARATOR).map((part) => part.trim())
+  if (parts.length !== 2) return null
+  const [first = '', second = ''] = parts
+  // Each side must name a street, not just a number.
+  if (!/[a-z]/i.test(first) || !/[a-z]/i.test(second)) return null
+  return { first, second }
+}
@@ -0,0 +1,49 @@
+import {
+  DEFAULT_ANALYSIS_CONFIG,
+  sanitizeAnalysisConfig,
+  type AnalysisConfig,
+} from '../geo/analysisConfig'
+
+const CONFIG_KEY = 'unlockland_analysis_config'
+const EXPORT_VERSION = 1
+
+export interface AnalysisConfigExport {
+  version: number
+  exportedAt: string
+  config: AnalysisConfig
+}
+
+export function loadAnalysisConfig(): AnalysisConfig {
+  try {
+    const raw = localStorage.getItem(CONFIG_KEY)
+    if (!raw) return DEFAULT_ANALYSIS_CONFIG
+    return sanitizeAnalysisConfig(JSON.parse(raw))
+  } catch {
+    return DEFAULT_ANALYSIS_CONFIG
+  }
+}
+
+export function saveAnalysisConfig(config: AnalysisConfig): void {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config))
+}
+
+export function clearAnalysisConfig(): void {
+  localStorage.removeItem(CONFIG_KEY)
+}
+
+export function toAnalysisConfigExport(config: AnalysisConfig): AnalysisConfigExport {
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    config,
+  }
+}
+
+export function parseAnalysisConfigExport(text: string): AnalysisConfig {
+  // Accept both the export envelope and a bare config object.
+  const parsed = JSON.parse(text) as unknown
+  if (parsed && typeof parsed === 'object' && 'config' in parsed) {
+    return sanitizeAnalysisConfig((parsed as { config: unknown }).config)
+  }
+  return sanitizeAnalysisConfig(parsed)
+}
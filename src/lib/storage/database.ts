@@ -0,0 +1,42 @@
+// Collections that can grow to thousands of parcels live in IndexedDB rather than localStorage.
+const DB_NAME = 'unlockland'
+// 2 added the saved parcels store.
+const DB_VERSION = 2
+export const OVERRIDES_STORE = 'parcelOverrides'
+export const SAVED_PARCELS_STORE = 'savedParcels'
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(OVERRIDES_STORE)) {
+        request.result.createObjectStore(OVERRIDES_STORE, { keyPath: 'parcelId' })
+      }
+      if (!request.result.objectStoreNames.contains(SAVED_PARCELS_STORE)) {
+        request.result.createObjectStore(SAVED_PARCELS_STORE, { keyPath: 'id' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Runs one request in its own transaction and resolves once the transaction has committed.
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode)
+      const request = run(transaction.objectStore(storeName))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
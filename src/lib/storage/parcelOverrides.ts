@@ -0,0 +1,22 @@
+import type { ParcelOverride } from '../../types/parcel'
+import { sanitizeParcelOverride } from '../geo/overrides'
+import { OVERRIDES_STORE, withStore } from './database'
+
+export async function loadParcelOverrides(): Promise<ParcelOverride[]> {
+  try {
+    const raw = await withStore<unknown[]>(OVERRIDES_STORE, 'readonly', (store) => store.getAll())
+    return raw
+      .map(sanitizeParcelOverride)
+      .filter((override): override is ParcelOverride => override !== null)
+  } catch {
+    return []
+  }
+}
+
+export async function saveParcelOverride(override: ParcelOverride): Promise<void> {
+  await withStore(OVERRIDES_STORE, 'readwrite', (store) => store.put(override))
+}
+
+export async function deleteParcelOverride(parcelId: string): Promise<void> {
+  await withStore(OVERRIDES_STORE, 'readwrite', (store) => store.delete(parcelId))
+}
@@ -0,0 +1,28 @@
+import type { SavedParcel } from '../../types/parcel'
+import { sanitizeSavedParcel } from '../data/savedParcels'
+import { SAVED_PARCELS_STORE, withStore } from './database'
+
+export async function loadSavedParcels(): Promise<SavedParcel[]> {
+  try {
+    const raw = await withStore<unknown[]>(SAVED_PARCELS_STORE, 'readonly', (store) =>
+      store.getAll(),
+    )
+    return raw
+      .map(sanitizeSavedParcel)
+      .filter((parcel): parcel is SavedParcel => parcel !== null)
+  } catch {
+    return []
+  }
+}
+
+// One transaction for the lot, so an import is stored completely or not at all.
+export async function putSavedParcels(parcels: SavedParcel[]): Promise<void> {
+  await withStore(SAVED_PARCELS_STORE, 'readwrite', (store) => {
+    for (const parcel of parcels) store.put(parcel)
+    return store.count()
+  })
+}
+
+export async function deleteSavedParcel(parcelId: string): Promise<void> {
+  await withStore(SAVED_PARCELS_STORE, 'readwrite', (store) => store.delete(parcelId))
+}
@@ -0,0 +1,21 @@
+import { DEFAULT_SETBACKS, sanitizeSetbacks, type SetbackConfig } from '../geo/setbacks'
+
+const SETBACKS_KEY = 'unlockland_setbacks'
+
+export function loadSetbacks(): SetbackConfig {
+  try {
+    const raw = localStorage.getItem(SETBACKS_KEY)
+    if (!raw) return DEFAULT_SETBACKS
+    return sanitizeSetbacks(JSON.parse(raw))
+  } catch {
+    return DEFAULT_SETBACKS
+  }
+}
+
+export function saveSetbacks(setbacks: SetbackConfig): void {
+  localStorage.setItem(SETBACKS_KEY, JSON.stringify(setbacks))
+}
+
+export function clearSetbacks(): void {
+  localStorage.removeItem(SETBACKS_KEY)
+}
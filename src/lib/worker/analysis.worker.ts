@@ -0,0 +1,13 @@
+import { fetchJson } from '../data/fetchJson'
+import { createAnalysisHandler } from './analysisHandler'
+import type { AnalysisProgress, AnalysisRequest } from './analysisProtocol'
+
+const handle = createAnalysisHandler(fetchJson)
+
+self.addEventListener('message', (event: MessageEvent<AnalysisRequest>) => {
+  const { requestId } = event.data
+  const report = (progress: AnalysisProgress['progress']) => {
+    self.postMessage({ type: 'progress', requestId, progress } satisfies AnalysisProgress)
+  }
+  void handle(event.data, report).then((response) => self.postMessage(response))
+})
@@ -0,0 +1,79 @@
+import type { FileProgress } from '../data/fetchJson'
+import type {
+  AnalysisMessage,
+  AnalysisPayloads,
+  AnalysisRequest,
+  AnalysisRequestType,
+  AnalysisResults,
+} from './analysisProtocol'
+
+// The slice of `Worker` the client needs, so tests can connect it straight to the handler.
+export interface AnalysisPort {
+  postMessage: (message: AnalysisRequest) => void
+  onmessage: ((event: MessageEvent<AnalysisMessage>) => void) | null
+  terminate: () => void
+}
+
+export interface RequestOptions {
+  // Called while a load request downloads its file.
+  onProgress?: (progress: FileProgress) => void
+}
+
+export interface AnalysisClient {
+  request: <K extends AnalysisRequestType>(
+    type: K,
+    payload: AnalysisPayloads[K],
+    options?: RequestOptions,
+  ) => Promise<AnalysisResults[K]>
+  dispose: () => void
+}
+
+interface PendingRequest {
+  resolve: (result: never) => void
+  reject: (error: Error) => void
+  onProgress: ((progress: FileProgress) => void) | undefined
+}
+
+export function createAnalysisClient(port: AnalysisPort): AnalysisClient {
+  const pending = new Map<number, PendingRequest>()
+  let nextRequestId = 1
+
+  port.onmessage = (event) => {
+    const response = event.data
+    const request = pending.get(response.requestId)
+    if (!request) return
+    if (response.type === 'progress') {
+      request.onProgress?.(response.progress)
+      return
+    }
+    pending.delete(response.requestId)
+    if (response.ok) {
+      request.resolve(response.result as never)
+    } else {
+      request.reject(new Error(response.error))
+    }
+  }
+
+  return {
+    request: (type, payload, options = {}) =>
+      new Promise((resolve, reject) => {
+        const requestId = nextRequestId
+        nextRequestId += 1
+        pending.set(requestId, { resolve, reject, onProgress: options.onProgress })
+        port.postMessage({ type, requestId, payload } as AnalysisRequest)
+      }),
+    dispose: () => {
+      port.onmessage = null
+      port.terminate()
+      for (const request of pending.values()) {
+        request.reject(new Error('The analysis worker was stopped.'))
+      }
+      pending.clear()
+    },
+  }
+}
+
+export function createAnalysisWorker(): AnalysisClient {
+  const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' })
+  return createAnalysisClient(worker)
+}
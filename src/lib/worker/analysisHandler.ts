@@ -0,0 +1,235 @@
+import type { FetchJsonOptions, FileProgress } from '../data/fetchJson'
+import { createParcelTileStore, selectViewportTiles, type ParcelTileStore } from '../data/parcelTiles'
+import { sanitizeParcelTileManifest, sanitizeRoadFeature } from '../data/sanitize'
+import { assembleParcels } from '../geo/assembly'
+import { computeBuildableEnvelope } from '../geo/buildableEnvelope'
+import { applyParcelOverride, toLabelledDataset } from '../geo/overrides'
+import { analyzeParcel } from '../geo/parcelAnalysis'
+import type { Bounds } from '../geo/parcelGeometry'
+import {
+  createCandidateRoadNetwork,
+  createLocalRoadNetwork,
+  type RoadNetworkProvider,
+} from '../geo/roadNetwork'
+import { createStreetIndex, type StreetIndex } from '../geo/streetIntersections'
+import type { ParcelAnalysis, ParcelFeature, RoadFeature } from '../../types/parcel'
+import type {
+  AnalysisPayloads,
+  AnalysisRequest,
+  AnalysisResponse,
+  AnalysisResults,
+  IntersectionParcel,
+} from './analysisProtocol'
+
+// Reach from where the centrelines meet: a corner lot on a 30 m arterial allowance is about
+// 21 m away, so this takes in every corner and the odd lot beside one.
+const INTERSECTION_REACH_METERS = 25
+
+// `fetchJson` in the worker; tests pass an in-memory loader with the same contract.
+export type JsonLoader = (url: string, options?: FetchJsonOptions) => Promise<unknown>
+
+interface WorkerData {
+  tiles: ParcelTileStore
+  localRoads: RoadNetworkProvider | null
+  streets: StreetIndex | null
+}
+
+interface WorkerState {
+  tiles: ParcelTileStore | null
+  localRoads: RoadNetworkProvider | null
+  streets: StreetIndex | null
+}
+
+function readFeatures(json: unknown): unknown[] {
+  const features = (json as { features?: unknown } | null)?.features
+  return Array.isArray(features) ? features : []
+}
+
+async function loadTiles(
+  loadJson: JsonLoader,
+  { tilesUrl }: AnalysisPayloads['load'],
+  onProgress: (progress: FileProgress) => void,
+): Promise<ParcelTileStore> {
+  // Only the manifest is read up front; parcel tiles load as the map and selection need them.
+  const manifest = sanitizeParcelTileManifest(
+    await loadJson(`${tilesUrl}/manifest.json`, { onProgress }),
+  )
+  if (!manifest) throw new Error(`${tilesUrl}/manifest.json is not a parcel tile manifest.`)
+  return createParcelTileStore(manifest, (quadkey) => loadJson(`${tilesUrl}/${quadkey}.json`))
+}
+
+async function loadRoads(
+  loadJson: JsonLoader,
+  { roadsUrl }: AnalysisPayloads['load-roads'],
+  onProgress: (progress: FileProgress) => void,
+): Promise<Pick<WorkerState, 'localRoads' | 'streets'>> {
+  // A missing road file is normal; a broken one is reported so it can be retried.
+  const json = await loadJson(roadsUrl, { onProgress, optional: true })
+  const roads = readFeatures(json)
+    .map(sanitizeRoadFeature)
+    .filter((feature): feature is RoadFeature => feature !== null)
+  if (roads.length === 0) return { localRoads: null, streets: null }
+  return {
+    localRoads: createLocalRoadNetwork({ type: 'FeatureCollection', features: roads }),
+    streets: createStreetIndex(roads),
+  }
+}
+
+async function queryViewport(
+  data: WorkerData,
+  { bounds, paddingRatio, maxFeatures, center }: AnalysisPayloads['query-viewport'],
+): Promise<AnalysisResults['query-viewport']> {
+  const [west, south, east, north] = bounds
+  const lonPadding = Math.max(0, east - west) * paddingRatio
+  const latPadding = Math.max(0, north - south) * paddingRatio
+  const padded: Bounds = [west - lonPadding, south - latPadding, east + lonPadding, north + latPadding]
+
+  const entries = selectViewportTiles(data.tiles.manifest, padded, center, maxFeatures)
+  const tiles = await Promise.all(entries.map((entry) => data.tiles.getTile(entry.quadkey)))
+  return {
+    tileKey: entries.map((entry) => entry.quadkey).join(','),
+    parcels: tiles.flatMap((tile) => tile.parcels),
+  }
+}
+
+async function findIntersection(
+  data: WorkerData,
+  { first, second, config }: AnalysisPayloads['find-intersection'],
+): Promise<AnalysisResults['find-intersection']> {
+  if (!data.streets) return null
+  const lookup = data.streets.findIntersections(first, second)
+  if (lookup.status === 'too-broad') return lookup
+  const isCorner = (parcel: IntersectionParcel) => (parcel.lotType === 'Corner Lot' ? 0 : 1)
+
+  const matches = await Promise.all(
+    lookup.intersections.map(async ({ position, streets }) => {
+      const [lon, lat] = position
+      const near = await data.tiles.findParcelsNear(lon, lat, INTERSECTION_REACH_METERS)
+      const parcels = near.map(({ parcel, distanceMeters }): IntersectionParcel => {
+        const { id, lon, lat } = parcel.properties
+        const { lotType } = analyzeParcel(parcel, data.localRoads ?? undefined, config)
+        return { ref: { id, lon, lat }, lotType, distanceMeters }
+      })
+      parcels.sort((a, b) => isCorner(a) - isCorner(b) || a.distanceMeters - b.distanceMeters)
+      return { position, streets, parcels }
+    }),
+  )
+  return { status: 'found', matches }
+}
+
+function analyzeSite(
+  data: WorkerData,
+  { parcels, config, roadCandidates }: AnalysisPayloads['analyze-site'],
+): AnalysisResults['analyze-site'] {
+  const roads = roadCandidates
+    ? createCandidateRoadNetwork(roadCandidates, 'rendered')
+    : data.localRoads
+  const analyze = (parcel: ParcelFeature): ParcelAnalysis =>
+    analyzeParcel(parcel, roads ?? undefined, config)
+
+  const [first] = parcels
+  if (!first) return null
+  if (parcels.length === 1) {
+    return { site: first, partCount: 1, analysis: analyze(first), breakdown: [] }
+  }
+
+  const assembly = assembleParcels(parcels)
+  if (!assembly) return null
+  return {
+    site: assembly.site,
+    partCount: assembly.partCount,
+    analysis: analyze(assembly.site),
+    breakdown: parcels.map(analyze),
+  }
+}
+
+async function buildLabelledDataset(
+  data: WorkerData,
+  { overrides, locations, config }: AnalysisPayloads['labelled-dataset'],
+): Promise<AnalysisResults['labelled-dataset']> {
+  const parcels = new Map(
+    (await data.tiles.getParcels(locations)).map((parcel) => [parcel.properties.id, parcel]),
+  )
+  const corrections: Array<{ parcel: ParcelFeature; analysis: ParcelAnalysis }> = []
+  for (const override of overrides) {
+    // Corrections for parcels missing from the current data are kept but not exported.
+    const parcel = parcels.get(override.parcelId)
+    if (!parcel) continue
+    const analysis = analyzeParcel(parcel, data.localRoads ?? undefined, config)
+    corrections.push({ parcel, analysis: applyParcelOverride(analysis, override) })
+  }
+  return toLabelledDataset(corrections, data.localRoads)
+}
+
+async function run(
+  state: WorkerState,
+  loadJson: JsonLoader,
+  request: AnalysisRequest,
+  onProgress: (progress: FileProgress) => void,
+): Promise<AnalysisResults[AnalysisRequest['type']]> {
+  if (request.type === 'load') {
+    state.tiles = await loadTiles(loadJson, request.payload, onProgress)
+    return { parcelCount: state.tiles.manifest.parcelCount }
+  }
+  if (request.type === 'load-roads') {
+    Object.assign(state, await loadRoads(loadJson, request.payload, onProgress))
+    return { hasLocalRoads: state.localRoads !== null }
+  }
+
+  const { tiles, localRoads, streets } = state
+  if (!tiles) throw new Error('Parcel data has not been loaded in the analysis worker.')
+  const data: WorkerData = { tiles, localRoads, streets }
+
+  switch (request.type) {
+    case 'query-viewport':
+      return queryViewport(data, request.payload)
+    case 'get-parcels':
+      return data.tiles.getParcels(request.payload)
+    case 'find-parcel-at': {
+      const parcel = await data.tiles.findParcelAt(request.payload.lon, request.payload.lat)
+      if (!parcel) return null
+      const { id, lon, lat } = parcel.properties
+      return { id, lon, lat }
+    }
+    case 'find-intersection':
+      return findIntersection(data, request.payload)
+    case 'analyze-site':
+      return analyzeSite(data, request.payload)
+    case 'buildable-envelope': {
+      const { site, analysis, setbacks } = request.payload
+      try {
+        return computeBuildableEnvelope(site, analysis, setbacks)
+      } catch {
+        // Polygon clipping can fail on degenerate rings; the rest of the card still renders.
+        return null
+      }
+    }
+    case 'labelled-dataset':
+      return buildLabelledDataset(data, request.payload)
+  }
+}
+
+// Requests run concurrently: one waiting on a tile download does not hold up the next, so answers
+// can come back out of order and the client matches them by `requestId`. The worker entry point
+// only wires this to `postMessage`.
+// `onProgress` receives the download progress of the file a load request reads.
+export function createAnalysisHandler(loadJson: JsonLoader) {
+  const state: WorkerState = { tiles: null, localRoads: null, streets: null }
+
+  return async (
+    request: AnalysisRequest,
+    onProgress: (progress: FileProgress) => void = () => {},
+  ): Promise<AnalysisResponse> => {
+    try {
+      const result = await run(state, loadJson, request, onProgress)
+      return { type: request.type, requestId: request.requestId, ok: true, result } as AnalysisResponse
+    } catch (error) {
+      return {
+        type: request.type,
+        requestId: request.requestId,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      }
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import type { FileProgress } from '../data/fetchJson'
+import type { AnalysisConfig } from '../geo/analysisConfig'
+import type { LabelledDataset } from '../geo/overrides'
+import type { Bounds } from '../geo/parcelGeometry'
+import type { RoadCandidate } from '../geo/roadNetwork'
+import type { SetbackConfig } from '../geo/setbacks'
+import type {
+  BuildableEnvelope,
+  LotType,
+  ParcelAnalysis,
+  ParcelFeature,
+  ParcelOverride,
+  ParcelRef,
+  Position,
+} from '../../types/parcel'
+
+// Messages between the main thread and the analysis worker. Everything here must survive
+// structured cloning, so payloads are plain data only.
+
+export interface ViewportQuery {
+  bounds: Bounds
+  paddingRatio: number
+  maxFeatures: number
+  center: Position
+}
+
+export interface ViewportParcels {
+  // Quadkeys of the tiles behind `parcels`; unchanged keys mean the map source can stay as it is.
+  tileKey: string
+  parcels: ParcelFeature[]
+}
+
+export interface SiteAnalysisRequest {
+  // One parcel is analyzed as is; two or more are unioned into one site first.
+  parcels: ParcelFeature[]
+  config: AnalysisConfig
+  // Rendered road vectors collected on the main thread; null uses the worker's local centrelines.
+  roadCandidates: RoadCandidate[] | null
+}
+
+export interface SiteAnalysisResult {
+  site: ParcelFeature
+  // Pieces of an assembled site that do not touch; 1 for a single parcel.
+  partCount: number
+  analysis: ParcelAnalysis
+  // Per-parcel analyses in `parcels` order; empty for a single parcel.
+  breakdown: ParcelAnalysis[]
+}
+
+export interface IntersectionParcel {
+  ref: ParcelRef
+  lotType: LotType
+  // From the parcel's nearest edge to the point where the centrelines meet.
+  distanceMeters: number
+}
+
+export interface IntersectionMatch {
+  position: Position
+  // As the road data names them.
+  streets: [string, string]
+  // Corner lots first, then nearest first.
+  parcels: IntersectionParcel[]
+}
+
+export type IntersectionResult =
+  | { status: 'found'; matches: IntersectionMatch[] }
+  // `name`, as typed, covers too many streets to search; nothing was compared.
+  | { status: 'too-broad'; name: string }
+
+export interface AnalysisPayloads {
+  // `tilesUrl` holds `manifest.json` and one `<quadkey>.json` chunk per tile.
+  load: { tilesUrl: string }
+  // Loaded separately so a slow or failed road file never holds up the parcels.
+  'load-roads': { roadsUrl: string }
+  'query-viewport': ViewportQuery
+  'get-parcels': ParcelRef[]
+  'find-parcel-at': { lon: number; lat: number }
+  // Street names as typed; matched against the local road file.
+  'find-intersection': { first: string; second: string; config: AnalysisConfig }
+  'analyze-site': SiteAnalysisRequest
+  'buildable-envelope': {
+    site: ParcelFeature
+    analysis: ParcelAnalysis
+    setbacks: SetbackConfig
+  }
+  // `locations` places each corrected parcel in its tile.
+  'labelled-dataset': {
+    overrides: ParcelOverride[]
+    locations: ParcelRef[]
+    config: AnalysisConfig
+  }
+}
+
+export interface AnalysisResults {
+  load: { parcelCount: number }
+  // False when the road file is missing or empty; analysis then uses rendered roads.
+  'load-roads': { hasLocalRoads: boolean }
+  'query-viewport': ViewportParcels
+  // Full geometry, in request order; parcels that no longer exist are left out.
+  'get-parcels': ParcelFeature[]
+  // The parcel containing the point, or null when it falls between parcels.
+  'find-parcel-at': ParcelRef | null
+  // Every place the streets meet, or null when there is no local road file to search.
+  'find-intersection': IntersectionResult | null
+  'analyze-site': SiteAnalysisResult | null
+  'buildable-envelope': BuildableEnvelope | null
+  'labelled-dataset': LabelledDataset
+}
+
+export type AnalysisRequestType = keyof AnalysisPayloads
+
+export type AnalysisRequest = {
+  [K in AnalysisRequestType]: { type: K; requestId: number; payload: AnalysisPayloads[K] }
+}[AnalysisRequestType]
+
+export type AnalysisResponse =
+  | {
+      [K in AnalysisRequestType]: { type: K; requestId: number; ok: true; result: AnalysisResults[K] }
+    }[AnalysisRequestType]
+  | { type: AnalysisRequestType; requestId: number; ok: false; error: string }
+
+// Download progress for the file a load request is reading; sent before its response.
+export interface AnalysisProgress {
+  type: 'progress'
+  requestId: number
+  progress: FileProgress
+}
+
+export type AnalysisMessage = AnalysisResponse | AnalysisProgress
@@ -0,0 +1,257 @@
+import { describe, expect, it } from 'vitest'
+import { buildParcelTiles } from '../data/parcelTiles'
+import { DEFAULT_ANALYSIS_CONFIG } from '../geo/analysisConfig'
+import { DEFAULT_SETBACKS } from '../geo/setbacks'
+import type { ParcelFeature, Position, RoadFeature } from '../../types/parcel'
+import { createAnalysisClient, type AnalysisPort } from './analysisClient'
+import { createAnalysisHandler } from './analysisHandler'
+import type { AnalysisMessage } from './analysisProtocol'
+
+// Local metres around Vancouver, same origin as the classification fixtures.
+const LAT0 = 49.26
+const LON0 = -123.1
+const METRES_PER_DEG_LAT = 111320
+const METRES_PER_DEG_LON = 111320 * Math.cos((LAT0 * Math.PI) / 180)
+
+function at(x: number, y: number): Position {
+  return [LON0 + x / METRES_PER_DEG_LON, LAT0 + y / METRES_PER_DEG_LAT]
+}
+
+function lot(id: string, civicNumber: string, x0: number, x1: number): ParcelFeature {
+  const [lon, lat] = at((x0 + x1) / 2, 18)
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[at(x0, 0), at(x1, 0), at(x1, 36), at(x0, 36), at(x0, 0)]],
+    },
+    properties: {
+      id,
+      siteId: id,
+      taxCoord: '',
+      civicNumber,
+      streetName: 'MAIN ST',
+      fullAddress: `${civicNumber} MAIN ST`,
+      lon,
+      lat,
+      zoningCode: 'RS-1',
+    },
+  }
+}
+
+function road(name: string, kind: 'street' | 'lane', y: number): RoadFeature {
+  return {
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: [at(-100, y), at(200, y)] },
+    properties: { name, roadClass: kind, kind },
+  }
+}
+
+const PARCELS = [lot('a', '100', 0, 10), lot('b', '110', 10, 20), lot('far', '900', 900, 910)]
+const [LOT_A, LOT_B] = PARCELS as [ParcelFeature, ParcelFeature, ParcelFeature]
+
+// Zoom 17 tiles are about 200 m wide here, so the far lot lands in a tile of its own.
+function tileFiles(parcels: ParcelFeature[]): Record<string, unknown> {
+  const { manifest, tiles } = buildParcelTiles(parcels, 17)
+  const files: Record<string, unknown> = { '/tiles/manifest.json': manifest }
+  for (const [quadkey, features] of tiles) {
+    files[`/tiles/${quadkey}.json`] = { type: 'FeatureCollection', features }
+  }
+  return files
+}
+
+function ref(parcel: ParcelFeature) {
+  const { id, lon, lat } = parcel.properties
+  return { id, lon, lat }
+}
+
+const FILES: Record<string, unknown> = {
+  ...tileFiles(PARCELS),
+  '/roads.geojson': {
+    type: 'FeatureCollection',
+    features: [road('MAIN ST', 'street', -10), road('LANE', 'lane', 39)],
+  },
+}
+
+// Connects the client to the handler in-process, the way the worker entry point does across threads.
+// Like `fetchJson`, the loader reports the file size and resolves missing optional files to null.
+function connect(files: Record<string, unknown> = FILES) {
+  const handle = createAnalysisHandler(async (url, options) => {
+    if (!(url in files)) {
+      if (options?.optional) return null
+      throw new Error(`Missing ${url}`)
+    }
+    const size = JSON.stringify(files[url]).length
+    options?.onProgress?.({ loadedBytes: size, totalBytes: size })
+    return files[url]
+  })
+  const port: AnalysisPort = {
+    onmessage: null,
+    postMessage: (message) => {
+      const send = (data: AnalysisMessage) => {
+        port.onmessage?.({ data } as MessageEvent<AnalysisMessage>)
+      }
+      void handle(message, (progress) => {
+        send({ type: 'progress', requestId: message.requestId, progress })
+      }).then(send)
+    },
+    terminate: () => {},
+  }
+  return createAnalysisClient(port)
+}
+
+const LOAD = { tilesUrl: '/tiles' }
+const LOAD_ROADS = { roadsUrl: '/roads.geojson' }
+
+async function loaded(files: Record<string, unknown> = FILES) {
+  const client = connect(files)
+  await client.request('load', LOAD)
+  await client.request('load-roads', LOAD_ROADS)
+  return client
+}
+
+describe('analysis worker', () => {
+  it('rejects requests before the data has loaded', async () => {
+    const client = connect()
+    await expect(
+      client.request('analyze-site', {
+        parcels: [LOT_A],
+        config: DEFAULT_ANALYSIS_CONFIG,
+        roadCandidates: null,
+      }),
+    ).rejects.toThrow(/not been loaded/)
+  })
+
+  it('loads the tile manifest and reports its download progress', async () => {
+    const progress: number[] = []
+    const summary = await connect().request('load', LOAD, {
+      onProgress: ({ loadedBytes }) => progress.push(loadedBytes),
+    })
+    expect(summary).toEqual({ parcelCount: 3 })
+    expect(progress).toEqual([JSON.stringify(FILES['/tiles/manifest.json']).length])
+  })
+
+  it('loads roads separately and treats a missing road file as optional', async () => {
+    expect(await connect().request('load-roads', LOAD_ROADS)).toEqual({ hasLocalRoads: true })
+    const withoutRoads = connect(tileFiles(PARCELS))
+    expect(await withoutRoads.request('load-roads', LOAD_ROADS)).toEqual({ hasLocalRoads: false })
+    expect(await withoutRoads.request('load', LOAD)).toEqual({ parcelCount: 3 })
+  })
+
+  it('fails to load without a tile manifest', async () => {
+    await expect(connect({}).request('load', LOAD)).rejects.toThrow(/manifest/)
+  })
+
+  it('answers viewport queries with the parcels of the visible tiles', async () => {
+    const client = await loaded()
+    const [west, south] = at(-5, -5)
+    const [east, north] = at(25, 40)
+    const query = {
+      bounds: [west, south, east, north] as [number, number, number, number],
+      paddingRatio: 0,
+      maxFeatures: 100,
+      center: at(10, 18),
+    }
+    const first = await client.request('query-viewport', query)
+    expect(first.parcels.map((parcel) => parcel.properties.id).sort()).toEqual(['a', 'b'])
+    expect((await client.request('query-viewport', query)).tileKey).toBe(first.tileKey)
+  })
+
+  it('returns full parcels for references', async () => {
+    const client = await loaded()
+    const parcels = await client.request('get-parcels', [
+      ref(LOT_B),
+      { id: 'gone', lon: LOT_A.properties.lon, lat: LOT_A.properties.lat },
+    ])
+    expect(parcels.map((parcel) => parcel.properties.id)).toEqual(['b'])
+    expect(parcels[0]?.geometry).toEqual(LOT_B.geometry)
+  })
+
+  it('finds the parcel at a coordinate', async () => {
+    const client = await loaded()
+    const [lon, lat] = at(15, 18)
+    expect(await client.request('find-parcel-at', { lon, lat })).toEqual(ref(LOT_B))
+    const [streetLon, streetLat] = at(15, -10)
+    expect(await client.request('find-parcel-at', { lon: streetLon, lat: streetLat })).toBeNull()
+  })
+
+  it('lists the parcels at a street intersection, corner lots first', async () => {
+    const oakSt: RoadFeature = {
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: [at(-10, -100), at(-10, 100)] },
+      properties: { name: 'OAK ST', roadClass: 'street', kind: 'street' },
+    }
+    const client = await loaded({
+      ...FILES,
+      '/roads.geojson': {
+        type: 'FeatureCollection',
+        features: [road('MAIN ST', 'street', -10), road('LANE', 'lane', 39), oakSt],
+      },
+    })
+    const result = await client.request('find-intersection', {
+      first: 'Oak Street',
+      second: 'main',
+      config: DEFAULT_ANALYSIS_CONFIG,
+    })
+    const [corner] = result?.status === 'found' ? result.matches : []
+    expect(corner?.streets).toEqual(['OAK ST', 'MAIN ST'])
+    expect(corner?.parcels.map(({ ref }) => ref.id)).toEqual(['a', 'b'])
+    expect(corner?.parcels[0]?.lotType).toBe('Corner Lot')
+
+    const withoutRoads = await loaded(tileFiles(PARCELS))
+    expect(
+      await withoutRoads.request('find-intersection', {
+        first: 'Oak St',
+        second: 'Main St',
+        config: DEFAULT_ANALYSIS_CONFIG,
+      }),
+    ).toBeNull()
+  })
+
+  it('analyzes a single parcel and an assembled site', async () => {
+    const client = await loaded()
+
+    const single = await client.request('analyze-site', {
+      parcels: [LOT_A],
+      config: DEFAULT_ANALYSIS_CONFIG,
+      roadCandidates: null,
+    })
+    expect(single?.site.properties.id).toBe('a')
+    expect(single?.analysis.lotType).toBe('Standard with Lane')
+    expect(single?.breakdown).toEqual([])
+
+    const assembled = await client.request('analyze-site', {
+      parcels: [LOT_A, LOT_B],
+      config: DEFAULT_ANALYSIS_CONFIG,
+      roadCandidates: null,
+    })
+    expect(assembled?.partCount).toBe(1)
+    expect(assembled?.analysis.dimensions.frontageWidthMeters).toBeCloseTo(20, 1)
+    expect(assembled?.breakdown).toHaveLength(2)
+  })
+
+  it('computes the buildable envelope for an analysis', async () => {
+    const client = await loaded()
+    const result = await client.request('analyze-site', {
+      parcels: [LOT_A],
+      config: DEFAULT_ANALYSIS_CONFIG,
+      roadCandidates: null,
+    })
+    if (!result) throw new Error('Expected an analysis')
+
+    const envelope = await client.request('buildable-envelope', {
+      site: result.site,
+      analysis: result.analysis,
+      setbacks: DEFAULT_SETBACKS,
+    })
+    expect(envelope?.areaM2).toBeGreaterThan(0)
+    expect(envelope?.areaM2).toBeLessThan(result.analysis.areaM2)
+  })
+
+  it('rejects pending requests when disposed', async () => {
+    const client = connect()
+    const pending = client.request('load', LOAD)
+    client.dispose()
+    await expect(pending).rejects.toThrow(/stopped/)
+  })
+})
@@ -5,6 +5,14 @@ export interface PolygonGeometry {
   coordinates: Position[][]
 }
 
+export interface MultiPolygonGeometry {
+  type: 'MultiPolygon'
+  coordinates: Position[][][]
+}
+
+// Split lots arrive as MultiPolygon; either shape may carry interior rings (holes).
+export type ParcelGeometry = PolygonGeometry | MultiPolygonGeometry
+
 export interface ParcelProperties {
   id: string
   siteId: string
@@ -14,11 +22,13 @@ export interface ParcelProperties {
   fullAddress: string
   lon: number
   lat: number
+  // Zoning district containing the parcel's label point; empty when no district matched.
+  zoningCode: string
 }
 
 export interface ParcelFeature {
   type: 'Feature'
-  geometry: PolygonGeometry
+  geometry: ParcelGeometry
   properties: ParcelProperties
 }
 
@@ -27,6 +37,43 @@ export interface ParcelFeatureCollection {
   features: ParcelFeature[]
 }
 
+export type RoadGeometry =
+  | { type: 'LineString'; coordinates: Position[] }
+  | { type: 'MultiLineString'; coordinates: Position[][] }
+
+export interface RoadProperties {
+  name: string
+  roadClass: string
+  kind: 'street' | 'lane'
+}
+
+export interface RoadFeature {
+  type: 'Feature'
+  geometry: RoadGeometry
+  properties: RoadProperties
+}
+
+export interface RoadFeatureCollection {
+  type: 'FeatureCollection'
+  features: RoadFeature[]
+}
+
+export interface ZoningProperties {
+  zoningCode: string
+  category: string
+}
+
+export interface ZoningFeature {
+  type: 'Feature'
+  geometry: ParcelGeometry
+  properties: ZoningProperties
+}
+
+export interface ZoningFeatureCollection {
+  type: 'FeatureCollection'
+  features: ZoningFeature[]
+}
+
 export type EdgeType = 'Frontage' | 'Flankage' | 'Rear Lane' | 'Rear' | 'Side'
 export type RoadKind = 'street' | 'lane' | null
 export type LotType =
@@ -35,10 +82,35 @@ export type LotType =
   | 'Standard with Lane'
   | 'Standard without Lane'
 
+export type EvidenceFactor =
+  | 'primary-street-match'
+  | 'primary-street-mismatch'
+  | 'no-street-evidence'
+  | 'strict-match'
+  | 'relaxed-match'
+  | 'distance-margin'
+  | 'orientation-margin'
+  | 'conflicting-candidate'
+  | 'unused-street-nearby'
+  | 'no-lane'
+
+export interface ConfidenceEvidence {
+  factor: EvidenceFactor
+  label: string
+  // Added to a starting score of 1; negative values lowered the score.
+  impact: number
+}
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low'
+
 export interface EdgeAnalysis {
   index: number
+  // Polygon part the edge belongs to; always 0 for single-polygon parcels.
+  partIndex: number
   start: Position
   end: Position
+  // Digitised ring vertices from start to end; more than two when collinear segments were merged.
+  vertices: Position[]
   midpoint: Position
   lengthMeters: number
   type: EdgeType
@@ -48,22 +120,126 @@ export interface EdgeAnalysis {
   roadDistanceMeters: number | null
   orientationDiffDeg: number | null
   isRoadAdjacent: boolean
+  // 0-1 confidence in this edge's type, built from `evidence`.
+  confidenceScore: number
+  evidence: ConfidenceEvidence[]
+  // True when `type` comes from a manual correction rather than the classifier.
+  isOverridden: boolean
   debug: string
 }
 
+export interface BoundingRectangle {
+  // Closed ring of the four corners.
+  corners: Position[]
+  widthMeters: number
+  lengthMeters: number
+  areaM2: number
+  // Bearing of the long side, 0-180 degrees clockwise from north.
+  orientationDeg: number
+}
+
+export interface LotDimensions {
+  frontageWidthMeters: number | null
+  // Mean distance between the frontage and the edge opposite it.
+  averageDepthMeters: number | null
+  boundingRectangle: BoundingRectangle | null
+  // Lot area over bounding-rectangle area; 1 for a perfect rectangle.
+  rectangularity: number | null
+}
+
 export interface ParcelAnalysis {
   areaM2: number
   primaryStreet: string
   lotType: LotType
+  isLotTypeOverridden: boolean
   reason: string
-  confidence: 'high' | 'medium' | 'low'
+  // Label bucketed from `confidenceScore`.
+  confidence: ConfidenceLevel
+  confidenceScore: number
+  // Evidence from the edges that decided the lot type, labelled with their edge number.
+  evidence: ConfidenceEvidence[]
+  dimensions: LotDimensions
   edges: EdgeAnalysis[]
 }
 
+export interface EdgeTypeOverride {
+  // `EdgeAnalysis.index` under the analysis config the correction was made with.
+  index: number
+  type: EdgeType
+}
+
+// The parts of a ParcelAnalysis that search filters read, kept for parcels analyzed earlier.
+export interface ParcelAnalysisSummary {
+  lotType: LotType
+  confidence: ConfidenceLevel
+  areaM2: number
+  frontageMeters: number | null
+  depthMeters: number | null
+}
+
+export interface ParcelOverride {
+  parcelId: string
+  // Null keeps the classified lot type.
+  lotType: LotType | null
+  edges: EdgeTypeOverride[]
+  // ISO timestamp of the last change.
+  updatedAt: string
+}
+
+// A parcel kept in the user's collection. The lot type and area are as analyzed when it was saved.
+export interface SavedParcel {
+  id: string
+  address: string
+  lon: number
+  lat: number
+  notes: string
+  // Lower case, without duplicates.
+  tags: string[]
+  lotType: LotType | null
+  areaM2: number | null
+  // ISO timestamps.
+  savedAt: string
+  updatedAt: string
+}
+
+export interface BuildableEnvelope {
+  // Null when the setbacks consume the whole lot.
+  geometry: ParcelGeometry | null
+  areaM2: number
+  // Buildable area over lot area.
+  coverageRatio: number
+}
+
+// Enough to find a parcel's tile without its geometry; search records and parcel properties both fit.
+export interface ParcelRef {
+  id: string
+  lon: number
+  lat: number
+}
+
+// Parcels ship as quadkey-named GeoJSON chunks; each parcel sits in the tile holding its label point.
+export interface ParcelTileEntry {
+  quadkey: string
+  count: number
+  // Extent of the tile's parcels, which can spill past the tile's own edges.
+  bounds: [west: number, south: number, east: number, north: number]
+}
+
+export interface ParcelTileManifest {
+  version: 1
+  zoom: number
+  parcelCount: number
+  tiles: ParcelTileEntry[]
+}
+
 export interface SearchRecord {
   id: string
   address: string
   lon: number
   lat: number
   streetName: string
+  zoningCode: string
+  // City identifiers from other systems; empty in indexes built before they were searchable.
+  siteId: string
+  taxCoord: string
 }